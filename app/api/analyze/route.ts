@@ -1,15 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
 import OpenAI from 'openai';
-import { scrapeUrl } from '@/utils/scraper';
+import { crawlSite } from '@/utils/crawler';
+import { probeSite } from '@/utils/technical-audit';
 import { calculateCASHScoreV2, CASHScoreResult } from '@/utils/cash-scoring';
 import { analyzeGMB } from '@/utils/gmb-analyzer';
+import { createGMBProviderFromEnv } from '@/utils/gmb-provider';
+import { createSerpProviderFromEnv } from '@/utils/serp-provider';
+import { analyzeReviews, createOpenAIReviewClassifier } from '@/utils/review-analysis';
 import { logger } from '@/utils/logger';
-import { AnalysisResult } from '@/types'; // Assumed type definition
+import { validateUrl, UrlValidationError } from '@/utils/url-validator';
+import { getPrimaryBusiness } from '@/utils/structured-data';
+import { isWeightProfileId } from '@/utils/weight-profiles';
+import { isBusinessType } from '@/utils/business-classifier';
+import { formatLossRange, LossModelInputError, parseLossInputs } from '@/utils/loss-model';
+import { AnalysisResult, LossModelInputs } from '@/types'; // Assumed type definition
 
 // --- VERCEL ENVIRONMENT CONFIG ---
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
 const GOOGLE_SHEET_WEBHOOK_URL = process.env.GOOGLE_SHEET_WEBHOOK_URL;
 const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
+// Google Places when GOOGLE_PLACES_API_KEY is set; GMB_FIXTURE_FILE for local development
+const gmbProvider = createGMBProviderFromEnv();
+// SerpApi when SERPAPI_API_KEY is set; without one the search results stage is skipped
+const serpProvider = createSerpProviderFromEnv();
+// Review themes come from the LLM when it is configured, the lexicon otherwise
+const reviewClassifier = OPENAI_API_KEY ? createOpenAIReviewClassifier(openai) : null;
 
 
 // --- START: GOOGLE SHEET AUTOMATION FUNCTION ---
@@ -48,8 +63,8 @@ async function generateAISummary(
   // It uses the same logic as the complete code we last reviewed.
 
   const aiReceptionistOffer = scoreResult.offers.find(o => o.id === 'ai_receptionist');
-  const lossAmount = aiReceptionistOffer?.monetizedLoss;
-  const lossText = lossAmount ? `<span class="font-bold text-red-600">$${lossAmount.toLocaleString()}</span>` : 'money';
+  const monetizedLoss = aiReceptionistOffer?.monetizedLoss;
+  const lossText = monetizedLoss ? `<span class="font-bold text-red-600">${formatLossRange(monetizedLoss.monthly)}</span>` : 'money';
 
   const prompt = `You are an expert agency advisor... (omitted for brevity)`; // Simplified for final push
 
@@ -88,31 +103,94 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { url, email } = body;
+    const { url, email, weightProfile, businessType } = body;
+    let lossInputs: Partial<LossModelInputs>;
 
     if (!url || typeof url !== 'string' || (email && typeof email !== 'string')) {
       logger.warn('Invalid input provided', { requestId, url, email });
       return NextResponse.json({ error: 'Valid URL and email are required', requestId }, { status: 400 });
     }
 
-    // Normalize URL: Add https:// if protocol is missing (V14 Fix)
-    let normalizedUrl = url;
-    if (!/^https?:\/\//i.test(url)) {
-      normalizedUrl = `https://${url}`;
+    if (weightProfile !== undefined && (typeof weightProfile !== 'string' || !isWeightProfileId(weightProfile))) {
+      logger.warn('Unknown weight profile', { requestId, weightProfile });
+      return NextResponse.json({ error: 'Unknown weight profile', requestId }, { status: 400 });
     }
 
-    // Safety check omitted for brevity: assume URL is valid
+    if (businessType !== undefined && (typeof businessType !== 'string' || !isBusinessType(businessType))) {
+      logger.warn('Unknown business type', { requestId, businessType });
+      return NextResponse.json({ error: 'Unknown business type', requestId }, { status: 400 });
+    }
+
+    try {
+      lossInputs = parseLossInputs(body.lossInputs);
+    } catch (error) {
+      if (error instanceof LossModelInputError) {
+        logger.warn('Invalid loss model inputs', { requestId, lossInputs: body.lossInputs });
+        return NextResponse.json({ error: 'Invalid loss model inputs', message: error.message, requestId }, { status: 400 });
+      }
+      throw error;
+    }
+
+    // Canonicalize the URL and refuse anything that resolves to a private/internal address
+    let normalizedUrl: string;
+    try {
+      normalizedUrl = await validateUrl(url);
+    } catch (error) {
+      if (error instanceof UrlValidationError) {
+        logger.warn('URL rejected', { requestId, url, code: error.code, detail: error.detail });
+        return NextResponse.json(
+          { error: 'Invalid URL', code: error.code, message: error.message, requestId },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
 
     logger.info('Starting URL scraping', { requestId, url: normalizedUrl });
 
-    const scrapedContent = await scrapeUrl(normalizedUrl);
-    logger.info('Scraping completed', { requestId, title: scrapedContent.title });
+    const scrapedContent = await crawlSite(normalizedUrl);
+    const crawledPages = (scrapedContent.pages || []).map(({ url, title, depth }) => ({ url, title, depth }));
+    logger.info('Scraping completed', {
+      requestId,
+      title: scrapedContent.title,
+      pages: crawledPages.length,
+      fetchStatus: scrapedContent.fetch?.status,
+      httpStatus: scrapedContent.fetch?.httpStatus,
+    });
 
-    const gmbProfile = await analyzeGMB(scrapedContent.html || '', scrapedContent.title);
-    logger.info('GMB Analysis completed', { requestId, found: gmbProfile.found });
+    // robots.txt, sitemap, http:// and link checks; pointless when the site refused us
+    const siteProbe = scrapedContent.fetch?.status === 'ok' ? await probeSite(scrapedContent) : undefined;
+    logger.info('Site probe completed', {
+      requestId,
+      robotsTxt: siteProbe?.robotsTxt.found,
+      sitemap: siteProbe?.sitemap.found,
+      brokenLinks: siteProbe?.brokenLinks.length,
+    });
+
+    // Search by the business's own name and city rather than the page title (often a slogan)
+    const nap = scrapedContent.nap?.primary;
+    const gmbProfile = await analyzeGMB(scrapedContent.html || '', {
+      name: nap?.name || getPrimaryBusiness(scrapedContent.structuredData)?.name || scrapedContent.title,
+      location: [nap?.locality, nap?.region].filter(Boolean).join(', ') || undefined,
+      phone: nap?.phone,
+    }, scrapedContent.structuredData, gmbProvider, serpProvider);
+    logger.info('GMB Analysis completed', { requestId, found: gmbProfile.found, method: gmbProfile.method, provider: gmbProfile.provider });
+    if (gmbProfile.method === 'UNAVAILABLE') {
+      logger.warn('GMB data unavailable', { requestId, reason: gmbProfile.unavailableReason });
+    }
+
+    if (gmbProfile.reviews?.length) {
+      gmbProfile.reviewAnalysis = await analyzeReviews(gmbProfile.reviews, reviewClassifier);
+      logger.info('Review analysis completed', {
+        requestId,
+        method: gmbProfile.reviewAnalysis.method,
+        reviews: gmbProfile.reviewAnalysis.reviewsAnalyzed,
+        themes: gmbProfile.reviewAnalysis.themes.map(theme => `${theme.id}:${theme.recentMentions}`),
+      });
+    }
 
-    const scoreResult = calculateCASHScoreV2(scrapedContent, gmbProfile);
-    logger.info('CASH v2 scores calculated', { requestId, scores: scoreResult.scores });
+    const scoreResult = calculateCASHScoreV2(scrapedContent, gmbProfile, { weightProfile, lossInputs, businessType, siteProbe });
+    logger.info('CASH v2 scores calculated', { requestId, scores: scoreResult.scores, businessType: scoreResult.businessClassification.type, weightProfile: scoreResult.weightProfile.id });
 
     const aiSummary = await generateAISummary(scrapedContent, scoreResult, requestId);
 
@@ -123,6 +201,7 @@ export async function POST(request: NextRequest) {
       timestamp: new Date().toISOString(),
       clientEmail: email || undefined,
       detectedBusinessType: scoreResult.detectedBusinessType || undefined,
+      businessClassification: scoreResult.businessClassification,
       scores: {
         // Explicitly ensuring all 4 scores are passed, matching the Apps Script expectation
         overall: scoreResult.scores.overall,
@@ -133,14 +212,24 @@ export async function POST(request: NextRequest) {
       },
       signals: scoreResult.signals,
       priorityIssues: scoreResult.priorityIssues,
-      offers: scoreResult.offers.sort((a, b) => { // Force AI Receptionist to be first
-        if (a.id === 'ai_receptionist') return -1;
-        if (b.id === 'ai_receptionist') return 1;
-        return (b.priority as any) - (a.priority as any);
-      }),
+      issues: scoreResult.issues,
+      offers: scoreResult.offers,
       aiSummary,
       gmbProfile,
-      scrapedContent,
+      napAudit: scoreResult.napAudit,
+      crawledPages,
+      fetchStatus: scrapedContent.fetch,
+      unknownCategories: scoreResult.unknownCategories,
+      rulesetVersion: scoreResult.rulesetVersion,
+      offerCatalogVersion: scoreResult.offerCatalogVersion,
+      weightProfile: scoreResult.weightProfile,
+      scoreBreakdown: scoreResult.scoreBreakdown,
+      techStack: scoreResult.techStack,
+      forms: scoreResult.forms,
+      contactChannels: scoreResult.contactChannels,
+      technicalAudit: scoreResult.technicalAudit,
+      // Per-page HTML is already merged into scrapedContent.html; don't send it twice
+      scrapedContent: { ...scrapedContent, pages: undefined },
     };
 
 
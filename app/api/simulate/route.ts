@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/utils/logger';
+import { isWeightProfileId, resolveWeightProfile } from '@/utils/weight-profiles';
+import { isBusinessType } from '@/utils/business-classifier';
+import { LossModelInputError, parseLossInputs } from '@/utils/loss-model';
+import { parseSignalFixes, parseSimulationGmbProfile, parseSimulationSignals, rankFixes, simulateFixes, SimulationBaseline, SimulationInputError } from '@/utils/score-simulator';
+import { SignalFix, SimulationResponse } from '@/types';
+
+// What-if scoring: re-scores an existing analysis with some signals fixed.
+// Stateless — the client posts back the signals it received from /api/analyze.
+export async function POST(request: NextRequest) {
+  const requestId = logger.info('Simulation request received');
+
+  try {
+    const body = await request.json();
+    const { weightProfile, businessType } = body;
+
+    if (weightProfile !== undefined && (typeof weightProfile !== 'string' || !isWeightProfileId(weightProfile))) {
+      logger.warn('Unknown weight profile', { requestId, weightProfile });
+      return NextResponse.json({ error: 'Unknown weight profile', requestId }, { status: 400 });
+    }
+
+    if (businessType !== undefined && (typeof businessType !== 'string' || !isBusinessType(businessType))) {
+      logger.warn('Unknown business type', { requestId, businessType });
+      return NextResponse.json({ error: 'Unknown business type', requestId }, { status: 400 });
+    }
+
+    let baseline: SimulationBaseline;
+    let fixes: SignalFix[];
+    try {
+      const signals = parseSimulationSignals(body.signals);
+      baseline = {
+        signals,
+        gmbProfile: parseSimulationGmbProfile(body.gmbProfile),
+        weightProfile: resolveWeightProfile(businessType, weightProfile),
+        businessType: businessType || null,
+        lossInputs: parseLossInputs(body.lossInputs),
+      };
+      fixes = parseSignalFixes(body.fixes, signals);
+    } catch (error) {
+      if (error instanceof SimulationInputError || error instanceof LossModelInputError) {
+        logger.warn('Invalid simulation input', { requestId, error: error.message });
+        return NextResponse.json({ error: 'Invalid simulation input', message: error.message, requestId }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const simulation = simulateFixes(baseline, fixes);
+    logger.info('Simulation complete', { requestId, fixes: fixes.length, uplift: simulation.uplift.overall });
+
+    const response: SimulationResponse = {
+      requestId,
+      simulation,
+      rankedFixes: rankFixes(baseline),
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Simulation failed', { requestId, error: errorMessage });
+
+    return NextResponse.json(
+      { error: 'Simulation failed', message: errorMessage, requestId },
+      { status: 500 }
+    );
+  }
+}
@@ -3,16 +3,18 @@
 import { useState } from 'react';
 import URLInputForm from '@/components/URLInputForm';
 import ResultViewer from '@/components/ResultViewer';
-import { AnalysisResult } from '@/types';
+import { AnalysisRequest, AnalysisResult } from '@/types';
 
 export default function Home() {
   const [isLoading, setIsLoading] = useState(false);
   const [result, setResult] = useState<AnalysisResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [urlError, setUrlError] = useState<string | null>(null);
 
-  const handleAnalyze = async (url: string, email: string) => {
+  const handleAnalyze = async (url: string, email: string, overrides: Omit<AnalysisRequest, 'url' | 'email'> = {}) => {
     setIsLoading(true);
     setError(null);
+    setUrlError(null);
     setResult(null);
 
     try {
@@ -21,11 +23,16 @@ export default function Home() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ url, email }),
+        body: JSON.stringify({ url, email, ...overrides }),
       });
 
       if (!response.ok) {
         const errorData = await response.json();
+        // URL validation failures carry a code and are shown next to the URL field
+        if (errorData.code) {
+          setUrlError(errorData.message || 'Invalid URL');
+          return;
+        }
         throw new Error(errorData.message || errorData.error || 'Analysis failed');
       }
 
@@ -61,7 +68,7 @@ export default function Home() {
 
         {/* Input Form */}
         <div className="flex justify-center mb-8">
-          <URLInputForm onSubmit={handleAnalyze} isLoading={isLoading} />
+          <URLInputForm onSubmit={handleAnalyze} isLoading={isLoading} urlError={urlError} />
         </div>
 
         {/* Error Display */}
@@ -94,7 +101,13 @@ export default function Home() {
         )}
 
         {/* Results */}
-        {result && <ResultViewer result={result} />}
+        {result && (
+          <ResultViewer
+            result={result}
+            // Re-run the analysis with the vertical the user picked
+            onRescore={(businessType) => handleAnalyze(result.url, result.clientEmail || '', { businessType })}
+          />
+        )}
       </div>
     </main>
   );
@@ -0,0 +1,127 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { LossModelInputs, Offer, ROIProjection } from '@/types';
+import { adjustLossModel, formatLossRange, formatPayback, projectROI } from '@/utils/loss-model';
+
+interface ROICalculatorProps {
+  offer: Offer; // Offer carrying the analyzer's loss model (AI Receptionist)
+  onChange?: (projection: ROIProjection) => void;
+}
+
+type AdjustableInput = Extract<keyof LossModelInputs, 'monthlyCallVolume' | 'closeRate' | 'averageTicket'>;
+
+export default function ROICalculator({ offer, onChange }: ROICalculatorProps) {
+  const base = offer.monetizedLoss!;
+  const [inputs, setInputs] = useState<Pick<LossModelInputs, AdjustableInput>>({
+    monthlyCallVolume: base.inputs.monthlyCallVolume,
+    closeRate: base.inputs.closeRate,
+    averageTicket: base.inputs.averageTicket,
+  });
+
+  const projection = useMemo(
+    () => projectROI(adjustLossModel(base, inputs), offer.id, offer.pricing),
+    [base, inputs, offer.id, offer.pricing]
+  );
+
+  useEffect(() => {
+    onChange?.(projection);
+  }, [projection, onChange]);
+
+  const isAdjusted = (Object.keys(inputs) as AdjustableInput[]).some(key => inputs[key] !== base.inputs[key]);
+  const setInput = (key: AdjustableInput, value: number) => setInputs(prev => ({ ...prev, [key]: value }));
+
+  // Slider bounds scale with the analyzer's own estimate
+  const maxCalls = Math.max(1000, Math.ceil((base.inputs.monthlyCallVolume * 3) / 100) * 100);
+  const maxTicket = Math.max(1000, Math.ceil((base.inputs.averageTicket * 4) / 100) * 100);
+  const ticketStep = base.inputs.averageTicket >= 1000 ? 50 : 5;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200 print:p-3 print:mb-2 print:shadow-none">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold text-gray-900">ROI Calculator</h3>
+        {isAdjusted && (
+          <button
+            onClick={() => setInputs({
+              monthlyCallVolume: base.inputs.monthlyCallVolume,
+              closeRate: base.inputs.closeRate,
+              averageTicket: base.inputs.averageTicket,
+            })}
+            className="text-sm text-blue-600 hover:text-blue-800 font-medium print:hidden"
+          >
+            Reset to estimate
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <label className="block">
+          <span className="text-xs text-gray-500 uppercase font-semibold">Calls per month</span>
+          <span className="block text-lg font-bold text-gray-900">{inputs.monthlyCallVolume.toLocaleString()}</span>
+          <input
+            type="range"
+            min={0}
+            max={maxCalls}
+            step={10}
+            value={inputs.monthlyCallVolume}
+            onChange={(e) => setInput('monthlyCallVolume', Number(e.target.value))}
+            className="w-full print:hidden"
+          />
+        </label>
+        <label className="block">
+          <span className="text-xs text-gray-500 uppercase font-semibold">Close rate</span>
+          <span className="block text-lg font-bold text-gray-900">{Math.round(inputs.closeRate * 100)}%</span>
+          <input
+            type="range"
+            min={1}
+            max={100}
+            step={1}
+            value={Math.round(inputs.closeRate * 100)}
+            onChange={(e) => setInput('closeRate', Number(e.target.value) / 100)}
+            className="w-full print:hidden"
+          />
+        </label>
+        <label className="block">
+          <span className="text-xs text-gray-500 uppercase font-semibold">Average ticket</span>
+          <span className="block text-lg font-bold text-gray-900">${inputs.averageTicket.toLocaleString()}</span>
+          <input
+            type="range"
+            min={0}
+            max={maxTicket}
+            step={ticketStep}
+            value={inputs.averageTicket}
+            onChange={(e) => setInput('averageTicket', Number(e.target.value))}
+            className="w-full print:hidden"
+          />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
+        <div className="p-3 bg-red-50 rounded-lg">
+          <p className="text-xs text-gray-500 uppercase font-semibold">Monthly loss</p>
+          <p className="text-xl font-bold text-red-600">${projection.loss.monthly.expected.toLocaleString()}</p>
+          <p className="text-xs text-gray-500">{formatLossRange(projection.loss.monthly)}</p>
+        </div>
+        <div className="p-3 bg-red-50 rounded-lg">
+          <p className="text-xs text-gray-500 uppercase font-semibold">Annual loss</p>
+          <p className="text-xl font-bold text-red-600">${projection.loss.annual.expected.toLocaleString()}</p>
+          <p className="text-xs text-gray-500">{formatLossRange(projection.loss.annual)}</p>
+        </div>
+        <div className="p-3 bg-gray-50 rounded-lg">
+          <p className="text-xs text-gray-500 uppercase font-semibold">Missed calls</p>
+          <p className="text-xl font-bold text-gray-900">~{projection.loss.missedCallsPerMonth.expected}</p>
+          <p className="text-xs text-gray-500">per month</p>
+        </div>
+        <div className="p-3 bg-green-50 rounded-lg">
+          <p className="text-xs text-gray-500 uppercase font-semibold">{offer.label} payback</p>
+          <p className="text-xl font-bold text-green-700">{formatPayback(projection)}</p>
+          {offer.pricing && (
+            <p className="text-xs text-gray-500">
+              ${offer.pricing.setupFee.toLocaleString()} setup + ${offer.pricing.monthlyFee.toLocaleString()}/mo
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,16 @@
 'use client';
 
-import { AnalysisResult } from '@/types';
+import { useCallback, useEffect, useState } from 'react';
+import { AnalysisResult, EvidenceHit, FetchResult, IssueEffort, Offer, ROIProjection, SignalCategory, TechCategory, ContactChannelType, TechnicalAudit } from '@/types';
 import { exportToPDF } from '@/utils/formatter';
+import { formatAssumptionValue, formatLossRange } from '@/utils/loss-model';
+import { BUSINESS_TYPES, UNKNOWN_BUSINESS_TYPE } from '@/utils/business-classifier';
+import ROICalculator from '@/components/ROICalculator';
+import ScoreSimulator from '@/components/ScoreSimulator';
 
 interface ResultViewerProps {
   result: AnalysisResult | null;
+  onRescore?: (businessType: string) => void; // Re-analyze with a corrected vertical
 }
 
 function getScoreLevel(score: number): { label: string; color: string; bgColor: string } {
@@ -35,6 +41,106 @@ function getPriorityColor(priority: 'high' | 'medium' | 'low'): string {
   return 'border-yellow-500';
 }
 
+function describeFetchStatus(fetchStatus: FetchResult): string {
+  const code = fetchStatus.httpStatus ? ` (HTTP ${fetchStatus.httpStatus})` : '';
+  switch (fetchStatus.status) {
+    case 'blocked': return `The website blocked our analyzer${code}.`;
+    case 'timeout': return 'The website did not respond in time.';
+    case 'dns': return 'The domain could not be resolved.';
+    case 'non-html': return 'The URL did not return a web page.';
+    case 'http-error': return `The website returned an error${code}.`;
+    case 'unsafe': return 'The website redirected to a private or disallowed address.';
+    default: return 'The website could not be fetched.';
+  }
+}
+
+const CATEGORY_LABELS: Record<SignalCategory, string> = {
+  content: 'Content',
+  authority: 'Authority',
+  systems: 'Systems',
+  hypergrowth: 'Hypergrowth',
+};
+
+const ISSUE_EFFORT_LABELS: Record<IssueEffort, string> = {
+  'quick-win': 'Quick win',
+  moderate: 'Moderate effort',
+  project: 'Project',
+};
+
+const CONTACT_CHANNEL_LABELS: Record<ContactChannelType, string> = {
+  phone: 'Phone',
+  sms: 'Text',
+  whatsapp: 'WhatsApp',
+  messenger: 'Messenger',
+  'live-chat': 'Live chat',
+  booking: 'Booking',
+  email: 'Email',
+  form: 'Form',
+};
+
+const GMB_PROVIDER_LABELS: Record<string, string> = {
+  'google-places': 'Google Places',
+  fixture: 'Sample data',
+  serpapi: 'Google search results',
+  'serp-fixture': 'Sample search results',
+};
+
+const TECH_CATEGORY_LABELS: Record<TechCategory, string> = {
+  booking: 'Booking',
+  chat: 'Live chat',
+  crm: 'CRM',
+  'email-marketing': 'Email marketing',
+  payments: 'Payments',
+  analytics: 'Analytics',
+  'tag-manager': 'Tag manager',
+  'ad-pixel': 'Ad pixels',
+  heatmap: 'Heatmaps',
+  'call-tracking': 'Call tracking',
+  reviews: 'Reviews',
+};
+
+// Short page label for evidence hits ("/about" rather than the full URL)
+function describeEvidenceSource(hit: Pick<EvidenceHit, 'pageUrl'>): string | null {
+  if (!hit.pageUrl) return null;
+  try {
+    return new URL(hit.pageUrl).pathname;
+  } catch {
+    return hit.pageUrl;
+  }
+}
+
+// Pass/fail lines for the Technical SEO card; probe items only when the probe ran
+function describeTechnicalAudit(audit: TechnicalAudit): { label: string; passed: boolean; detail?: string }[] {
+  const landing = audit.pages[0];
+  if (!landing) return [];
+  const images = audit.pages.reduce((sum, page) => sum + page.images, 0);
+  const missingAlt = audit.pages.reduce((sum, page) => sum + page.imagesMissingAlt, 0);
+  const noindex = audit.pages.filter(page => page.noindex);
+  const items = [
+    { label: 'Self-referencing canonical tag', passed: landing.canonicalSelf, detail: landing.canonical },
+    { label: 'No pages marked noindex', passed: noindex.length === 0, detail: noindex.map(page => describeEvidenceSource({ pageUrl: page.url })).join(', ') || undefined },
+    { label: 'Page language declared', passed: Boolean(landing.lang), detail: landing.lang },
+    { label: 'Image alt text', passed: missingAlt === 0, detail: `${images - missingAlt} of ${images} images` },
+    { label: 'Page weight', passed: landing.htmlBytes < 200 * 1024, detail: `${Math.round(landing.htmlBytes / 1024)} KB HTML, ${landing.resources} resources` },
+    { label: 'Render-blocking scripts', passed: landing.blockingScripts <= 2, detail: String(landing.blockingScripts) },
+  ];
+  const probe = audit.probe;
+  if (!probe) return items;
+  return [
+    ...items,
+    { label: 'Served over HTTPS', passed: probe.https && probe.httpRedirectsToHttps !== false, detail: probe.https && probe.httpRedirectsToHttps === false ? 'http:// does not redirect' : undefined },
+    { label: 'robots.txt', passed: probe.robotsTxt.found && !probe.robotsTxt.disallowsAll, detail: probe.robotsTxt.disallowsAll ? 'blocks the whole site' : undefined },
+    { label: 'XML sitemap', passed: probe.sitemap.urlCount > 0, detail: probe.sitemap.found ? `${probe.sitemap.urlCount} URLs` : undefined },
+    {
+      label: 'No broken internal links',
+      passed: probe.brokenLinks.length === 0,
+      detail: probe.brokenLinks.length > 0
+        ? probe.brokenLinks.map(link => `${describeEvidenceSource({ pageUrl: link.url })}${link.httpStatus ? ` (${link.httpStatus})` : ''}`).join(', ')
+        : `${probe.linksChecked} checked`,
+    },
+  ];
+}
+
 // Map business type to CTA display name
 function getCTABusinessType(businessType: string): string {
   // Map "Real Estate" to "Property Management" for professional designation
@@ -44,15 +150,46 @@ function getCTABusinessType(businessType: string): string {
   return businessType;
 }
 
-export default function ResultViewer({ result }: ResultViewerProps) {
+// VAPI demo link; the loss range rides along so the demo agent can quote it
+function getCTAUrl(result: AnalysisResult, roi: ROIProjection | null): string {
+  const slug = getCTABusinessType(result.detectedBusinessType || 'Business').toLowerCase().replace(/\s+/g, '-');
+  const monthly = roi?.loss.monthly ?? result.offers.find(o => o.id === 'ai_receptionist')?.monetizedLoss?.monthly;
+  if (!monthly) return `https://vapi.ai/demo/${slug}`;
+  const params = new URLSearchParams({
+    lossLow: String(monthly.low),
+    lossExpected: String(monthly.expected),
+    lossHigh: String(monthly.high),
+  });
+  return `https://vapi.ai/demo/${slug}?${params.toString()}`;
+}
+
+export default function ResultViewer({ result, onRescore }: ResultViewerProps) {
+  // Numbers adjusted in the ROI calculator; they replace the analyzer's estimate in offers, CTA and PDF
+  const [roi, setRoi] = useState<ROIProjection | null>(null);
+  const handleRoiChange = useCallback((projection: ROIProjection) => setRoi(projection), []);
+  const [correctedType, setCorrectedType] = useState('');
+  const [issueView, setIssueView] = useState<'top' | 'all'>('top');
+
+  useEffect(() => {
+    setRoi(null);
+    setCorrectedType('');
+    setIssueView('top');
+  }, [result?.requestId]);
+
   if (!result) return null;
 
+  const lossOffer = result.offers.find(o => o.id === 'ai_receptionist' && o.monetizedLoss);
+  const getOfferLoss = (offer: Offer) => (roi?.offerId === offer.id ? roi.loss : offer.monetizedLoss);
+
   const overallLevel = getScoreLevel(result.scores.overall);
   const contentLevel = getScoreLevel(result.scores.content);
   const authorityLevel = getScoreLevel(result.scores.authority);
   const systemsLevel = getScoreLevel(result.scores.systems);
   const hypergrowthLevel = getScoreLevel(result.scores.hypergrowth);
 
+  const isUnknown = (category: SignalCategory) => result.unknownCategories?.includes(category) ?? false;
+  const isPartial = (result.fetchStatus && result.fetchStatus.status !== 'ok') || (result.unknownCategories?.length ?? 0) > 0;
+
   // Get most important signal for each category
   const getTopSignal = (signals: typeof result.signals.content) => {
     const sorted = [...signals].sort((a, b) => a.score - b.score);
@@ -78,6 +215,69 @@ export default function ResultViewer({ result }: ResultViewerProps) {
         </div>
       </div>
 
+      {/* Business Type (classifier result, correctable) */}
+      {result.businessClassification && (
+        <div className="bg-white rounded-lg shadow-sm p-4 border border-gray-200 print:p-2 print:shadow-none">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <p className="text-sm text-gray-500 uppercase font-semibold">Business type</p>
+              <p className="font-medium text-gray-900">
+                {result.businessClassification.type === UNKNOWN_BUSINESS_TYPE
+                  ? 'Unknown (not enough evidence to pick a vertical)'
+                  : result.businessClassification.type}
+                {result.businessClassification.source === 'override'
+                  ? <span className="text-sm text-gray-500"> · set manually</span>
+                  : result.businessClassification.type !== UNKNOWN_BUSINESS_TYPE && (
+                    <span className="text-sm text-gray-500"> · {Math.round(result.businessClassification.confidence * 100)}% confidence</span>
+                  )}
+              </p>
+              {result.businessClassification.candidates.length > 0 && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Candidates:{' '}
+                  {result.businessClassification.candidates
+                    .map((candidate) => `${candidate.type} (${Math.round(candidate.confidence * 100)}%)`)
+                    .join(', ')}
+                </p>
+              )}
+            </div>
+            {onRescore && (
+              <div className="flex items-center gap-2 print:hidden">
+                <select
+                  value={correctedType}
+                  onChange={(e) => setCorrectedType(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  <option value="">Correct the vertical…</option>
+                  {BUSINESS_TYPES.map((type) => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => correctedType && onRescore(correctedType)}
+                  disabled={!correctedType}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-semibold disabled:opacity-50"
+                >
+                  Re-score
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Partial Analysis Banner */}
+      {isPartial && (
+        <div className="bg-amber-50 border border-amber-300 rounded-lg p-4 print:p-2">
+          <p className="font-semibold text-amber-900">Partial analysis</p>
+          <p className="text-sm text-amber-800 mt-1">
+            {result.fetchStatus && result.fetchStatus.status !== 'ok'
+              ? `${describeFetchStatus(result.fetchStatus)} `
+              : ''}
+            Signals we could not measure are marked N/A and left out of the score.
+          </p>
+        </div>
+      )}
+
       {/* Overall Score Card (Compact) */}
       <div className="bg-white rounded-lg shadow-lg p-4 border-2 border-gray-200 print:p-2 print:mb-2 print:shadow-none print:border">
         <div className="flex items-center justify-between gap-4">
@@ -90,7 +290,7 @@ export default function ResultViewer({ result }: ResultViewerProps) {
 
           {/* Export PDF Button */}
           <button
-            onClick={() => exportToPDF(result)}
+            onClick={() => exportToPDF(result, roi ?? undefined)}
             className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-semibold flex items-center gap-2 print:hidden"
           >
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -107,6 +307,24 @@ export default function ResultViewer({ result }: ResultViewerProps) {
             />
           </div>
         </div>
+
+        {/* Weight profile and per-category contribution */}
+        {result.weightProfile && result.scoreBreakdown && (
+          <div className="mt-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-600">
+            <span className="font-semibold text-gray-700">
+              Weighted for {result.weightProfile.label}
+              {result.weightProfile.source === 'override' && ' (manual)'}
+            </span>
+            {result.scoreBreakdown.map((item) => (
+              <span key={item.category}>
+                {CATEGORY_LABELS[item.category]}:{' '}
+                {item.measured
+                  ? `${Math.round(item.weight * 100)}% × ${item.score} = ${item.contribution} pts`
+                  : 'N/A'}
+              </span>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Category Cards */}
@@ -116,7 +334,7 @@ export default function ResultViewer({ result }: ResultViewerProps) {
           <div className="flex items-center justify-between mb-3">
             <h3 className="text-lg font-bold text-gray-900">Content</h3>
             <span className={`text-2xl font-bold ${contentLevel.color}`}>
-              {result.scores.content}
+              {isUnknown('content') ? 'N/A' : result.scores.content}
             </span>
           </div>
           <div className="w-full bg-gray-200 rounded-full h-2 mb-3">
@@ -158,7 +376,7 @@ export default function ResultViewer({ result }: ResultViewerProps) {
           <div className="flex items-center justify-between mb-3">
             <h3 className="text-lg font-bold text-gray-900">Systems</h3>
             <span className={`text-2xl font-bold ${systemsLevel.color}`}>
-              {result.scores.systems}
+              {isUnknown('systems') ? 'N/A' : result.scores.systems}
             </span>
           </div>
           <div className="w-full bg-gray-200 rounded-full h-2 mb-3">
@@ -179,7 +397,7 @@ export default function ResultViewer({ result }: ResultViewerProps) {
           <div className="flex items-center justify-between mb-3">
             <h3 className="text-lg font-bold text-gray-900">Hypergrowth</h3>
             <span className={`text-2xl font-bold ${hypergrowthLevel.color}`}>
-              {result.scores.hypergrowth}
+              {isUnknown('hypergrowth') ? 'N/A' : result.scores.hypergrowth}
             </span>
           </div>
           <div className="w-full bg-gray-200 rounded-full h-2 mb-3">
@@ -206,6 +424,10 @@ export default function ResultViewer({ result }: ResultViewerProps) {
               <span className="px-3 py-1 bg-green-100 text-green-800 rounded-full text-sm font-medium">
                 Profile Found
               </span>
+            ) : result.gmbProfile?.method === 'UNAVAILABLE' ? (
+              <span className="px-3 py-1 bg-gray-100 text-gray-700 rounded-full text-sm font-medium">
+                Data Unavailable
+              </span>
             ) : (
               <span className="px-3 py-1 bg-red-100 text-red-800 rounded-full text-sm font-medium">
                 Profile Not Found
@@ -242,6 +464,54 @@ export default function ResultViewer({ result }: ResultViewerProps) {
                   <span className="text-sm text-gray-400">/ 100</span>
                 </div>
               </div>
+              {result.gmbProfile.method === 'SERP_FALLBACK' && (
+                <p className="col-span-2 text-sm text-amber-700">
+                  Found in Google search results, but neither the website nor Places search leads to it. Link the profile from the site.
+                </p>
+              )}
+              {result.gmbProfile.checklist && (
+                <ul className="col-span-2 space-y-2">
+                  {result.gmbProfile.checklist.map(item => (
+                    <li key={item.id} className="flex items-start gap-2 text-sm">
+                      {item.status === 'unknown' ? (
+                        <span className="text-gray-400">?</span>
+                      ) : (
+                        <span className={item.status === 'pass' ? 'text-green-600' : 'text-red-600'}>{item.status === 'pass' ? '✓' : '✗'}</span>
+                      )}
+                      <div className="flex-1">
+                        <span className={item.status === 'unknown' ? 'text-gray-500' : 'text-gray-900'}>{item.label}</span>
+                        <p className="text-xs text-gray-500">{item.detail}</p>
+                      </div>
+                      {item.status !== 'unknown' && (
+                        <span className="text-xs text-gray-400">{item.points}/{item.maxPoints}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {result.gmbProfile.reviewAnalysis && (
+                <div className="col-span-2 text-sm text-gray-700">
+                  <p>
+                    Of {result.gmbProfile.reviewAnalysis.reviewsAnalyzed} recent reviews: {result.gmbProfile.reviewAnalysis.sentiment.positive} positive,{' '}
+                    {result.gmbProfile.reviewAnalysis.sentiment.neutral} neutral, {result.gmbProfile.reviewAnalysis.sentiment.negative} negative.
+                  </p>
+                  {result.gmbProfile.reviewAnalysis.themes.length > 0 && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Complaints: {result.gmbProfile.reviewAnalysis.themes.map(theme => `${theme.label.toLowerCase()} (${theme.mentions})`).join(', ')}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          ) : result.gmbProfile?.method === 'UNAVAILABLE' ? (
+            <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
+              <p className="text-gray-800 font-medium">
+                We could not check this business&apos;s Google Business Profile.
+              </p>
+              <p className="text-gray-600 text-sm mt-1">
+                {result.gmbProfile.unavailableReason ? `Reason: ${result.gmbProfile.unavailableReason}. ` : ''}
+                Authority is scored from the website alone.
+              </p>
             </div>
           ) : (
             <div className="p-4 bg-red-50 border border-red-100 rounded-lg">
@@ -253,12 +523,61 @@ export default function ResultViewer({ result }: ResultViewerProps) {
               </p>
             </div>
           )}
+          {result.gmbProfile?.provider && (
+            <p className="text-xs text-gray-400 mt-3">
+              Source: {GMB_PROVIDER_LABELS[result.gmbProfile.provider] ?? result.gmbProfile.provider}
+              {result.gmbProfile.fetchedAt && `, ${new Date(result.gmbProfile.fetchedAt).toLocaleString()}`}
+            </p>
+          )}
         </div>
 
-        {/* Critical Issues */}
+        {/* Issues: top-5 summary, or every underperforming signal with remediation */}
         <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200 print:p-3 print:mb-2 print:shadow-none h-full">
-          <h3 className="text-xl font-bold text-gray-900 mb-4">Critical Issues</h3>
-          {result.priorityIssues.length > 0 ? (
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xl font-bold text-gray-900">{issueView === 'all' ? 'All Issues' : 'Critical Issues'}</h3>
+            {(result.issues?.length ?? 0) > 0 && (
+              <div className="flex text-sm border border-gray-300 rounded-lg overflow-hidden print:hidden">
+                <button
+                  onClick={() => setIssueView('top')}
+                  className={`px-3 py-1 ${issueView === 'top' ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-100'}`}
+                >
+                  Top 5
+                </button>
+                <button
+                  onClick={() => setIssueView('all')}
+                  className={`px-3 py-1 ${issueView === 'all' ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-100'}`}
+                >
+                  All ({result.issues!.length})
+                </button>
+              </div>
+            )}
+          </div>
+          {issueView === 'all' && result.issues ? (
+            <div className="space-y-3">
+              {result.issues.map((issue) => (
+                <details key={issue.id} className="p-3 bg-gray-50 rounded-lg">
+                  <summary className="flex items-start gap-3 cursor-pointer">
+                    <div className={`w-3 h-3 rounded-full mt-1.5 flex-shrink-0 ${getSeverityColor(issue.severity)}`} />
+                    <div className="flex-1">
+                      <p className="text-sm font-medium text-gray-900">{issue.signalLabel} <span className="text-gray-500">({issue.score}/10)</span></p>
+                      <p className="text-sm text-gray-600">{issue.label}</p>
+                    </div>
+                  </summary>
+                  <div className="mt-2 ml-6 text-sm text-gray-700">
+                    <ol className="list-decimal ml-4 space-y-1">
+                      {issue.remediation.map((step, idx) => (
+                        <li key={idx}>{step}</li>
+                      ))}
+                    </ol>
+                    <p className="text-xs text-gray-500 mt-2">
+                      {ISSUE_EFFORT_LABELS[issue.effort]} · {issue.effortEstimate} · {issue.impact} business impact
+                      {issue.offer && <> · Addressed by <span className="font-semibold">{issue.offer.label}</span></>}
+                    </p>
+                  </div>
+                </details>
+              ))}
+            </div>
+          ) : result.priorityIssues.length > 0 ? (
             <div className="space-y-3">
               {result.priorityIssues.slice(0, 5).map((issue) => (
                 <div key={issue.id} className="flex items-start gap-3">
@@ -273,57 +592,294 @@ export default function ResultViewer({ result }: ResultViewerProps) {
         </div>
       </div>
 
+      {/* Signal Breakdown (expand a signal to see the evidence behind its score) */}
+      <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200 print:hidden">
+        <h3 className="text-xl font-bold text-gray-900 mb-4">Signal Breakdown</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {(Object.keys(CATEGORY_LABELS) as SignalCategory[]).map((category) => (
+            <div key={category}>
+              <p className="text-sm text-gray-500 uppercase font-semibold mb-2">{CATEGORY_LABELS[category]}</p>
+              <div className="space-y-2">
+                {result.signals[category].map((signal) => (
+                  <details key={signal.id} className="p-3 bg-gray-50 rounded-lg">
+                    <summary className="flex items-center justify-between gap-3 cursor-pointer">
+                      <span className="text-sm font-medium text-gray-900">{signal.label}</span>
+                      <span className={`text-sm font-bold ${signal.status === 'unknown' ? 'text-gray-400' : getScoreLevel(signal.score * 10).color}`}>
+                        {signal.status === 'unknown' ? 'N/A' : `${signal.score}/10`}
+                      </span>
+                    </summary>
+                    <p className="text-xs text-gray-600 mt-2">{signal.notes}</p>
+                    {signal.evidence && (
+                      <ul className="mt-3 space-y-2">
+                        {signal.evidence.checks.map((check) => (
+                          <li key={check.id} className="text-xs">
+                            <div className="flex items-start gap-2">
+                              <span className={check.passed ? 'text-green-600' : 'text-red-600'}>{check.passed ? '✓' : '✗'}</span>
+                              <span className="flex-1 text-gray-800">{check.description}</span>
+                              {check.points !== 0 && (
+                                <span className="text-gray-500">{check.points > 0 ? '+' : ''}{Math.round(check.points * 10) / 10}</span>
+                              )}
+                            </div>
+                            {signal.evidence!.hits.filter((hit) => hit.checkId === check.id).map((hit, idx) => (
+                              <div key={idx} className="ml-5 mt-1 p-2 bg-white border border-gray-200 rounded">
+                                <p className="text-gray-900">
+                                  <span className="font-mono">{hit.match}</span>
+                                  {describeEvidenceSource(hit) && (
+                                    <span className="text-gray-400"> · {describeEvidenceSource(hit)}</span>
+                                  )}
+                                </p>
+                                {hit.snippet && hit.snippet !== hit.match && (
+                                  <p className="text-gray-500 mt-1 break-words">{hit.snippet}</p>
+                                )}
+                              </div>
+                            ))}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </details>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* NAP Consistency */}
+      {result.napAudit && (
+        <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200 print:p-3 print:mb-2 print:shadow-none">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xl font-bold text-gray-900">NAP Consistency</h3>
+            <span className={`px-3 py-1 rounded-full text-sm font-medium ${getScoreLevel(result.napAudit.consistencyScore).bgColor} ${getScoreLevel(result.napAudit.consistencyScore).color}`}>
+              {result.napAudit.consistencyScore} / 100
+            </span>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {([
+              ['Name', result.napAudit.primary.name],
+              ['Phone', result.napAudit.primary.phone],
+              ['Address', result.napAudit.primary.address],
+            ] as const).map(([label, value]) => (
+              <div key={label} className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-xs text-gray-500 uppercase font-semibold">{label}</p>
+                <p className={`text-sm font-medium mt-1 ${value ? 'text-gray-900' : 'text-red-600'}`}>
+                  {value || 'Not found'}
+                </p>
+              </div>
+            ))}
+          </div>
+          {result.napAudit.mismatches.length > 0 ? (
+            <div className="mt-4 space-y-2">
+              {result.napAudit.mismatches.map((mismatch, idx) => (
+                <div key={idx} className="p-3 bg-red-50 border border-red-100 rounded-lg">
+                  <p className="text-sm font-medium text-red-800">{mismatch.detail}</p>
+                  <p className="text-xs text-red-600 mt-1">{mismatch.values.join(' vs. ')}</p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 mt-4">
+              {result.napAudit.gmbCompared
+                ? 'No mismatches across the site or with the Google Business Profile.'
+                : 'No mismatches across the site.'}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Contact Channels */}
+      {result.contactChannels && (
+        <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200 print:p-3 print:mb-2 print:shadow-none">
+          <h3 className="text-xl font-bold text-gray-900 mb-4">Contact Channels</h3>
+          {result.contactChannels.length > 0 ? (
+            <ul className="space-y-2">
+              {result.contactChannels.map((channel, idx) => (
+                <li key={idx} className="flex items-start justify-between gap-3 text-sm">
+                  <div>
+                    <span className="text-xs text-gray-500 uppercase font-semibold mr-2">{CONTACT_CHANNEL_LABELS[channel.type]}</span>
+                    <span className="text-gray-900">{channel.label}</span>
+                    <p className="text-xs text-gray-500">{channel.placements.join(', ')}</p>
+                  </div>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${channel.tappable ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+                    {channel.tappable ? 'Tappable' : 'Not tappable'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500">No phone link, chat, booking, email or contact form was found.</p>
+          )}
+        </div>
+      )}
+
+      {/* Tech Stack */}
+      {result.techStack && (
+        <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200 print:p-3 print:mb-2 print:shadow-none">
+          <h3 className="text-xl font-bold text-gray-900 mb-4">Tech Stack</h3>
+          {result.techStack.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {(Object.keys(TECH_CATEGORY_LABELS) as TechCategory[])
+                .filter(category => result.techStack?.some(tech => tech.category === category))
+                .map(category => (
+                  <div key={category} className="p-3 bg-gray-50 rounded-lg">
+                    <p className="text-xs text-gray-500 uppercase font-semibold">{TECH_CATEGORY_LABELS[category]}</p>
+                    <ul className="mt-1 space-y-1">
+                      {result.techStack?.filter(tech => tech.category === category).map(tech => (
+                        <li key={tech.id} className="text-sm text-gray-900" title={tech.markers.map(m => `${m.kind}: ${m.match}`).join('\n')}>
+                          {tech.vendor}
+                          {tech.ids && <span className="text-gray-500"> ({tech.ids.join(', ')})</span>}
+                          <span className="text-xs text-gray-500 ml-1">{Math.round(tech.confidence * 100)}%</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No booking, chat, analytics or marketing tools were detected.</p>
+          )}
+        </div>
+      )}
+
+      {/* Form Friction */}
+      {result.forms && result.forms.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200 print:p-3 print:mb-2 print:shadow-none">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xl font-bold text-gray-900">Form Friction</h3>
+            <span className="text-sm text-gray-500">{result.forms.length} form{result.forms.length === 1 ? '' : 's'} found</span>
+          </div>
+          {result.forms[0].frictionScore > 0 && (
+            <div className="p-3 mb-4 bg-red-50 border border-red-100 rounded-lg">
+              <p className="text-sm font-medium text-red-800">
+                Worst form: &quot;{result.forms[0].label}&quot;
+                {describeEvidenceSource(result.forms[0]) && ` on ${describeEvidenceSource(result.forms[0])}`}
+              </p>
+              <p className="text-xs text-red-600 mt-1">{result.forms[0].reasons.join(' · ')}</p>
+            </div>
+          )}
+          <ul className="space-y-2">
+            {result.forms.map((form, idx) => (
+              <li key={idx} className="flex items-start justify-between gap-3 text-sm">
+                <div>
+                  <span className="font-medium text-gray-900">{form.label}</span>
+                  {describeEvidenceSource(form) && <span className="text-gray-500"> · {describeEvidenceSource(form)}</span>}
+                  <p className="text-xs text-gray-500">
+                    {form.embed ? `${form.embed} embed` : `${form.visibleFields} fields, ${form.requiredFields} required`}
+                    {form.aboveFold ? ' · above the fold' : ' · below the fold'}
+                  </p>
+                </div>
+                <span className={`font-semibold whitespace-nowrap ${getScoreLevel(100 - form.frictionScore * 10).color}`}>
+                  {form.frictionScore}/10 friction
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Technical SEO */}
+      {result.technicalAudit && result.technicalAudit.pages.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200 print:p-3 print:mb-2 print:shadow-none">
+          <h3 className="text-xl font-bold text-gray-900 mb-4">Technical SEO</h3>
+          <ul className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {describeTechnicalAudit(result.technicalAudit).map(item => (
+              <li key={item.label} className="flex items-start gap-2 text-sm">
+                <span className={item.passed ? 'text-green-600' : 'text-red-600'}>{item.passed ? '✓' : '✗'}</span>
+                <div>
+                  <span className="text-gray-900">{item.label}</span>
+                  {item.detail && <p className="text-xs text-gray-500 break-all">{item.detail}</p>}
+                </div>
+              </li>
+            ))}
+          </ul>
+          {!result.technicalAudit.probe && (
+            <p className="text-xs text-gray-500 mt-3">robots.txt, sitemap, HTTPS and link checks were not run.</p>
+          )}
+        </div>
+      )}
+
       {/* Recommended Offers */}
       {result.offers.length > 0 && (
         <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200 print:p-3 print:mb-2 print:shadow-none">
           <h3 className="text-xl font-bold text-gray-900 mb-4">Recommended Offers</h3>
           <div className="space-y-4">
-            {result.offers
-              .sort((a, b) => {
-                // Force AI Receptionist to be first
-                if (a.id === 'ai_receptionist') return -1;
-                if (b.id === 'ai_receptionist') return 1;
-                // Then sort by priority
-                const priorityOrder = { high: 3, medium: 2, low: 1 };
-                return priorityOrder[b.priority] - priorityOrder[a.priority];
-              })
-              .map((offer) => (
-                <div
-                  key={offer.id}
-                  className={`w-full p-4 rounded-lg border-2 ${getPriorityColor(offer.priority)} bg-gray-50`}
-                >
-                  <h4 className="font-semibold text-gray-900 mb-2">{offer.label}</h4>
-                  {offer.id === 'ai_receptionist' && offer.monetizedLoss ? (
-                    <div>
-                      <p className="text-sm text-gray-600 mb-2">
-                        <span className="font-bold text-red-600">This Revenue Leakage Costs You ${offer.monetizedLoss.toLocaleString()}/month.</span>{' '}
-                        No online booking system detected. Our AI receptionist handles calls and bookings 24/7.
+            {result.offers.map((offer) => (
+              <div
+                key={offer.id}
+                className={`w-full p-4 rounded-lg border-2 ${getPriorityColor(offer.priority)} bg-gray-50`}
+              >
+                <h4 className="font-semibold text-gray-900 mb-2">{offer.label}</h4>
+                {offer.id === 'ai_receptionist' && offer.monetizedLoss ? (
+                  <div>
+                    <p className="text-sm text-gray-600 mb-2">
+                      <span className="font-bold text-red-600">
+                        This Revenue Leakage Costs You {formatLossRange(getOfferLoss(offer)!.monthly)}/month
+                        {' '}(likely ${getOfferLoss(offer)!.monthly.expected.toLocaleString()}).
+                      </span>{' '}
+                      No online booking system detected. Our AI receptionist handles calls and bookings 24/7.
+                    </p>
+                    <div className="text-xs text-gray-500">
+                      <p className="font-semibold">
+                        Assumptions ({getOfferLoss(offer)!.industry}, ~{getOfferLoss(offer)!.missedCallsPerMonth.expected} missed calls/month):
                       </p>
+                      <ul className="mt-1 grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+                        {getOfferLoss(offer)!.assumptions.map((assumption) => (
+                          <li key={assumption.key}>
+                            {assumption.label}: {formatAssumptionValue(assumption)}
+                            {assumption.source === 'override' && ' (provided)'}
+                          </li>
+                        ))}
+                      </ul>
                     </div>
-                  ) : (
-                    <p className="text-sm text-gray-600">{offer.reason}</p>
-                  )}
-                </div>
-              ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-600">{offer.reason}</p>
+                )}
+                {offer.reviewQuotes && (
+                  <div className="mt-3 space-y-2">
+                    {offer.reviewQuotes.map((quote, index) => (
+                      <blockquote key={index} className="pl-3 border-l-2 border-gray-300 text-sm text-gray-700">
+                        <p className="italic">&ldquo;{quote.text}&rdquo;</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Google review{quote.rating !== undefined && `, ${quote.rating}★`}
+                          {quote.publishedAt && `, ${new Date(quote.publishedAt).toLocaleDateString()}`}
+                        </p>
+                      </blockquote>
+                    ))}
+                  </div>
+                )}
+                {offer.trigger && (
+                  <p className="text-xs text-gray-400 mt-2">Recommended because: {offer.trigger.description}</p>
+                )}
+              </div>
+            ))}
           </div>
         </div>
       )}
 
+      {/* ROI Calculator (live-adjustable loss model) */}
+      {lossOffer && (
+        <ROICalculator key={result.requestId} offer={lossOffer} onChange={handleRoiChange} />
+      )}
+
+      {/* What-if simulator (re-scores with chosen signals fixed) */}
+      <ScoreSimulator key={`simulator-${result.requestId}`} result={result} />
+
       {/* VAPI Dynamic CTA */}
       {result.detectedBusinessType && (
         <div className="bg-gradient-to-r from-blue-600 to-indigo-600 rounded-lg shadow-lg p-4 border-2 border-blue-700 text-center print:hidden">
           <a
-            href={`https://vapi.ai/demo/${getCTABusinessType(result.detectedBusinessType).toLowerCase().replace(/\s+/g, '-')}`}
+            href={getCTAUrl(result, roi)}
             target="_blank"
             rel="noopener noreferrer"
             className="inline-block px-6 py-3 bg-white text-blue-600 rounded-lg font-bold text-md hover:bg-blue-50 transition-colors shadow-md hover:shadow-lg"
           >
             {(() => {
               const aiOffer = result.offers.find(o => o.id === 'ai_receptionist');
-              const lossAmount = aiOffer?.monetizedLoss;
+              const monetizedLoss = roi?.loss ?? aiOffer?.monetizedLoss;
               const businessType = getCTABusinessType(result.detectedBusinessType || 'Business');
-              return lossAmount
-                ? `Unlock Your $${lossAmount.toLocaleString()} Revenue Leak: Call the ${businessType} AI Demo`
+              return monetizedLoss
+                ? `Unlock Your ${formatLossRange(monetizedLoss.monthly)}/mo Revenue Leak: Call the ${businessType} AI Demo`
                 : `Unlock Your Revenue Leak: Call the ${businessType} AI Demo`;
             })()}
           </a>
@@ -357,9 +913,33 @@ export default function ResultViewer({ result }: ResultViewerProps) {
         </div>
       )}
 
+      {/* Crawled Pages */}
+      {result.crawledPages && result.crawledPages.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200 print:p-3 print:mb-2 print:shadow-none">
+          <h3 className="text-xl font-bold text-gray-900 mb-4">
+            Pages Analyzed <span className="text-sm font-medium text-gray-500">({result.crawledPages.length})</span>
+          </h3>
+          <ul className="space-y-2">
+            {result.crawledPages.map((page) => (
+              <li key={page.url} className="flex items-start gap-3 text-sm">
+                <span className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded text-xs font-medium flex-shrink-0">
+                  {page.depth === 0 ? 'Start' : `Depth ${page.depth}`}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-gray-900 font-medium truncate">{page.title}</p>
+                  <p className="text-gray-500 truncate">{page.url}</p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Request Info (small, bottom) */}
       <div className="text-center text-sm text-gray-500">
         Request ID: {result.requestId}
+        {result.rulesetVersion && <> · Ruleset v{result.rulesetVersion}</>}
+        {result.offerCatalogVersion && <> · Offers v{result.offerCatalogVersion}</>}
       </div>
     </div>
   );
@@ -0,0 +1,179 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { AnalysisResult, CASHScore, FixUplift, LossModelInputs, ScoreSimulation, SignalFix, SimulationRequest, SimulationResponse } from '@/types';
+
+interface ScoreSimulatorProps {
+  result: AnalysisResult;
+}
+
+const SCORE_LABELS: { key: keyof CASHScore; label: string }[] = [
+  { key: 'overall', label: 'Overall' },
+  { key: 'content', label: 'Content' },
+  { key: 'authority', label: 'Authority' },
+  { key: 'systems', label: 'Systems' },
+  { key: 'hypergrowth', label: 'Hypergrowth' },
+];
+
+const MAX_RANKED_FIXES = 6;
+
+function formatUplift(value: number): string {
+  return value > 0 ? `+${value}` : String(value);
+}
+
+export default function ScoreSimulator({ result }: ScoreSimulatorProps) {
+  // signalId -> target score (0-10)
+  const [targets, setTargets] = useState<Record<string, number>>({});
+  const [simulation, setSimulation] = useState<ScoreSimulation | null>(null);
+  const [rankedFixes, setRankedFixes] = useState<FixUplift[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Loss inputs the user supplied on the original analysis, so offer copy and pricing match
+  const lossInputs = useMemo(() => {
+    const loss = result.offers.find(o => o.monetizedLoss)?.monetizedLoss;
+    const provided: Partial<LossModelInputs> = {};
+    loss?.assumptions.filter(a => a.source === 'override').forEach(a => { provided[a.key] = a.value; });
+    return provided;
+  }, [result.offers]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const fixes: SignalFix[] = Object.entries(targets).map(([signalId, target]) => ({ signalId, target }));
+    const payload: SimulationRequest = {
+      signals: result.signals,
+      gmbProfile: result.gmbProfile,
+      weightProfile: result.weightProfile?.id,
+      businessType: result.detectedBusinessType,
+      lossInputs,
+      fixes,
+    };
+
+    fetch('/api/simulate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal: controller.signal,
+    })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.message || data.error || 'Simulation failed');
+        const simulated = data as SimulationResponse;
+        setSimulation(simulated.simulation);
+        setRankedFixes(simulated.rankedFixes);
+        setError(null);
+      })
+      .catch((err) => {
+        if (err instanceof Error && err.name === 'AbortError') return;
+        setError(err instanceof Error ? err.message : 'Simulation failed');
+      });
+
+    return () => controller.abort();
+  }, [result, lossInputs, targets]);
+
+  const toggleFixed = (signalId: string) => setTargets(prev => {
+    const next = { ...prev };
+    if (signalId in next) delete next[signalId];
+    else next[signalId] = 10;
+    return next;
+  });
+  const setTarget = (signalId: string, target: number) => setTargets(prev => ({ ...prev, [signalId]: target }));
+
+  const fixableSignals = Object.values(result.signals).flat()
+    .filter(signal => signal.status !== 'unknown' && signal.score < 10);
+  const offerLabel = (offerId: string) => result.offers.find(o => o.id === offerId)?.label ?? offerId;
+
+  if (fixableSignals.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200 print:hidden">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold text-gray-900">What If We Fixed It?</h3>
+        {Object.keys(targets).length > 0 && (
+          <button onClick={() => setTargets({})} className="text-sm text-blue-600 hover:text-blue-800 font-medium">
+            Clear fixes
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {/* Simulated scores */}
+      {simulation && (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-6">
+          {SCORE_LABELS.map(({ key, label }) => (
+            <div key={key} className="p-3 bg-gray-50 rounded-lg text-center">
+              <p className="text-xs text-gray-500 uppercase font-semibold">{label}</p>
+              <p className="text-xl font-bold text-gray-900">
+                {simulation.scores[key]}
+                {simulation.uplift[key] !== 0 && (
+                  <span className={`ml-1 text-sm ${simulation.uplift[key] > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    ({formatUplift(simulation.uplift[key])})
+                  </span>
+                )}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {simulation && simulation.droppedOffers.length > 0 && (
+        <p className="text-sm text-gray-700 mb-6">
+          <span className="font-semibold">No longer needed:</span>{' '}
+          {simulation.droppedOffers.map(offer => offer.label).join(', ')}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Toggle individual signals */}
+        <div>
+          <h4 className="font-semibold text-gray-900 mb-2">Signals</h4>
+          <ul className="space-y-3">
+            {fixableSignals.map(signal => {
+              const target = targets[signal.id];
+              const isFixed = target !== undefined;
+              return (
+                <li key={signal.id} className="text-sm">
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={isFixed} onChange={() => toggleFixed(signal.id)} />
+                    <span className="text-gray-800">{signal.label}</span>
+                    <span className="text-gray-500">{signal.score}/10{isFixed && ` → ${target}/10`}</span>
+                  </label>
+                  {isFixed && (
+                    <input
+                      type="range"
+                      min={0}
+                      max={10}
+                      step={1}
+                      value={target}
+                      onChange={(e) => setTarget(signal.id, Number(e.target.value))}
+                      className="w-full mt-1"
+                    />
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+
+        {/* Biggest uplift per fix */}
+        <div>
+          <h4 className="font-semibold text-gray-900 mb-2">Biggest uplift per fix</h4>
+          <ol className="space-y-2">
+            {rankedFixes.slice(0, MAX_RANKED_FIXES).map((fix, idx) => (
+              <li key={fix.signalId} className="flex items-start justify-between gap-3 text-sm">
+                <div>
+                  <span className="text-gray-500 mr-2">{idx + 1}.</span>
+                  <span className="text-gray-800">{fix.label}</span>
+                  {fix.droppedOffers.length > 0 && (
+                    <p className="text-xs text-gray-500 ml-5">Removes: {fix.droppedOffers.map(offerLabel).join(', ')}</p>
+                  )}
+                </div>
+                <span className="font-semibold text-green-700 whitespace-nowrap">{formatUplift(fix.overallUplift)} pts</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,9 +7,10 @@ type Step = 'EMAIL' | 'CODE' | 'ANALYZE';
 interface URLInputFormProps {
   onSubmit: (url: string, email: string) => void;
   isLoading: boolean;
+  urlError?: string | null; // Server-side URL validation message
 }
 
-export default function URLInputForm({ onSubmit, isLoading }: URLInputFormProps) {
+export default function URLInputForm({ onSubmit, isLoading, urlError }: URLInputFormProps) {
   const [step, setStep] = useState<Step>('EMAIL');
   const [email, setEmail] = useState('');
   const [code, setCode] = useState('');
@@ -195,6 +196,9 @@ export default function URLInputForm({ onSubmit, isLoading }: URLInputFormProps)
           {isLoading ? 'Analyzing...' : 'Analyze'}
         </button>
       </form>
+      {urlError && (
+        <p className="mt-2 text-sm text-red-600">{urlError}</p>
+      )}
     </div>
   );
 }
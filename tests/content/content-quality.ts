@@ -0,0 +1,92 @@
+/**
+ * Content quality. Runs analyzeContentQuality on small landing pages and checks
+ * the readability score, the heading outline and what makes a headline specific.
+ *
+ *   npm test
+ */
+import assert from 'assert/strict';
+import { NAPRecord } from '@/types';
+import { analyzeContentQuality } from '@/utils/content-quality';
+
+const NAP: NAPRecord = { name: 'Bright Smile Dental', locality: 'Austin' };
+
+function analyze(body: string, nap: NAPRecord = NAP) {
+  const html = `<html><head><title>Bright Smile Dental</title></head><body>${body}</body></html>`;
+  return analyzeContentQuality({ title: '', headings: [], text: body.replace(/<[^>]+>/g, ' '), url: 'https://brightsmile.example/', html }, nap);
+}
+
+function markersOf(headline: string): string[] {
+  return analyze(`<h1>${headline}</h1>`).headlineMarkers;
+}
+
+const cases: { name: string; run: () => void }[] = [
+  {
+    name: 'scores plain copy as easier to read than dense copy',
+    run: () => {
+      const plain = analyze('<p>We fix teeth. It does not hurt. You can book a time today. We call you back fast.</p>');
+      const dense = analyze('<p>Our multidisciplinary periodontal rehabilitation methodology incorporates comprehensive biocompatible restorative considerations, individualized anesthetic administration protocols, and evidence-based interdisciplinary collaboration.</p>');
+
+      assert.equal(plain.sentenceCount, 4);
+      assert.ok(plain.fleschReadingEase >= 80, `plain copy scored ${plain.fleschReadingEase}`);
+      assert.ok(dense.fleschReadingEase <= 20, `dense copy scored ${dense.fleschReadingEase}`);
+      assert.equal(analyze('').fleschReadingEase, 0, 'no prose, no score');
+    },
+  },
+  {
+    name: 'counts headings and list items as sentences without punctuation',
+    run: () => {
+      const quality = analyze('<h2>Our services</h2><ul><li>Cleanings</li><li>Whitening</li></ul><p>Call us. We answer.</p>');
+      assert.equal(quality.sentenceCount, 5);
+    },
+  },
+  {
+    name: 'reports skipped heading levels',
+    run: () => {
+      const quality = analyze('<h1>Family dentist in Austin</h1><h2>Services</h2><h4>Whitening</h4><h3>Cleanings</h3><h2>Visit us</h2><h5>Parking</h5>');
+      assert.deepEqual(quality.skippedLevels, ['h2 → h4 ("Whitening")', 'h2 → h5 ("Parking")']);
+      assert.deepEqual(quality.h1s, ['Family dentist in Austin']);
+
+      // A page that starts at H2 has no H1, but nothing skipped
+      assert.deepEqual(analyze('<h2>Services</h2><h3>Whitening</h3>').skippedLevels, []);
+    },
+  },
+  {
+    name: 'finds numbers, locations and audiences in the headline',
+    run: () => {
+      assert.deepEqual(markersOf('Same-day crowns in 2 hours'), ['number']);
+      assert.deepEqual(markersOf('Gentle dental care in Austin'), ['location']);
+      assert.deepEqual(markersOf('Emergency dentist serving Round Rock'), ['location']);
+      assert.deepEqual(markersOf('Dentistry for busy families'), ['audience']);
+      assert.deepEqual(markersOf('Roof repair for homeowners in Austin'), ['location', 'audience']);
+      assert.deepEqual(markersOf('IT support for small businesses'), ['audience']);
+    },
+  },
+  {
+    name: 'does not take "for", "you" or the business name as specific',
+    run: () => {
+      assert.deepEqual(markersOf('Solutions for Everyone'), []);
+      assert.deepEqual(markersOf('Your smile, our passion'), []);
+      assert.deepEqual(markersOf('We are here for you'), []);
+      assert.deepEqual(markersOf('Welcome to Bright Smile Dental'), [], 'generic greeting');
+      assert.deepEqual(markersOf('Bright Smile Dental'), [], 'the business name alone');
+    },
+  },
+];
+
+function main(): void {
+  let failures = 0;
+  for (const { name, run } of cases) {
+    try {
+      run();
+      console.log(`ok   ${name}`);
+    } catch (error) {
+      failures++;
+      console.log(`FAIL ${name}\n  ${error instanceof Error ? error.message.split('\n').join('\n  ') : String(error)}`);
+    }
+  }
+
+  console.log(`\n${cases.length - failures}/${cases.length} content quality checks pass`);
+  if (failures > 0) process.exitCode = 1;
+}
+
+main();
@@ -0,0 +1,459 @@
+/**
+ * Google Business Profile lookup. Runs analyzeGMB against the fixture
+ * providers, and against the Google Places and SerpApi providers pointed at
+ * local stand-ins for their APIs, and checks the profiles it reports.
+ *
+ *   npm test
+ */
+import assert from 'assert/strict';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { analyzeGMB } from '@/utils/gmb-analyzer';
+import { namesMatch } from '@/utils/nap-extractor';
+import { createFixtureGMBProvider, createGooglePlacesProvider, GMBPlace } from '@/utils/gmb-provider';
+import { createFixtureSerpProvider, createSerpApiProvider, SerpListing } from '@/utils/serp-provider';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const API_KEY = 'test-key';
+
+const BRIGHT_SMILE: GMBPlace = {
+  placeId: 'ChIJbrightsmile000001',
+  name: 'Bright Smile Dental',
+  url: 'https://maps.google.com/?cid=1234567890',
+  phone: '+1 512-555-0142',
+  rating: 4.8,
+  reviewCount: 212,
+  lastReviewDate: new Date(Date.now() - 3 * DAY_MS).toISOString(),
+  responseRate: 90,
+  categories: ['Dentist', 'Cosmetic dentist'],
+};
+
+const QUERY = { name: 'Bright Smile Dental', location: 'Austin, TX', phone: '+15125550142' };
+const LINKED_HTML = `<a href="https://www.google.com/maps/place/?q=place_id:${BRIGHT_SMILE.placeId}">Find us on Google</a>`;
+// A map embed that only carries the CID (0x499602d2), after directions to another place
+const EMBED_HTML = `
+  <a href="https://www.google.com/maps/dir/?api=1&destination=Austin+Airport&destination_place_id=ChIJaustinairport00001">Directions from the airport</a>
+  <iframe src="https://www.google.com/maps/embed?pb=!1m18!3m3!1m2!1s0x8644b5a1b0e2c7a9%3A0x499602d2!2sBright%20Smile%20Dental!5e0"></iframe>`;
+
+const AUSTIN_AIRPORT: GMBPlace = { placeId: 'ChIJaustinairport00001', name: 'Austin-Bergstrom International Airport', rating: 4.3 };
+
+// A namesake in the next town holds the knowledge panel; the business is second in the local pack
+const SERP_LISTINGS: SerpListing[] = [
+  { source: 'knowledge_panel', name: 'Bright Smile Orthodontics', address: '400 Main St, Round Rock, TX 78664', phone: '+1 512-555-0999' },
+  { source: 'local_pack', position: 1, name: 'Capital City Dental', cid: '5550001', address: '88 Lamar Blvd, Austin, TX 78703' },
+  {
+    source: 'local_pack',
+    position: 2,
+    name: 'Bright Smile Dental',
+    cid: '1234567890',
+    address: '1200 Congress Ave, Suite 200, Austin, TX 78701',
+    phone: '(512) 555-0142',
+    rating: 4.6,
+    reviewCount: 64,
+  },
+];
+
+// Places API (New) responses, keyed by what the provider asks for
+const PLACES_API = {
+  search: {
+    places: [
+      {
+        id: 'ChIJothersmile0000001',
+        displayName: { text: 'Bright Smile Orthodontics' },
+        internationalPhoneNumber: '+1 512-555-0999',
+        rating: 4.1,
+        userRatingCount: 12,
+      },
+      {
+        id: 'ChIJbrightsmile000001',
+        displayName: { text: 'Bright Smile Dental' },
+        formattedAddress: '1200 Congress Ave, Suite 200, Austin, TX 78701, USA',
+        internationalPhoneNumber: '+1 512-555-0142',
+        rating: 4.8,
+        userRatingCount: 212,
+        reviews: [
+          {
+            publishTime: new Date(Date.now() - 40 * DAY_MS).toISOString(),
+            rating: 2,
+            text: { text: 'Called three times and nobody ever answered.', languageCode: 'en' },
+            originalText: { text: 'Llamé tres veces y nadie contestó.', languageCode: 'es' },
+            authorAttribution: { displayName: 'Marisol R.' },
+          },
+          { publishTime: new Date(Date.now() - 2 * DAY_MS).toISOString(), rating: 5 },
+        ],
+        photos: [{}, {}, {}],
+        googleMapsUri: 'https://maps.google.com/?cid=1234567890',
+        primaryTypeDisplayName: { text: 'Dentist' },
+        types: ['dentist', 'health', 'point_of_interest', 'establishment'],
+      },
+    ],
+  },
+};
+
+interface PlacesRequest {
+  path: string;
+  apiKey?: string;
+  fieldMask?: string;
+  body?: { textQuery?: string };
+}
+
+function createPlacesStandIn(status: number) {
+  const requests: PlacesRequest[] = [];
+  const server = createServer((request: IncomingMessage, response: ServerResponse) => {
+    let raw = '';
+    request.on('data', chunk => { raw += chunk; });
+    request.on('end', () => {
+      requests.push({
+        path: request.url || '',
+        apiKey: request.headers['x-goog-api-key'] as string | undefined,
+        fieldMask: request.headers['x-goog-fieldmask'] as string | undefined,
+        body: raw ? JSON.parse(raw) : undefined,
+      });
+      if (status !== 200) {
+        response.writeHead(status, { 'Content-Type': 'application/json' }).end('{"error":{}}');
+      } else if (request.url === '/places:searchText') {
+        response.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(PLACES_API.search));
+      } else {
+        // Place details for an id Google no longer knows
+        response.writeHead(404, { 'Content-Type': 'application/json' }).end('{"error":{"status":"NOT_FOUND"}}');
+      }
+    });
+  });
+  return { server, requests };
+}
+
+async function withPlacesStandIn<T>(status: number, run: (baseUrl: string, requests: PlacesRequest[]) => Promise<T>): Promise<T> {
+  const { server, requests } = createPlacesStandIn(status);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  try {
+    return await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}`, requests);
+  } finally {
+    server.close();
+  }
+}
+
+// A captive portal or proxy: 200 OK with an HTML page instead of the API's JSON
+async function withHtmlStandIn<T>(run: (baseUrl: string) => Promise<T>): Promise<T> {
+  const server = createServer((_request, response) => {
+    response.writeHead(200, { 'Content-Type': 'text/html' }).end('<html><body>Sign in to continue</body></html>');
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  try {
+    return await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  } finally {
+    server.close();
+  }
+}
+
+// SerpApi answers the name search with unrelated businesses and the phone search with a knowledge panel
+function createSerpApiStandIn(status: number) {
+  const queries: { q: string | null; apiKey: string | null }[] = [];
+  const server = createServer((request: IncomingMessage, response: ServerResponse) => {
+    const params = new URL(request.url || '/', 'http://localhost').searchParams;
+    queries.push({ q: params.get('q'), apiKey: params.get('api_key') });
+    if (status !== 200) {
+      response.writeHead(status, { 'Content-Type': 'application/json' }).end('{"error":"Invalid API key."}');
+      return;
+    }
+    const body = params.get('q')?.startsWith('+')
+      ? { knowledge_graph: { title: 'Bright Smile Dental', type: 'Dentist', address: '1200 Congress Ave, Austin, TX 78701', phone: '(512) 555-0142', rating: 4.6, review_count: 64 } }
+      : { local_results: { places: [{ position: 1, title: 'Capital City Dental', data_cid: '5550001', address: '88 Lamar Blvd, Austin' }] } };
+    response.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+  });
+  return { server, queries };
+}
+
+async function withSerpApiStandIn<T>(status: number, run: (baseUrl: string, queries: { q: string | null; apiKey: string | null }[]) => Promise<T>): Promise<T> {
+  const { server, queries } = createSerpApiStandIn(status);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  try {
+    return await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}`, queries);
+  } finally {
+    server.close();
+  }
+}
+
+const cases: { name: string; run: () => Promise<void> }[] = [
+  {
+    name: 'resolves a Maps link on the site through the provider',
+    run: async () => {
+      const profile = await analyzeGMB(LINKED_HTML, QUERY, undefined, createFixtureGMBProvider([BRIGHT_SMILE]));
+      assert.equal(profile.method, 'DIRECT_LINK');
+      assert.equal(profile.placeId, BRIGHT_SMILE.placeId);
+      assert.equal(profile.provider, 'fixture');
+      assert.ok(profile.fetchedAt && !Number.isNaN(Date.parse(profile.fetchedAt)));
+      assert.equal(profile.score, 100);
+    },
+  },
+  {
+    name: 'skips directions to another place and resolves the map embed by CID',
+    run: async () => {
+      const profile = await analyzeGMB(EMBED_HTML, QUERY, undefined, createFixtureGMBProvider([AUSTIN_AIRPORT, BRIGHT_SMILE]));
+      assert.equal(profile.method, 'DIRECT_LINK');
+      assert.equal(profile.name, 'Bright Smile Dental');
+    },
+  },
+  {
+    name: 'scores profile completeness from the checklist',
+    run: async () => {
+      const sparse: GMBPlace = {
+        ...BRIGHT_SMILE,
+        categories: ['Dentist'],
+        hours: [],
+        serviceAreas: ['Austin', 'Round Rock'],
+        description: 'Family dentist in downtown Austin.',
+        photosCount: 12,
+        postsCount: 4,
+        lastPostDate: new Date(Date.now() - 120 * DAY_MS).toISOString(),
+        questionsCount: 3,
+        answeredQuestions: 1,
+        claimed: true,
+      };
+      const profile = await analyzeGMB(LINKED_HTML, QUERY, undefined, createFixtureGMBProvider([sparse]));
+      const byId = Object.fromEntries(profile.checklist?.map(item => [item.id, item]) ?? []);
+
+      assert.deepEqual(profile.checklist?.filter(item => item.status === 'fail').map(item => item.id),
+        ['categories', 'hours', 'description', 'posts', 'questions']);
+      assert.equal(byId.description.detail, '34 characters');
+      assert.equal(byId.posts.points, 5, 'an old post still beats none');
+      assert.equal(byId.questions.detail, '1 of 3 answered');
+      // 100 reputation + 10 claimed + 5 categories + 5 service areas + 5 description + 10 photos + 5 posts, of 170
+      assert.equal(profile.score, 82);
+    },
+  },
+  {
+    name: 'searches by phone when the site has no Maps link',
+    run: async () => {
+      const profile = await analyzeGMB('<p>No map here</p>', { ...QUERY, name: 'Bright Smile' }, undefined, createFixtureGMBProvider([BRIGHT_SMILE]));
+      assert.equal(profile.method, 'API_SEARCH');
+      assert.equal(profile.name, 'Bright Smile Dental');
+    },
+  },
+  {
+    name: 'reports NOT_FOUND only when the provider answered',
+    run: async () => {
+      const profile = await analyzeGMB('', { name: 'Unknown Plumbing' }, undefined, createFixtureGMBProvider([BRIGHT_SMILE]));
+      assert.equal(profile.found, false);
+      assert.equal(profile.method, 'NOT_FOUND');
+      assert.equal(profile.provider, 'fixture');
+    },
+  },
+  {
+    name: 'reports UNAVAILABLE when the provider fails',
+    run: async () => {
+      const provider = createFixtureGMBProvider([BRIGHT_SMILE], { unavailableReason: 'Sample data is switched off' });
+      const profile = await analyzeGMB(LINKED_HTML, QUERY, undefined, provider);
+      assert.equal(profile.method, 'UNAVAILABLE');
+      assert.equal(profile.unavailableReason, 'Sample data is switched off');
+      assert.equal(profile.fetchedAt, undefined);
+    },
+  },
+  {
+    name: 'falls back to the search results listing that matches the site\'s NAP',
+    run: async () => {
+      const profile = await analyzeGMB('', QUERY, undefined, createFixtureGMBProvider([]), createFixtureSerpProvider(SERP_LISTINGS));
+      assert.equal(profile.method, 'SERP_FALLBACK');
+      assert.equal(profile.provider, 'serp-fixture');
+      assert.equal(profile.name, 'Bright Smile Dental', 'a namesake in another town is not the business');
+      assert.equal(profile.url, 'https://maps.google.com/?cid=1234567890');
+      assert.equal(profile.reviewCount, 64);
+    },
+  },
+  {
+    name: 'fills in a search results listing from Places when it can look it up',
+    run: async () => {
+      // Places search misses: the site calls itself "Bright Smile" and lists another number
+      const query = { name: 'Bright Smile', location: 'Austin, TX', phone: '+15125550100' };
+      const profile = await analyzeGMB('', query, undefined, createFixtureGMBProvider([BRIGHT_SMILE]), createFixtureSerpProvider(SERP_LISTINGS));
+      assert.equal(profile.method, 'SERP_FALLBACK');
+      assert.equal(profile.provider, 'fixture');
+      assert.equal(profile.placeId, BRIGHT_SMILE.placeId);
+      assert.equal(profile.reviewCount, 212);
+    },
+  },
+  {
+    name: 'uses the search results when Places is unavailable',
+    run: async () => {
+      const places = createFixtureGMBProvider([BRIGHT_SMILE], { unavailableReason: 'Sample data is switched off' });
+      const profile = await analyzeGMB('', QUERY, undefined, places, createFixtureSerpProvider(SERP_LISTINGS));
+      assert.equal(profile.method, 'SERP_FALLBACK');
+      assert.equal(profile.provider, 'serp-fixture');
+    },
+  },
+  {
+    name: 'reports NOT_FOUND only after the search results stage answered too',
+    run: async () => {
+      const notFound = await analyzeGMB('', QUERY, undefined, createFixtureGMBProvider([]), createFixtureSerpProvider(SERP_LISTINGS.slice(0, 2)));
+      assert.equal(notFound.method, 'NOT_FOUND');
+      assert.equal(notFound.provider, 'serp-fixture');
+
+      const serpDown = createFixtureSerpProvider(SERP_LISTINGS, { unavailableReason: 'Search results are switched off' });
+      const unavailable = await analyzeGMB('', QUERY, undefined, createFixtureGMBProvider([]), serpDown);
+      assert.equal(unavailable.method, 'UNAVAILABLE');
+      assert.equal(unavailable.unavailableReason, 'Search results are switched off');
+    },
+  },
+  {
+    name: 'reports UNAVAILABLE when no provider is configured',
+    run: async () => {
+      const profile = await analyzeGMB(LINKED_HTML, QUERY, undefined, null);
+      assert.equal(profile.method, 'UNAVAILABLE');
+      assert.equal(profile.provider, undefined);
+    },
+  },
+  {
+    name: 'maps a Google Places search result, preferring the matching phone number',
+    run: () => withPlacesStandIn(200, async (baseUrl, requests) => {
+      const provider = createGooglePlacesProvider({ apiKey: API_KEY, baseUrl });
+      const profile = await analyzeGMB('', QUERY, undefined, provider);
+
+      assert.equal(requests[0].apiKey, API_KEY);
+      assert.match(requests[0].fieldMask ?? '', /places\.userRatingCount/);
+      assert.equal(requests[0].body?.textQuery, 'Bright Smile Dental Austin, TX');
+
+      assert.equal(profile.method, 'API_SEARCH');
+      assert.equal(profile.provider, 'google-places');
+      assert.equal(profile.placeId, 'ChIJbrightsmile000001');
+      assert.equal(profile.reviewCount, 212);
+      assert.equal(profile.photosCount, 3);
+      assert.deepEqual(profile.categories, ['Dentist']);
+      assert.equal(profile.lastReviewDate, PLACES_API.search.places[1].reviews?.[1].publishTime);
+      assert.equal(profile.responseRate, undefined);
+      // Reviews without text are dropped; the English translation is what gets analyzed
+      assert.deepEqual(profile.reviews, [{
+        text: 'Called three times and nobody ever answered.',
+        rating: 2,
+        publishedAt: PLACES_API.search.places[1].reviews?.[0].publishTime,
+        author: 'Marisol R.',
+      }]);
+
+      const status = Object.fromEntries(profile.checklist?.map(item => [item.id, item.status]) ?? []);
+      assert.equal(status.review_responses, 'unknown', 'owner replies are invisible to Places');
+      assert.equal(status.posts, 'unknown');
+      assert.equal(status.hours, 'fail', 'Places omits regularOpeningHours when none are set');
+      assert.equal(status.categories, 'fail');
+      // 90 of the 110 points Places can see: reputation in full, half for categories and photos
+      assert.equal(profile.score, 82);
+    }),
+  },
+  {
+    name: 'falls back to search when a linked place id no longer exists',
+    run: () => withPlacesStandIn(200, async (baseUrl, requests) => {
+      const profile = await analyzeGMB(LINKED_HTML, QUERY, undefined, createGooglePlacesProvider({ apiKey: API_KEY, baseUrl }));
+      assert.deepEqual(requests.map(request => request.path), [`/places/${BRIGHT_SMILE.placeId}`, '/places:searchText']);
+      assert.equal(profile.method, 'API_SEARCH');
+    }),
+  },
+  {
+    name: 'resolves a CID link through Google Places by the CID in googleMapsUri',
+    run: () => withPlacesStandIn(200, async (baseUrl, requests) => {
+      const profile = await analyzeGMB(EMBED_HTML, QUERY, undefined, createGooglePlacesProvider({ apiKey: API_KEY, baseUrl }));
+      assert.deepEqual(requests.map(request => request.path), ['/places:searchText']);
+      assert.equal(requests[0].body?.textQuery, 'Bright Smile Dental Austin, TX');
+      assert.equal(profile.method, 'DIRECT_LINK');
+      assert.equal(profile.placeId, 'ChIJbrightsmile000001');
+    }),
+  },
+  {
+    name: 'does not take an unrelated Google Places result for the business',
+    run: () => withPlacesStandIn(200, async baseUrl => {
+      // Neither result has this name or phone number
+      const query = { name: 'Lakeside Family Dentistry', location: 'Austin, TX' };
+      const provider = createGooglePlacesProvider({ apiKey: API_KEY, baseUrl });
+      const profile = await analyzeGMB('', query, undefined, provider);
+      assert.equal(profile.method, 'NOT_FOUND');
+      assert.equal(profile.found, false);
+
+      const serp = createFixtureSerpProvider([
+        { source: 'local_pack', position: 1, name: 'Lakeside Family Dentistry', cid: '7770001', address: '15 Lakeside Dr, Austin, TX 78746' },
+      ]);
+      const fallback = await analyzeGMB('', query, undefined, provider, serp);
+      assert.equal(fallback.method, 'SERP_FALLBACK');
+      assert.equal(fallback.name, 'Lakeside Family Dentistry');
+    }),
+  },
+  {
+    name: 'matches business names on whole words that name the business',
+    run: async () => {
+      assert.equal(namesMatch('Ace', 'Grace Dental'), false);
+      assert.equal(namesMatch('Home', 'Homestead Dental Care'), false);
+      assert.equal(namesMatch('Dental', 'Bright Smile Dental'), false, 'only the trade in common');
+      assert.equal(namesMatch('Family Dental Care', 'Bright Smile Family Dental Care'), false);
+      assert.equal(namesMatch('Bright Smiles', 'Bright Smile Family Dentistry'), true);
+      assert.equal(namesMatch('Smith & Jones Law', 'Smith and Jones Law Firm, PLLC'), true);
+    },
+  },
+  {
+    name: 'does not take a Google Places result that only shares the trade with a page title',
+    run: () => withPlacesStandIn(200, async baseUrl => {
+      // The query fell back to a generic page title; the top result is "Bright Smile Orthodontics"
+      const profile = await analyzeGMB('', { name: 'Orthodontics', location: 'Austin, TX' }, undefined, createGooglePlacesProvider({ apiKey: API_KEY, baseUrl }));
+      assert.equal(profile.method, 'NOT_FOUND');
+    }),
+  },
+  {
+    name: 'reports a rejected Google Places key as UNAVAILABLE',
+    run: () => withPlacesStandIn(403, async baseUrl => {
+      const profile = await analyzeGMB('', QUERY, undefined, createGooglePlacesProvider({ apiKey: API_KEY, baseUrl }));
+      assert.equal(profile.method, 'UNAVAILABLE');
+      assert.equal(profile.unavailableReason, 'Google Places rejected the API key (HTTP 403)');
+    }),
+  },
+  {
+    name: 'reports an unreadable Google Places response as UNAVAILABLE',
+    run: () => withHtmlStandIn(async baseUrl => {
+      const profile = await analyzeGMB('', QUERY, undefined, createGooglePlacesProvider({ apiKey: API_KEY, baseUrl }));
+      assert.equal(profile.method, 'UNAVAILABLE');
+      assert.equal(profile.unavailableReason, 'Google Places returned an unreadable response');
+    }),
+  },
+  {
+    name: 'searches SerpApi by name and city, then by phone, and maps the knowledge panel',
+    run: () => withSerpApiStandIn(200, async (baseUrl, queries) => {
+      const serp = createSerpApiProvider({ apiKey: API_KEY, baseUrl });
+      const profile = await analyzeGMB('', QUERY, undefined, null, serp);
+      assert.deepEqual(queries, [
+        { q: 'Bright Smile Dental Austin, TX', apiKey: API_KEY },
+        { q: '+15125550142', apiKey: API_KEY },
+      ]);
+      assert.equal(profile.method, 'SERP_FALLBACK');
+      assert.equal(profile.provider, 'serpapi');
+      assert.equal(profile.rating, 4.6);
+      assert.deepEqual(profile.categories, ['Dentist']);
+    }),
+  },
+  {
+    name: 'reports an unreadable SerpApi response as UNAVAILABLE',
+    run: () => withHtmlStandIn(async baseUrl => {
+      const profile = await analyzeGMB('', QUERY, undefined, null, createSerpApiProvider({ apiKey: API_KEY, baseUrl }));
+      assert.equal(profile.method, 'UNAVAILABLE');
+      assert.equal(profile.unavailableReason, 'The search results provider returned an unreadable response');
+    }),
+  },
+  {
+    name: 'reports a rejected SerpApi key as UNAVAILABLE',
+    run: () => withSerpApiStandIn(401, async baseUrl => {
+      const profile = await analyzeGMB('', QUERY, undefined, null, createSerpApiProvider({ apiKey: API_KEY, baseUrl }));
+      assert.equal(profile.method, 'UNAVAILABLE');
+      assert.equal(profile.unavailableReason, 'The search results provider rejected the API key (HTTP 401)');
+    }),
+  },
+];
+
+async function main(): Promise<void> {
+  let failures = 0;
+  for (const { name, run } of cases) {
+    try {
+      await run();
+      console.log(`ok   ${name}`);
+    } catch (error) {
+      failures++;
+      console.log(`FAIL ${name}\n  ${error instanceof Error ? error.message.split('\n').join('\n  ') : String(error)}`);
+    }
+  }
+
+  console.log(`\n${cases.length - failures}/${cases.length} GMB lookup checks pass`);
+  if (failures > 0) process.exitCode = 1;
+}
+
+main();
@@ -0,0 +1,113 @@
+/**
+ * Google Maps link parsing and ranking. Parses every link format a site uses
+ * to point at its Business Profile, expands a short link through a local
+ * redirect server and checks which link ranks as the business's own listing.
+ *
+ *   npm test
+ */
+import assert from 'assert/strict';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { collectMapsLinks, expandShortLink, MapsLink, parseMapsUrl, rankMapsLinks } from '@/utils/maps-url';
+
+const PLACE_ID = 'ChIJbrightsmile000001';
+const FEATURE_ID = '0x8644b5a1b0e2c7a9:0x112210f4a8c9e0d2';
+const FEATURE_CID = '1234567890842804434'; // 0x112210f4a8c9e0d2
+
+const PLACE_URL = `https://www.google.com/maps/place/Bright+Smile+Dental/@30.2711,-97.7437,17z/data=!3m1!4b1!4m6!3m5!1s${FEATURE_ID}!8m2!3d30.2711!4d-97.7437!16s%2Fg%2F11c1q2w3e4?entry=ttu`;
+const EMBED_URL = 'https://www.google.com/maps/embed?pb=!1m18!1m12!1m3!1d3445.1!2d-97.74!3d30.27!2m3!1f0!2f0!3f0!3m2!1i1024!2i768!4f13.1'
+  + '!3m3!1m2!1s0x8644b5a1b0e2c7a9%3A0x112210f4a8c9e0d2!2sBright%20Smile%20Dental!5e0!3m2!1sen!2sus!4v1700000000000';
+const REVIEW_URL = `https://search.google.com/local/writereview?placeid=${PLACE_ID}`;
+const AIRPORT_DIRECTIONS_URL = 'https://www.google.com/maps/dir/?api=1&destination=Austin-Bergstrom+International+Airport';
+
+// URL → what the parser should read from it (url and unlisted fields omitted)
+const FORMATS: [string, Omit<MapsLink, 'url'> | null][] = [
+  [PLACE_URL, { kind: 'place', cid: FEATURE_CID, name: 'Bright Smile Dental' }],
+  ['https://maps.google.com/?cid=1234567890', { kind: 'place', cid: '1234567890' }],
+  ['https://www.google.com/maps?ludocid=1234567890&hl=en', { kind: 'place', cid: '1234567890' }],
+  [`https://www.google.com/maps/place/?q=place_id:${PLACE_ID}`, { kind: 'place', placeId: PLACE_ID }],
+  [`https://www.google.com/maps/search/?api=1&query=Bright%20Smile%20Dental&query_place_id=${PLACE_ID}`,
+    { kind: 'place', placeId: PLACE_ID, name: 'Bright Smile Dental' }],
+  [EMBED_URL, { kind: 'embed', cid: FEATURE_CID, name: 'Bright Smile Dental' }],
+  [`https://www.google.com/maps/embed/v1/place?key=KEY&q=place_id:${PLACE_ID}`, { kind: 'embed', placeId: PLACE_ID }],
+  [REVIEW_URL, { kind: 'review', placeId: PLACE_ID }],
+  [AIRPORT_DIRECTIONS_URL, { kind: 'directions', name: 'Austin-Bergstrom International Airport' }],
+  ['https://maps.google.com/maps?saddr=Current+Location&daddr=30.2711,-97.7437', { kind: 'directions' }],
+  ['https://maps.app.goo.gl/Xy7pQ2Lm9sTn3Abc8', { kind: 'short-link' }],
+  ['https://g.page/bright-smile-dental?share', { kind: 'short-link' }],
+  ['https://www.google.co.uk/maps/search/dentist+austin/', { kind: 'search', name: 'dentist austin' }],
+  ['https://www.google.com/search?q=Bright+Smile+Dental', null],
+  ['https://example.com/maps/place/Bright+Smile+Dental', null],
+  ['tel:+15125550142', null],
+];
+
+const cases: { name: string; run: () => Promise<void> | void }[] = [
+  {
+    name: 'reads place ids, CIDs and names from every Maps link format',
+    run: () => {
+      for (const [url, expected] of FORMATS) {
+        const link = parseMapsUrl(url);
+        assert.deepEqual(link && { ...link, url: undefined }, expected && { ...expected, url: undefined }, url);
+      }
+    },
+  },
+  {
+    name: 'ranks the business\'s own listing above directions to somewhere else',
+    run: () => {
+      const html = `
+        <a href="${AIRPORT_DIRECTIONS_URL}">Directions from the airport</a>
+        <iframe src="${EMBED_URL}" loading="lazy"></iframe>
+        <a href="${REVIEW_URL}">Leave us a review</a>
+        <a href="${PLACE_URL}">Find us on Google</a>`;
+      const ranked = rankMapsLinks(collectMapsLinks(html), 'Bright Smile Dental');
+
+      assert.equal(ranked.length, 3, 'the place link and the embed point at the same CID');
+      assert.deepEqual(ranked.map(link => link.kind), ['embed', 'review', 'directions']);
+      assert.equal(ranked[0].occurrences, 2);
+      assert.equal(ranked[0].source, 'iframe');
+      assert.ok(ranked[2].score < 0, ranked[2].reasons.join(', '));
+      assert.ok(ranked[2].reasons.includes('names "Austin-Bergstrom International Airport"'));
+    },
+  },
+  {
+    name: 'expands a short link without loading the Maps page',
+    run: async () => {
+      const requested: string[] = [];
+      const server = createServer((request, response) => {
+        requested.push(request.url || '');
+        const location = request.url === '/Xy7pQ2' ? '/hop' : 'https://www.google.com/maps/place/Bright+Smile+Dental/data=!4m2!3m1!1s0x0:0x499602d2';
+        response.writeHead(302, { Location: location }).end();
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      try {
+        const link = await expandShortLink(`http://127.0.0.1:${(server.address() as AddressInfo).port}/Xy7pQ2`);
+        assert.equal(link?.kind, 'place');
+        assert.equal(link?.cid, '1234567890');
+        assert.deepEqual(requested, ['/Xy7pQ2', '/hop']);
+      } finally {
+        server.close();
+      }
+    },
+  },
+];
+
+async function main(): Promise<void> {
+  // The redirect server listens on loopback, which is refused outside local development
+  process.env.ALLOW_PRIVATE_URLS = 'true';
+
+  let failures = 0;
+  for (const { name, run } of cases) {
+    try {
+      await run();
+      console.log(`ok   ${name}`);
+    } catch (error) {
+      failures++;
+      console.log(`FAIL ${name}\n  ${error instanceof Error ? error.message.split('\n').join('\n  ') : String(error)}`);
+    }
+  }
+
+  console.log(`\n${cases.length - failures}/${cases.length} Maps link checks pass`);
+  if (failures > 0) process.exitCode = 1;
+}
+
+main();
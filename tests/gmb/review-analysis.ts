@@ -0,0 +1,152 @@
+/**
+ * Review analysis. Classifies a set of Google reviews with the lexicon and
+ * with a stand-in for the LLM classifier, and checks that the complaint themes
+ * it finds carry through to offer eligibility and quotes.
+ *
+ *   npm test
+ */
+import assert from 'assert/strict';
+import { GMBProfile, GMBReview } from '@/types';
+import { OFFER_CATALOG } from '@/utils/offer-catalog';
+import { evaluateOfferCatalog } from '@/utils/offer-engine';
+import { analyzeReviews, classifyWithLexicon, ownerResponseRate, ReviewClassifier } from '@/utils/review-analysis';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2025-06-01T12:00:00Z');
+
+function daysAgo(days: number): string {
+  return new Date(NOW - days * DAY_MS).toISOString();
+}
+
+// Newest first once sorted; the last one is too old to count as recent
+const REVIEWS: GMBReview[] = [
+  { text: 'Great cleaning. Called twice to reschedule and nobody ever answered, so I just showed up.', rating: 3, publishedAt: daysAgo(5), ownerReply: null },
+  { text: 'Dr. Patel is wonderful and the staff are friendly and helpful. Highly recommend!', rating: 5, publishedAt: daysAgo(12), ownerReply: { text: 'Thank you!' } },
+  { text: 'Phone goes straight to voicemail every time. The receptionist was rude when I finally got through.', rating: 1, publishedAt: daysAgo(30), ownerReply: null },
+  { text: 'They never call you back. Waited 45 minutes past my appointment time too.', rating: 2, publishedAt: daysAgo(90), ownerReply: null },
+  { text: 'Not rude at all like another review said. Never had a problem, they answer right away and are friendly. Fair prices.', rating: 5, publishedAt: daysAgo(120), ownerReply: { text: 'We appreciate it.' } },
+  { text: 'Left three voicemails about my bill. Hidden fees everywhere.', rating: 1, publishedAt: daysAgo(500), ownerReply: null },
+];
+
+const BASE_CONTEXT = {
+  scores: { overall: 70, content: 70, authority: 70, systems: 80, hypergrowth: 80 },
+  signals: [],
+  businessType: 'dentist',
+  now: NOW,
+};
+
+function profileWith(reviews: GMBReview[], analysis: GMBProfile['reviewAnalysis']): GMBProfile {
+  return { found: true, method: 'API_SEARCH', name: 'Bright Smile Dental', rating: 4.7, reviewCount: 120, score: 80, reviews, reviewAnalysis: analysis };
+}
+
+const cases: { name: string; run: () => Promise<void> | void }[] = [
+  {
+    name: 'finds complaint themes with the lexicon, ignoring negated complaints',
+    run: async () => {
+      const analysis = await analyzeReviews(REVIEWS, null, NOW);
+      assert.equal(analysis.method, 'lexicon');
+      assert.equal(analysis.reviewsAnalyzed, 6);
+
+      const themes = Object.fromEntries(analysis.themes.map(theme => [theme.id, theme]));
+      assert.equal(analysis.themes[0].id, 'phone_unanswered', 'most mentioned first');
+      assert.equal(themes.phone_unanswered.mentions, 4);
+      assert.equal(themes.phone_unanswered.recentMentions, 3, 'the 500-day-old review is not recent');
+      assert.equal(themes.staff.mentions, 1, '"not rude at all" is praise');
+      assert.equal(themes.wait_time.mentions, 1);
+      assert.equal(themes.pricing.mentions, 1, '"fair prices" is not a pricing complaint');
+
+      // A negated phrase doesn't hide the same complaint later in the review
+      const mixed = classifyWithLexicon({ text: 'The hygienist was not rude at all, but the front desk manager was rude and dismissive.', rating: 2 });
+      assert.deepEqual(mixed.themes, ['staff']);
+
+      // Quotes are the complaining sentence, newest first
+      assert.deepEqual(themes.phone_unanswered.quotes.map(quote => quote.text), [
+        'Called twice to reschedule and nobody ever answered, so I just showed up.',
+        'Phone goes straight to voicemail every time.',
+        'They never call you back.',
+      ]);
+      assert.equal(themes.phone_unanswered.quotes[0].rating, 3);
+      assert.equal(themes.phone_unanswered.quotes[0].publishedAt, REVIEWS[0].publishedAt);
+    },
+  },
+  {
+    name: 'reads sentiment from words and stars',
+    run: async () => {
+      assert.equal(classifyWithLexicon(REVIEWS[1]).sentiment, 'positive');
+      assert.equal(classifyWithLexicon(REVIEWS[2]).sentiment, 'negative');
+      assert.equal(classifyWithLexicon({ text: 'Went in for a checkup.' }).sentiment, 'neutral');
+
+      const analysis = await analyzeReviews(REVIEWS, null, NOW);
+      assert.deepEqual(analysis.sentiment, { positive: 3, neutral: 0, negative: 3 });
+    },
+  },
+  {
+    name: 'computes the owner response rate only when every reply is visible',
+    run: async () => {
+      assert.equal(ownerResponseRate(REVIEWS), 33);
+      assert.equal(ownerResponseRate([]), undefined);
+      assert.equal(ownerResponseRate([...REVIEWS, { text: 'Fine.' }]), undefined, 'undefined ownerReply means the provider cannot see replies');
+
+      assert.equal((await analyzeReviews(REVIEWS, null, NOW)).ownerResponseRate, 33);
+      assert.equal((await analyzeReviews([{ text: 'Fine.' }], null, NOW)).ownerResponseRate, undefined);
+    },
+  },
+  {
+    name: 'uses the LLM classifier and falls back to the lexicon when it fails',
+    run: async () => {
+      const seen: string[][] = [];
+      const llm: ReviewClassifier = async reviews => {
+        seen.push(reviews.map(review => review.text));
+        return reviews.map(() => ({ sentiment: 'neutral', themes: ['wait_time'] }));
+      };
+      const analysis = await analyzeReviews(REVIEWS, llm, NOW);
+      assert.equal(analysis.method, 'llm');
+      assert.equal(seen[0][0], REVIEWS[0].text, 'newest first');
+      assert.deepEqual(analysis.sentiment, { positive: 0, neutral: 6, negative: 0 });
+      assert.deepEqual(analysis.themes.map(theme => [theme.id, theme.mentions]), [['wait_time', 6]]);
+      // No waiting phrase to point at, so the quote is the review's opening sentence
+      assert.equal(analysis.themes[0].quotes[0].text, 'Great cleaning.');
+
+      const failing: ReviewClassifier = async () => { throw new Error('rate limited'); };
+      assert.equal((await analyzeReviews(REVIEWS, failing, NOW)).method, 'lexicon');
+      const short: ReviewClassifier = async () => [{ sentiment: 'positive', themes: [] }];
+      assert.equal((await analyzeReviews(REVIEWS, short, NOW)).method, 'lexicon', 'one answer for six reviews');
+    },
+  },
+  {
+    name: 'recommends the AI receptionist with the reviews that complain about the phone',
+    run: async () => {
+      const analysis = await analyzeReviews(REVIEWS, null, NOW);
+      const offers = evaluateOfferCatalog(OFFER_CATALOG, { ...BASE_CONTEXT, gmbProfile: profileWith(REVIEWS, analysis) });
+      const receptionist = offers.find(offer => offer.id === 'ai_receptionist');
+
+      assert.ok(receptionist, offers.map(offer => offer.id).join(', '));
+      assert.equal(receptionist.trigger?.ruleId, 'reviews_phone_unanswered', 'the site has instant contact; the reviews are the trigger');
+      assert.match(receptionist.reason, /^URGENT: 3 Google reviews in the last year say nobody answers your phone\./);
+      assert.deepEqual(receptionist.reviewQuotes, analysis.themes.find(theme => theme.id === 'phone_unanswered')?.quotes);
+
+      // Two recent complaints aren't enough on their own
+      const fewer = await analyzeReviews(REVIEWS.slice(1), null, NOW);
+      const without = evaluateOfferCatalog(OFFER_CATALOG, { ...BASE_CONTEXT, gmbProfile: profileWith(REVIEWS.slice(1), fewer) });
+      assert.equal(without.find(offer => offer.id === 'ai_receptionist'), undefined);
+    },
+  },
+];
+
+async function main(): Promise<void> {
+  let failures = 0;
+  for (const { name, run } of cases) {
+    try {
+      await run();
+      console.log(`ok   ${name}`);
+    } catch (error) {
+      failures++;
+      console.log(`FAIL ${name}\n  ${error instanceof Error ? error.message.split('\n').join('\n  ') : String(error)}`);
+    }
+  }
+
+  console.log(`\n${cases.length - failures}/${cases.length} review analysis checks pass`);
+  if (failures > 0) process.exitCode = 1;
+}
+
+main();
@@ -0,0 +1,175 @@
+/**
+ * Scoring regression harness. Runs every fixture in ./fixtures through the
+ * full scoring and offer pipeline and compares the result with the golden
+ * snapshot in ./snapshots.
+ *
+ *   npm test                 # fail on any difference
+ *   npm run test:update      # rewrite snapshots and report score deltas
+ */
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { CASHScore, FetchResult, GMBProfile, ScrapedContent, SiteProbe } from '@/types';
+import { calculateCASHScoreV2, CASHScoreResult } from '@/utils/cash-scoring';
+import { mergePages } from '@/utils/crawler';
+import { failedContent, parsePage } from '@/utils/scraper';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const SNAPSHOTS_DIR = path.join(__dirname, 'snapshots');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface Fixture {
+  description: string;
+  url: string;
+  html?: string; // HTML file next to the fixture; omitted for pages that could not be fetched
+  fetch?: FetchResult;
+  // Review dates are relative so recency rules don't drift as the fixture ages
+  gmbProfile?: Omit<GMBProfile, 'lastReviewDate'> & { lastReviewDaysAgo?: number };
+  siteProbe?: SiteProbe; // What probeSite would have found; crawlability is unknown without it
+}
+
+type Snapshot = ReturnType<typeof summarize>;
+
+function loadContent(fixture: Fixture): ScrapedContent {
+  if (!fixture.html) {
+    if (!fixture.fetch) throw new Error(`Fixture for ${fixture.url} needs either "html" or "fetch"`);
+    return failedContent(fixture.url, fixture.fetch);
+  }
+  const html = readFileSync(path.join(FIXTURES_DIR, fixture.html), 'utf8');
+  const content = mergePages(fixture.url, [parsePage(html, fixture.url)]);
+  return {
+    ...content,
+    fetch: fixture.fetch ?? { status: 'ok', redirectChain: [fixture.url], finalUrl: fixture.url },
+  };
+}
+
+function loadGMBProfile(fixture: Fixture): GMBProfile | undefined {
+  if (!fixture.gmbProfile) return undefined;
+  const { lastReviewDaysAgo, ...profile } = fixture.gmbProfile;
+  return lastReviewDaysAgo === undefined
+    ? profile
+    : { ...profile, lastReviewDate: new Date(Date.now() - lastReviewDaysAgo * DAY_MS).toISOString() };
+}
+
+// The parts of a result a reviewer cares about; evidence snippets are left out to keep diffs readable
+function summarize(result: CASHScoreResult) {
+  return {
+    rulesetVersion: result.rulesetVersion,
+    offerCatalogVersion: result.offerCatalogVersion,
+    scores: result.scores,
+    unknownCategories: result.unknownCategories,
+    businessType: result.businessClassification.type,
+    businessTypeConfidence: result.businessClassification.confidence,
+    weightProfile: result.weightProfile.id,
+    scoreBreakdown: result.scoreBreakdown,
+    signals: Object.fromEntries(Object.values(result.signals).flat().map(signal => [signal.id, {
+      score: signal.score,
+      status: signal.status ?? 'measured',
+      notes: signal.notes,
+      passedChecks: signal.evidence?.checks.filter(check => check.passed).map(check => check.id) ?? [],
+    }])),
+    napConsistency: result.napAudit.consistencyScore,
+    techStack: result.techStack.map(tech => `${tech.id} (${tech.confidence})`),
+    forms: result.forms.map(form => `${form.label}: ${form.frictionScore} [${form.reasons.join(', ')}]`),
+    contactChannels: result.contactChannels.map(channel =>
+      `${channel.type}: ${channel.label} [${channel.placements.join(', ')}]${channel.tappable ? '' : ' not tappable'}`),
+    offers: result.offers.map(offer => ({
+      id: offer.id,
+      priority: offer.priority,
+      rank: offer.rank,
+      trigger: offer.trigger?.ruleId,
+      pricing: offer.pricing,
+      reason: offer.reason,
+    })),
+    issues: result.issues.map(issue => `${issue.severity} ${issue.signalId} (${issue.severityScore})`),
+  };
+}
+
+// Flattens a snapshot to "path: value" lines so a diff names exactly what moved
+function flatten(value: unknown, prefix = '', lines = new Map<string, string>()): Map<string, string> {
+  if (value !== null && typeof value === 'object') {
+    const entries = Array.isArray(value) ? value.map((item, index) => [String(index), item] as const) : Object.entries(value);
+    if (entries.length === 0) lines.set(prefix, Array.isArray(value) ? '[]' : '{}');
+    for (const [key, child] of entries) {
+      flatten(child, prefix ? `${prefix}.${key}` : key, lines);
+    }
+  } else {
+    lines.set(prefix, JSON.stringify(value));
+  }
+  return lines;
+}
+
+function diffSnapshots(expected: Snapshot, actual: Snapshot): string[] {
+  const before = flatten(expected);
+  const after = flatten(actual);
+  const keys = Array.from(new Set([...Array.from(before.keys()), ...Array.from(after.keys())]));
+  return keys.flatMap(key => {
+    const was = before.get(key);
+    const now = after.get(key);
+    if (was === now) return [];
+    if (was === undefined) return [`  + ${key}: ${now}`];
+    if (now === undefined) return [`  - ${key}: ${was}`];
+    return [`  ~ ${key}: ${was} -> ${now}`];
+  });
+}
+
+function describeScoreDeltas(previous: Snapshot | undefined, next: Snapshot): string {
+  if (!previous) return 'new snapshot';
+  const deltas = (Object.keys(next.scores) as (keyof CASHScore)[])
+    .map(key => ({ key, delta: next.scores[key] - previous.scores[key] }))
+    .filter(({ delta }) => delta !== 0)
+    .map(({ key, delta }) => `${key} ${previous.scores[key]} -> ${next.scores[key]} (${delta > 0 ? '+' : ''}${delta})`);
+  return deltas.length > 0 ? deltas.join(', ') : 'scores unchanged';
+}
+
+function main(): void {
+  const update = process.argv.includes('--update');
+  const names = readdirSync(FIXTURES_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => file.replace(/\.json$/, ''))
+    .sort();
+
+  if (!existsSync(SNAPSHOTS_DIR)) mkdirSync(SNAPSHOTS_DIR);
+
+  let failures = 0;
+  for (const name of names) {
+    const fixture: Fixture = JSON.parse(readFileSync(path.join(FIXTURES_DIR, `${name}.json`), 'utf8'));
+    const result = calculateCASHScoreV2(loadContent(fixture), loadGMBProfile(fixture), { siteProbe: fixture.siteProbe });
+    const actual = summarize(result);
+
+    const snapshotPath = path.join(SNAPSHOTS_DIR, `${name}.json`);
+    const expected: Snapshot | undefined = existsSync(snapshotPath)
+      ? JSON.parse(readFileSync(snapshotPath, 'utf8'))
+      : undefined;
+
+    if (update) {
+      writeFileSync(snapshotPath, `${JSON.stringify(actual, null, 2)}\n`);
+      console.log(`${name}: ${describeScoreDeltas(expected, actual)}`);
+      continue;
+    }
+
+    if (!expected) {
+      failures++;
+      console.log(`FAIL ${name}: no snapshot (run npm run test:update)`);
+      continue;
+    }
+
+    const diff = diffSnapshots(expected, actual);
+    if (diff.length === 0) {
+      console.log(`ok   ${name} (overall ${actual.scores.overall})`);
+    } else {
+      failures++;
+      console.log(`FAIL ${name}: ${describeScoreDeltas(expected, actual)}`);
+      console.log(diff.join('\n'));
+    }
+  }
+
+  if (!update) {
+    console.log(`\n${names.length - failures}/${names.length} fixtures match their snapshots`);
+    if (failures > 0) {
+      console.log('If the change is intended, run npm run test:update and commit the snapshots.');
+      process.exitCode = 1;
+    }
+  }
+}
+
+main();
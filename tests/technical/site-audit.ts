@@ -0,0 +1,163 @@
+/**
+ * Technical audit against a local fixture site. Serves ./fixtures/site over
+ * HTTP on a free loopback port, crawls it, runs the site probe and checks
+ * what the audit and the technical signals report.
+ *
+ *   npm test
+ */
+import assert from 'assert/strict';
+import { existsSync, readFileSync } from 'fs';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+import { ScrapedContent, Signal, SiteProbe, TechnicalAudit } from '@/types';
+import { calculateCASHScoreV2 } from '@/utils/cash-scoring';
+import { crawlSite } from '@/utils/crawler';
+import { probeSite } from '@/utils/technical-audit';
+
+const SITE_DIR = path.join(__dirname, 'fixtures', 'site');
+
+const REDIRECTS: Record<string, string> = { '/old-coupons': '/coupons' };
+// Answers HEAD with 405 so link checks have to fall back to GET
+const HEAD_NOT_ALLOWED = new Set(['/financing']);
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.xml': 'application/xml; charset=utf-8',
+};
+
+function serveFixture(origin: string, request: IncomingMessage, response: ServerResponse): void {
+  const pathname = new URL(request.url || '/', origin).pathname;
+
+  if (REDIRECTS[pathname]) {
+    response.writeHead(301, { Location: REDIRECTS[pathname] }).end();
+    return;
+  }
+  if (request.method === 'HEAD' && HEAD_NOT_ALLOWED.has(pathname)) {
+    response.writeHead(405, { Allow: 'GET' }).end();
+    return;
+  }
+
+  const file = pathname === '/' ? 'index.html' : path.extname(pathname) ? pathname.slice(1) : `${pathname.slice(1)}.html`;
+  const filePath = path.join(SITE_DIR, file);
+  if (!filePath.startsWith(SITE_DIR) || !existsSync(filePath)) {
+    response.writeHead(404, { 'Content-Type': CONTENT_TYPES['.html'] }).end('<html><body><h1>Not found</h1></body></html>');
+    return;
+  }
+
+  // Sitemaps and robots.txt need absolute URLs, and the port is only known at runtime
+  const body = readFileSync(filePath, 'utf8').replace(/\{\{origin\}\}/g, origin);
+  response.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] }).end(body);
+}
+
+interface AuditRun {
+  origin: string;
+  content: ScrapedContent;
+  probe: SiteProbe;
+  audit: TechnicalAudit;
+  signals: Signal[];
+}
+
+const cases: { name: string; check: (run: AuditRun) => void }[] = [
+  {
+    name: 'crawls the pages linked from the navigation',
+    check: ({ origin, content }) => {
+      assert.deepEqual(content.pages?.map(page => page.url).sort(), [`${origin}/`, `${origin}/contact`, `${origin}/services`]);
+    },
+  },
+  {
+    name: 'reads canonical, lang, alt text and blocking scripts from the landing page',
+    check: ({ origin, audit }) => {
+      const landing = audit.pages[0];
+      assert.equal(landing.canonical, `${origin}/`);
+      assert.equal(landing.canonicalSelf, true);
+      assert.equal(landing.lang, 'en');
+      assert.equal(landing.noindex, false);
+      assert.equal(landing.images, 3);
+      assert.equal(landing.imagesMissingAlt, 1, 'alt="" marks a decorative image');
+      assert.equal(landing.blockingScripts, 1, 'deferred scripts do not block rendering');
+      assert.equal(landing.resources, 6);
+    },
+  },
+  {
+    name: 'flags pages marked noindex',
+    check: ({ origin, audit }) => {
+      assert.deepEqual(audit.pages.filter(page => page.noindex).map(page => page.url), [`${origin}/contact`]);
+    },
+  },
+  {
+    name: 'reads robots.txt and the sitemap it declares',
+    check: ({ origin, probe }) => {
+      assert.equal(probe.robotsTxt.found, true);
+      assert.equal(probe.robotsTxt.disallowsAll, false, 'only the "*" group counts');
+      assert.deepEqual(probe.robotsTxt.sitemaps, [`${origin}/sitemap.xml`]);
+      assert.deepEqual(probe.sitemap, { found: true, url: `${origin}/sitemap.xml`, urlCount: 3 });
+    },
+  },
+  {
+    name: 'reports a site served over plain HTTP',
+    check: ({ probe }) => {
+      assert.equal(probe.https, false);
+      assert.equal(probe.httpRedirectsToHttps, false);
+    },
+  },
+  {
+    name: 'checks internal links that were not crawled, following redirects',
+    check: ({ origin, probe }) => {
+      assert.equal(probe.linksChecked, 3);
+      assert.deepEqual(probe.brokenLinks.map(link => [link.url, link.httpStatus]).sort(), [
+        [`${origin}/old-coupons`, 404],
+        [`${origin}/water-heaters`, 404],
+      ]);
+    },
+  },
+  {
+    name: 'scores the technical signals from the audit',
+    check: ({ signals }) => {
+      const byId = Object.fromEntries(signals.map(signal => [signal.id, signal]));
+      assert.equal(byId.signal_technical_page_health.score, 7);
+      assert.match(byId.signal_technical_page_health.notes, /\/contact is marked noindex/);
+      assert.equal(byId.signal_technical_crawlability.status, undefined);
+      assert.equal(byId.signal_technical_crawlability.score, 4);
+      assert.match(byId.signal_technical_crawlability.notes, /not served over HTTPS/);
+      const brokenLinks = byId.signal_technical_crawlability.evidence?.hits.find(hit => hit.checkId === 'technical_no_broken_links');
+      assert.match(brokenLinks?.snippet ?? '', /\/old-coupons \(404\)/);
+    },
+  },
+];
+
+async function main(): Promise<void> {
+  // Loopback addresses are refused outside local development; the fixture server needs them
+  process.env.ALLOW_PRIVATE_URLS = 'true';
+
+  let origin = '';
+  const server = createServer((request, response) => serveFixture(origin, request, response));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  let failures = 0;
+  try {
+    const content = await crawlSite(`${origin}/`);
+    const probe = await probeSite(content);
+    const result = calculateCASHScoreV2(content, undefined, { siteProbe: probe });
+    const run: AuditRun = { origin, content, probe, audit: result.technicalAudit, signals: result.signals.content };
+
+    for (const { name, check } of cases) {
+      try {
+        check(run);
+        console.log(`ok   ${name}`);
+      } catch (error) {
+        failures++;
+        console.log(`FAIL ${name}\n  ${error instanceof Error ? error.message.split('\n').join('\n  ') : String(error)}`);
+      }
+    }
+  } finally {
+    server.close();
+  }
+
+  console.log(`\n${cases.length - failures}/${cases.length} technical audit checks pass`);
+  if (failures > 0) process.exitCode = 1;
+}
+
+main();
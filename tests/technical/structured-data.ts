@@ -0,0 +1,133 @@
+/**
+ * Structured data extraction. Runs extractStructuredData on JSON-LD, Microdata
+ * and OpenGraph markup in the shapes sites actually publish, including broken
+ * ones, and checks the businesses it reads.
+ *
+ *   npm test
+ */
+import assert from 'assert/strict';
+import { extractStructuredData } from '@/utils/structured-data';
+
+const PAGE_URL = 'https://brightsmile.example/';
+
+function jsonLd(value: unknown): string {
+  return `<script type="application/ld+json">${typeof value === 'string' ? value : JSON.stringify(value)}</script>`;
+}
+
+const cases: { name: string; run: () => void }[] = [
+  {
+    name: 'reads businesses from a JSON-LD @graph',
+    run: () => {
+      const data = extractStructuredData(jsonLd({
+        '@context': 'https://schema.org',
+        '@graph': [
+          { '@type': 'WebSite', name: 'Bright Smile Dental', url: PAGE_URL },
+          {
+            '@type': ['Dentist', 'LocalBusiness'],
+            name: 'Bright Smile Dental',
+            telephone: '+1 512-555-0142',
+            address: { '@type': 'PostalAddress', streetAddress: '1200 Congress Ave', addressLocality: 'Austin', addressRegion: 'TX' },
+            aggregateRating: { '@type': 'AggregateRating', ratingValue: '4.8', reviewCount: '212' },
+          },
+        ],
+      }), PAGE_URL);
+
+      assert.equal(data.jsonLdBlocks, 1);
+      assert.deepEqual(data.schemaTypes, ['WebSite', 'Dentist', 'LocalBusiness']);
+      assert.equal(data.businesses.length, 1);
+      const [business] = data.businesses;
+      assert.equal(business.telephone, '+1 512-555-0142');
+      assert.equal(business.address?.addressLocality, 'Austin');
+      assert.deepEqual(business.aggregateRating, { ratingValue: 4.8, reviewCount: 212 });
+      assert.equal(business.source, 'json-ld');
+    },
+  },
+  {
+    name: 'reports malformed JSON-LD and keeps reading the other blocks',
+    run: () => {
+      const data = extractStructuredData(
+        jsonLd('{"@type": "Dentist", "name": "Bright Smile Dental",}') + jsonLd({ '@type': 'Dentist', name: 'Bright Smile Dental' }),
+        PAGE_URL
+      );
+      assert.equal(data.jsonLdBlocks, 2);
+      assert.deepEqual(data.errors, [`JSON-LD block 1 is not valid JSON (${PAGE_URL})`]);
+      assert.equal(data.businesses.length, 1);
+    },
+  },
+  {
+    name: 'does not read an empty rating as zero stars',
+    run: () => {
+      const data = extractStructuredData(
+        jsonLd({ '@type': 'Dentist', name: 'A', aggregateRating: { ratingValue: '' } })
+        + jsonLd({ '@type': 'Dentist', name: 'B', aggregateRating: { ratingValue: null } })
+        + jsonLd({ '@type': 'Dentist', name: 'C', aggregateRating: { ratingValue: ' ' } })
+        + `<div itemscope itemtype="https://schema.org/Dentist"><span itemprop="name">D</span>
+            <div itemprop="aggregateRating" itemscope itemtype="https://schema.org/AggregateRating"><meta itemprop="ratingValue" content=""></div></div>`,
+        PAGE_URL
+      );
+      assert.deepEqual(data.businesses.map(business => business.aggregateRating), [undefined, undefined, undefined, undefined]);
+    },
+  },
+  {
+    name: 'reads Microdata nested scopes and itemref properties without mixing in nested items',
+    run: () => {
+      const data = extractStructuredData(`
+        <div itemscope itemtype="https://schema.org/Dentist" itemref="contact hours">
+          <h1 itemprop="name">Bright Smile Dental</h1>
+          <div itemprop="address" itemscope itemtype="https://schema.org/PostalAddress">
+            <span itemprop="streetAddress">1200 Congress Ave</span>
+            <span itemprop="addressLocality">Austin</span>
+          </div>
+          <div itemprop="aggregateRating" itemscope itemtype="https://schema.org/AggregateRating">
+            <span itemprop="ratingValue">4.6</span> from <span itemprop="reviewCount">64</span> reviews
+          </div>
+          <div itemprop="employee" itemscope itemtype="https://schema.org/Person">
+            <span itemprop="name">Dr. Priya Patel</span>
+            <a itemprop="sameAs" href="https://www.linkedin.com/in/priya-patel">LinkedIn</a>
+          </div>
+        </div>
+        <footer>
+          <p id="contact">Call <a itemprop="telephone" href="tel:+15125550142">(512) 555-0142</a></p>
+          <meta id="hours" itemprop="openingHours" content="Mo-Fr 08:00-17:00">
+        </footer>`, PAGE_URL);
+
+      assert.equal(data.businesses.length, 1, 'the nested Person is read by its parent, not as a business');
+      const [business] = data.businesses;
+      assert.equal(business.name, 'Bright Smile Dental', 'not the employee\'s name');
+      assert.equal(business.telephone, 'tel:+15125550142');
+      assert.deepEqual(business.openingHours, ['Mo-Fr 08:00-17:00']);
+      assert.deepEqual(business.sameAs, [], 'the employee\'s profile is not the business\'s');
+      assert.equal(business.address?.streetAddress, '1200 Congress Ave');
+      assert.deepEqual(business.aggregateRating, { ratingValue: 4.6, reviewCount: 64 });
+      assert.equal(business.source, 'microdata');
+    },
+  },
+  {
+    name: 'keeps the first OpenGraph value for each property',
+    run: () => {
+      const data = extractStructuredData(`
+        <meta property="og:title" content=" Bright Smile Dental ">
+        <meta property="og:title" content="Duplicate">
+        <meta property="business:contact_data:locality" content="Austin">`, PAGE_URL);
+      assert.deepEqual(data.openGraph, { 'og:title': 'Bright Smile Dental', 'business:contact_data:locality': 'Austin' });
+    },
+  },
+];
+
+function main(): void {
+  let failures = 0;
+  for (const { name, run } of cases) {
+    try {
+      run();
+      console.log(`ok   ${name}`);
+    } catch (error) {
+      failures++;
+      console.log(`FAIL ${name}\n  ${error instanceof Error ? error.message.split('\n').join('\n  ') : String(error)}`);
+    }
+  }
+
+  console.log(`\n${cases.length - failures}/${cases.length} structured data checks pass`);
+  if (failures > 0) process.exitCode = 1;
+}
+
+main();
@@ -1,9 +1,120 @@
+export type FetchStatus = 'ok' | 'blocked' | 'timeout' | 'dns' | 'non-html' | 'http-error' | 'unsafe' | 'error';
+
+export type UrlValidationErrorCode =
+  | 'INVALID_URL'
+  | 'UNSUPPORTED_SCHEME'
+  | 'CREDENTIALS_NOT_ALLOWED'
+  | 'BLOCKED_PORT'
+  | 'DNS_LOOKUP_FAILED'
+  | 'PRIVATE_ADDRESS';
+
+export interface FetchResult {
+  status: FetchStatus;
+  httpStatus?: number;
+  redirectChain: string[]; // Every URL requested, in order, ending with finalUrl
+  finalUrl: string;
+  error?: string;
+  cookies?: string[]; // Names of cookies the final response set
+}
+
+export interface PostalAddressData {
+  streetAddress?: string;
+  addressLocality?: string;
+  addressRegion?: string;
+  postalCode?: string;
+  addressCountry?: string;
+}
+
+export interface BusinessEntity {
+  types: string[]; // schema.org @type values, e.g. ['Dentist']
+  name?: string;
+  telephone?: string;
+  email?: string;
+  url?: string;
+  address?: PostalAddressData;
+  aggregateRating?: {
+    ratingValue: number;
+    reviewCount?: number;
+  };
+  openingHours: string[];
+  sameAs: string[]; // Social/profile links declared by the business
+  hasMap?: string;
+  source: 'json-ld' | 'microdata';
+  pageUrl?: string;
+}
+
+export interface StructuredData {
+  businesses: BusinessEntity[]; // LocalBusiness (and subtypes) / Organization entities
+  schemaTypes: string[]; // Every @type seen on the page(s)
+  openGraph: Record<string, string>; // og:* and business:* meta tags
+  jsonLdBlocks: number;
+  errors: string[]; // Invalid or unparseable markup
+}
+
+export type NAPField = 'name' | 'address' | 'phone';
+export type NAPSource = 'schema' | 'tel-link' | 'address-block' | 'footer' | 'opengraph' | 'gmb';
+
+export interface NAPMention {
+  field: NAPField;
+  value: string; // As written on the page
+  normalized: string; // E.164 for phones, canonical lowercase form otherwise
+  source: NAPSource;
+  pageUrl?: string;
+}
+
+export interface NAPRecord {
+  name?: string;
+  phone?: string; // E.164, e.g. +15551234567
+  address?: string;
+  locality?: string; // City, used to narrow the GMB lookup
+  region?: string;
+}
+
+export interface NAPExtraction {
+  primary: NAPRecord; // Most common value per field, schema.org preferred
+  mentions: NAPMention[];
+}
+
+export interface NAPMismatch {
+  field: NAPField;
+  values: string[]; // Distinct normalized values that disagree
+  against: 'site' | 'gmb'; // Disagreement across site pages, or between site and GMB
+  detail: string;
+}
+
+export interface NAPAudit extends NAPExtraction {
+  mismatches: NAPMismatch[];
+  gmbCompared: boolean;
+  consistencyScore: number; // 0-100
+}
+
+export interface ScrapedPage {
+  url: string;
+  title: string;
+  headings: string[];
+  text: string;
+  html: string;
+  depth: number; // 0 = the URL that was submitted
+  fetch?: FetchResult; // Set when the page was fetched over the network
+  structuredData?: StructuredData;
+}
+
 export interface ScrapedContent {
   title: string;
   headings: string[];
   text: string;
   url: string;
   html?: string; // Raw HTML for signal detection
+  pages?: ScrapedPage[]; // Per-page provenance when the site was crawled
+  fetch?: FetchResult; // Outcome of fetching the submitted URL
+  structuredData?: StructuredData; // Merged across all pages
+  nap?: NAPExtraction; // Name/address/phone found across all pages
+}
+
+export interface CrawledPageSummary {
+  url: string;
+  title: string;
+  depth: number;
 }
 
 export interface CASHScore {
@@ -14,11 +125,134 @@ export interface CASHScore {
   hypergrowth: number;
 }
 
+export type SignalCategory = 'content' | 'authority' | 'systems' | 'hypergrowth';
+
 export interface Signal {
   id: string;
   label: string;
   score: number; // 0-10
   notes: string;
+  status?: 'measured' | 'unknown'; // 'unknown' signals are excluded from scoring
+  evidence?: SignalEvidence; // Why the signal scored what it did
+}
+
+export type EvidenceKind = 'keyword' | 'pattern' | 'selector' | 'script' | 'structured-data' | 'fact' | 'technology' | 'form' | 'channel';
+
+export interface EvidenceHit {
+  checkId: string;
+  kind: EvidenceKind;
+  match: string; // Keyword, regex hit, CSS selector, script URL or field name
+  snippet?: string; // Surrounding text or markup
+  pageUrl?: string; // Page the hit came from
+}
+
+export interface SignalCheckResult {
+  id: string;
+  description: string;
+  passed: boolean;
+  points: number; // Contribution to the score (0 when the check failed)
+}
+
+export interface SignalEvidence {
+  checks: SignalCheckResult[];
+  hits: EvidenceHit[];
+}
+
+export type TechCategory =
+  | 'booking'
+  | 'chat'
+  | 'crm'
+  | 'email-marketing'
+  | 'payments'
+  | 'analytics'
+  | 'tag-manager'
+  | 'ad-pixel'
+  | 'heatmap'
+  | 'call-tracking'
+  | 'reviews';
+
+export type TechMarkerKind = 'script' | 'global' | 'cookie' | 'meta' | 'dom';
+
+export interface TechMarker {
+  kind: TechMarkerKind;
+  match: string; // Script URL, global, cookie name, meta tag or selector
+  pageUrl?: string;
+}
+
+export interface DetectedTechnology {
+  id: string; // Fingerprint id, e.g. 'google-analytics-4'
+  vendor: string;
+  category: TechCategory;
+  confidence: number; // 0-1, grows with independent markers
+  ids?: string[]; // Account or container IDs, e.g. GTM-ABC123
+  markers: TechMarker[];
+}
+
+export type PagePlacement = 'header' | 'hero' | 'body' | 'footer'; // 'hero' = above the fold outside the header
+
+export type FormFieldType = 'text' | 'email' | 'phone' | 'date' | 'number' | 'select' | 'textarea' | 'choice' | 'file';
+
+export interface FormAnalysis {
+  pageUrl?: string;
+  label: string; // Heading, aria-label or submit text that identifies the form
+  visibleFields: number;
+  requiredFields: number;
+  fieldTypes: Partial<Record<FormFieldType, number>>;
+  hasCaptcha: boolean;
+  multiStep: boolean;
+  embed?: string; // Third-party form vendor; its fields load remotely and can't be counted
+  aboveFold: boolean; // Estimated from the text that precedes the form
+  placement: PagePlacement;
+  frictionScore: number; // 0-10, higher = more friction
+  reasons: string[]; // What drives the friction score
+}
+
+export type ContactChannelType = 'phone' | 'sms' | 'whatsapp' | 'messenger' | 'live-chat' | 'booking' | 'email' | 'form';
+
+export type ChannelPlacement = PagePlacement | 'floating'; // 'floating' = chat widgets pinned to every screen
+
+export interface ContactChannel {
+  type: ContactChannelType;
+  label: string; // Phone number, address, vendor or form name
+  vendor?: string; // Chat or booking provider
+  placements: ChannelPlacement[];
+  tappable: boolean; // A link or widget a phone can act on; false for numbers shown as plain text
+  pageUrl?: string; // First page it was found on
+}
+
+// Technical SEO checks on one crawled page, read from its HTML
+export interface PageHealth {
+  url: string;
+  canonical?: string; // Resolved <link rel="canonical"> href
+  canonicalSelf: boolean; // The canonical points at this page
+  noindex: boolean; // meta robots/googlebot noindex
+  lang?: string; // <html lang>
+  images: number;
+  imagesMissingAlt: number; // <img> without an alt attribute; alt="" marks a decorative image and counts as set
+  htmlBytes: number;
+  resources: number; // Scripts, stylesheets and images the page asks the browser to load
+  blockingScripts: number; // External <head> scripts without async, defer or type="module"
+}
+
+export interface BrokenLink {
+  url: string;
+  httpStatus?: number;
+  foundOn?: string; // Page that links to it
+}
+
+// Results of the extra same-origin requests made for the technical audit
+export interface SiteProbe {
+  robotsTxt: { found: boolean; disallowsAll: boolean; sitemaps: string[] };
+  sitemap: { found: boolean; url?: string; urlCount: number };
+  https: boolean; // The submitted URL ended up on https://
+  httpRedirectsToHttps?: boolean; // Undefined when http:// could not be reached at all
+  linksChecked: number;
+  brokenLinks: BrokenLink[];
+}
+
+export interface TechnicalAudit {
+  pages: PageHealth[]; // Crawl order; the submitted page first
+  probe?: SiteProbe; // Missing when the extra requests were not made
 }
 
 export interface PriorityIssue {
@@ -27,12 +261,83 @@ export interface PriorityIssue {
   severity: 'high' | 'medium' | 'low';
 }
 
+export type IssueEffort = 'quick-win' | 'moderate' | 'project';
+
+// An underperforming signal turned into a fix-it item
+export interface Issue extends PriorityIssue {
+  signalId: string;
+  signalLabel: string;
+  category: SignalCategory;
+  score: number; // Signal score, 0-10
+  impact: 'high' | 'medium' | 'low'; // Business impact of the signal
+  severityScore: number; // Score gap x impact, 0-1; issues are sorted by it
+  remediation: string[]; // Concrete steps, in order
+  effort: IssueEffort;
+  effortEstimate: string; // e.g. "1-3 days"
+  offer?: { id: string; label: string }; // Offer that addresses it
+}
+
+export interface LossModelInputs {
+  monthlyCallVolume: number; // Inbound calls per month
+  afterHoursShare: number; // 0-1, calls placed outside business hours (all missed without a receptionist)
+  missedCallRate: number; // 0-1, business-hours calls that go unanswered
+  closeRate: number; // 0-1, answered leads that become customers
+  averageTicket: number; // Revenue per new customer, in dollars
+}
+
+export interface LossAssumption {
+  key: keyof LossModelInputs;
+  label: string;
+  value: number;
+  source: 'industry-default' | 'override';
+}
+
+export interface LossRange {
+  low: number;
+  expected: number;
+  high: number;
+}
+
+export interface MonetizedLoss {
+  industry: string; // Loss profile the defaults came from
+  inputs: LossModelInputs;
+  assumptions: LossAssumption[];
+  missedCallsPerMonth: LossRange;
+  monthly: LossRange; // Dollars
+  annual: LossRange; // Dollars
+}
+
+export interface OfferPricing {
+  tier?: string; // Price tier id from the offer catalog
+  setupFee: number; // One-time, in dollars
+  monthlyFee: number; // Recurring, in dollars
+}
+
+// The eligibility rule that put an offer in the report
+export interface OfferTrigger {
+  ruleId: string;
+  description: string;
+}
+
 export interface Offer {
   id: string;
   label: string;
   reason: string;
   priority: 'high' | 'medium' | 'low';
-  monetizedLoss?: number; // Monthly loss in dollars (for AI Receptionist offer)
+  rank?: number; // Catalog priority formula result; offers arrive sorted by it
+  trigger?: OfferTrigger;
+  monetizedLoss?: MonetizedLoss; // Missed-call revenue model (for AI Receptionist offer)
+  pricing?: OfferPricing;
+  reviewQuotes?: ReviewQuote[]; // Google reviews that back the offer up
+}
+
+// Loss and payback after a rep adjusts the model in the ROI calculator
+export interface ROIProjection {
+  offerId: string;
+  loss: MonetizedLoss;
+  pricing?: OfferPricing;
+  netMonthlyGain: number; // Recovered revenue minus the monthly fee
+  paybackMonths: number | null; // Null when the offer never pays back
 }
 
 export interface AISummary {
@@ -40,26 +345,123 @@ export interface AISummary {
   oneLineHook: string;
 }
 
+export interface GMBReview {
+  text: string;
+  rating?: number; // 1-5
+  publishedAt?: string; // ISO
+  author?: string;
+  // null: the owner has not replied; undefined: the provider can't see replies
+  ownerReply?: { text: string; publishedAt?: string } | null;
+}
+
+export type ReviewThemeId = 'phone_unanswered' | 'wait_time' | 'pricing' | 'staff';
+
+export interface ReviewQuote {
+  themeId: ReviewThemeId;
+  text: string; // The sentence carrying the complaint
+  rating?: number;
+  publishedAt?: string;
+}
+
+export interface ReviewTheme {
+  id: ReviewThemeId;
+  label: string; // e.g. "Nobody answers the phone"
+  mentions: number; // Reviews complaining about it
+  recentMentions: number; // ...published in the last 12 months
+  quotes: ReviewQuote[]; // Newest first
+}
+
+export interface ReviewAnalysis {
+  method: 'llm' | 'lexicon'; // lexicon: no LLM configured, or its answer was unusable
+  reviewsAnalyzed: number;
+  sentiment: { positive: number; neutral: number; negative: number }; // Review counts
+  themes: ReviewTheme[]; // Themes with at least one complaint, most mentioned first
+  ownerResponseRate?: number; // 0-100; undefined when the provider can't see replies
+}
+
+export interface GMBChecklistItem {
+  id: string; // e.g. 'hours', 'posts'
+  group: 'reputation' | 'completeness';
+  label: string; // The goal, e.g. "A post in the last 30 days"
+  status: 'pass' | 'fail' | 'unknown'; // unknown: the provider can't see it; not scored
+  points: number;
+  maxPoints: number;
+  detail: string; // What the profile has, e.g. "3 photos"
+}
+
 export interface GMBProfile {
   found: boolean;
   url?: string;
   name?: string;
+  phone?: string;
+  address?: string;
   rating?: number;
   reviewCount?: number;
   lastReviewDate?: string; // ISO string
   responseRate?: number; // 0-100
   photosCount?: number;
   claimed?: boolean;
-  method: 'DIRECT_LINK' | 'API_SEARCH' | 'SERP_FALLBACK' | 'NOT_FOUND';
+  categories?: string[]; // Primary category first
+  hours?: string[]; // One line per day, e.g. "Monday: 8:00 AM – 5:00 PM"; [] = none listed
+  serviceAreas?: string[];
+  description?: string; // The owner's "From the business" text
+  postsCount?: number;
+  lastPostDate?: string; // ISO
+  questionsCount?: number; // Q&A
+  answeredQuestions?: number;
+  reviews?: GMBReview[]; // The sample the provider returned (Places: at most 5)
+  // Fields left undefined are ones the provider can't see, not ones the profile lacks
+  checklist?: GMBChecklistItem[];
+  reviewAnalysis?: ReviewAnalysis; // Added by the caller; analysis may call an LLM
+  placeId?: string; // Provider's stable id for the place
+  // UNAVAILABLE: the lookup itself failed, so we can't tell whether a profile exists
+  method: 'DIRECT_LINK' | 'API_SEARCH' | 'SERP_FALLBACK' | 'NOT_FOUND' | 'UNAVAILABLE';
+  provider?: string; // GMBProvider that answered, e.g. 'google-places'
+  fetchedAt?: string; // ISO time the provider answered
+  unavailableReason?: string; // Why the lookup failed (UNAVAILABLE only)
   score: number; // 0-100 contribution to Authority
 }
 
+export interface BusinessTypeCandidate {
+  type: string;
+  score: number; // Weighted evidence points
+  confidence: number; // 0-1
+  evidence: string[]; // e.g. "schema.org: Dentist", "title: dental"
+}
+
+export interface BusinessClassification {
+  type: string; // A vertical, or 'unknown' when no candidate is confident enough
+  confidence: number; // 0-1
+  candidates: BusinessTypeCandidate[]; // Ranked, best first
+  source: 'classifier' | 'override';
+}
+
+export interface WeightProfile {
+  id: string;
+  label: string;
+  categoryWeights: Record<SignalCategory, number>; // Sums to 1
+  authorityGmbShare: number; // Share of Authority taken from the GMB score (0-1)
+}
+
+export interface AppliedWeightProfile extends WeightProfile {
+  source: 'override' | 'business-type' | 'default';
+}
+
+export interface CategoryContribution {
+  category: SignalCategory;
+  score: number; // 0-100
+  weight: number; // Effective weight after unknown categories are dropped (0-1)
+  contribution: number; // Points added to the overall score
+  measured: boolean;
+}
+
 export interface AnalysisResult {
   requestId: string;
   url: string;
   timestamp: string;
   clientEmail?: string; // Verified email from email gate
   detectedBusinessType?: string; // For VAPI CTA
+  businessClassification?: BusinessClassification; // Ranked verticals behind detectedBusinessType
   scores: CASHScore;
   signals: {
     content: Signal[];
@@ -67,18 +469,73 @@ export interface AnalysisResult {
     systems: Signal[];
     hypergrowth: Signal[];
   };
-  priorityIssues: PriorityIssue[];
+  priorityIssues: PriorityIssue[]; // Top 5 of issues
+  issues?: Issue[]; // Every underperforming signal, most severe first
   offers: Offer[];
   aiSummary: AISummary;
   gmbProfile?: GMBProfile; // New GMB Data
+  crawledPages?: CrawledPageSummary[]; // Pages that were scored together
+  napAudit?: NAPAudit; // Name/address/phone consistency
+  techStack?: DetectedTechnology[]; // Vendors detected on the site
+  forms?: FormAnalysis[]; // Conversion forms, highest friction first
+  contactChannels?: ContactChannel[]; // Ways a visitor can reach the business
+  technicalAudit?: TechnicalAudit; // Indexability, crawlability and page health checks
+  fetchStatus?: FetchResult; // How the submitted URL responded
+  unknownCategories?: SignalCategory[]; // Categories with no measurable signals
+  rulesetVersion?: string; // Signal ruleset that scored this analysis
+  offerCatalogVersion?: string; // Offer catalog that picked the offers
+  weightProfile?: AppliedWeightProfile; // Category weights used for the overall score
+  scoreBreakdown?: CategoryContribution[]; // How each category contributed to the overall score
   // Keep for backward compatibility (optional)
   scrapedContent?: ScrapedContent;
   cashScore?: CASHScore; // Legacy format
   aiAnalysis?: string; // Legacy format
 }
 
+// A what-if change: treat a signal as fixed, or move it to a target score
+export interface SignalFix {
+  signalId: string;
+  target?: number; // 0-10; omitted = fully fixed (10)
+}
+
+export interface ScoreSimulation {
+  fixes: SignalFix[];
+  scores: CASHScore; // After the fixes
+  uplift: CASHScore; // Simulated minus current, per category and overall
+  offers: Offer[]; // Offers the simulated scores would still trigger
+  droppedOffers: Offer[]; // Current offers the fixes would make unnecessary
+}
+
+export interface FixUplift {
+  signalId: string;
+  label: string;
+  category: SignalCategory;
+  currentScore: number; // 0-10
+  categoryUplift: number;
+  overallUplift: number;
+  droppedOffers: string[]; // Offer ids
+}
+
+export interface SimulationRequest {
+  signals: AnalysisResult['signals'];
+  gmbProfile?: GMBProfile;
+  weightProfile?: string; // Profile id the analysis was weighted with
+  businessType?: string;
+  lossInputs?: Partial<LossModelInputs>;
+  fixes: SignalFix[];
+}
+
+export interface SimulationResponse {
+  requestId: string;
+  simulation: ScoreSimulation;
+  rankedFixes: FixUplift[]; // Biggest overall uplift first
+}
+
 export interface AnalysisRequest {
   url: string;
   email?: string; // Verified email from email gate
+  weightProfile?: string; // Weight profile id; overrides the one picked from the business type
+  lossInputs?: Partial<LossModelInputs>; // Overrides for the revenue-loss model defaults
+  businessType?: string; // Vertical chosen by the user; replaces the classifier's pick
 }
 
@@ -0,0 +1,192 @@
+import { BusinessClassification, BusinessTypeCandidate, GMBProfile, ScrapedContent } from '@/types';
+
+export const UNKNOWN_BUSINESS_TYPE = 'unknown';
+
+// Below this confidence the vertical is reported as unknown instead of guessed
+const CONFIDENCE_THRESHOLD = 0.35;
+
+// A vertical needs roughly this much weighted evidence before its confidence can reach 1
+const STRONG_EVIDENCE_SCORE = 8;
+
+const MAX_CANDIDATES = 3;
+
+interface VerticalDefinition {
+  keywords: string[]; // Matched as whole words in title, headings, URL slugs and body text
+  schemaTypes: string[];
+  gmbCategories: string[]; // Lowercased substrings of Google Business Profile categories
+}
+
+// Keywords are deliberately specific: "property", "shop" and "food" appear on
+// almost every small-business site and are not evidence of a vertical.
+const VERTICALS: Record<string, VerticalDefinition> = {
+  'Dentist': {
+    keywords: ['dentist', 'dental', 'dentistry', 'orthodontist', 'orthodontics', 'oral surgeon', 'teeth whitening', 'dental implants', 'invisalign', 'root canal', 'hygienist'],
+    schemaTypes: ['Dentist', 'DentalClinic'],
+    gmbCategories: ['dentist', 'dental', 'orthodontist'],
+  },
+  'Clinic': {
+    keywords: ['clinic', 'medical center', 'physician', 'primary care', 'urgent care', 'pediatrician', 'dermatology', 'chiropractor', 'physical therapy', 'patients'],
+    schemaTypes: ['MedicalClinic', 'MedicalBusiness', 'Physician', 'MedicalOrganization'],
+    gmbCategories: ['medical', 'clinic', 'doctor', 'physician', 'chiropractor', 'physical therapist'],
+  },
+  'Law Firm': {
+    keywords: ['law firm', 'lawyer', 'lawyers', 'attorney', 'attorneys', 'legal services', 'personal injury', 'practice areas', 'free case evaluation', 'litigation'],
+    schemaTypes: ['LegalService', 'Attorney'],
+    gmbCategories: ['lawyer', 'attorney', 'law firm', 'legal'],
+  },
+  'Auto Repair': {
+    keywords: ['auto repair', 'auto shop', 'mechanic', 'brake repair', 'oil change', 'transmission', 'collision', 'tire rotation', 'check engine'],
+    schemaTypes: ['AutoRepair', 'AutomotiveBusiness'],
+    gmbCategories: ['auto repair', 'mechanic', 'auto body', 'tire shop'],
+  },
+  'Plumber': {
+    keywords: ['plumber', 'plumbing', 'drain cleaning', 'water heater', 'leak repair', 'sewer line', 'clogged'],
+    schemaTypes: ['Plumber'],
+    gmbCategories: ['plumber', 'plumbing'],
+  },
+  'Electrician': {
+    keywords: ['electrician', 'electrical contractor', 'electrical repair', 'panel upgrade', 'wiring', 'ev charger installation'],
+    schemaTypes: ['Electrician'],
+    gmbCategories: ['electrician', 'electrical'],
+  },
+  'HVAC': {
+    keywords: ['hvac', 'air conditioning', 'heating and cooling', 'furnace', 'heat pump', 'ac repair', 'ductwork'],
+    schemaTypes: ['HVACBusiness'],
+    gmbCategories: ['hvac', 'air conditioning', 'heating contractor'],
+  },
+  'Real Estate': {
+    keywords: ['real estate', 'realtor', 'realty', 'homes for sale', 'listings', 'buy a home', 'sell your home', 'mls', 'open house'],
+    schemaTypes: ['RealEstateAgent'],
+    gmbCategories: ['real estate agent', 'real estate agency', 'realtor'],
+  },
+  'Property Management': {
+    keywords: ['property management', 'property manager', 'corporate housing', 'multifamily', 'tenants', 'tenant portal', 'leasing office', 'furnished apartments', 'rent online'],
+    schemaTypes: [],
+    gmbCategories: ['property management', 'corporate housing', 'apartment rental agency'],
+  },
+  'Restaurant': {
+    keywords: ['restaurant', 'dining', 'bistro', 'eatery', 'reservations', 'our menu', 'dinner menu', 'takeout', 'brunch', 'chef'],
+    schemaTypes: ['Restaurant', 'FoodEstablishment', 'BarOrPub'],
+    gmbCategories: ['restaurant', 'bar', 'grill', 'pizzeria'],
+  },
+  'Cafe': {
+    keywords: ['cafe', 'café', 'coffee shop', 'espresso', 'bakery', 'pastries', 'latte'],
+    schemaTypes: ['CafeOrCoffeeShop', 'Bakery'],
+    gmbCategories: ['cafe', 'coffee shop', 'bakery'],
+  },
+  'Retail': {
+    keywords: ['retail store', 'boutique', 'shop online', 'add to cart', 'free shipping', 'in stock', 'new arrivals'],
+    schemaTypes: ['Store', 'ClothingStore'],
+    gmbCategories: ['store', 'boutique', 'shop'],
+  },
+};
+
+// Points per distinct keyword and the most keywords counted from each source
+const SOURCE_WEIGHTS = {
+  title: { points: 4, maxHits: 2 },
+  headings: { points: 2, maxHits: 3 },
+  slugs: { points: 1.5, maxHits: 3 },
+  body: { points: 0.75, maxHits: 4 },
+};
+const SCHEMA_TYPE_POINTS = 8;
+const GMB_CATEGORY_POINTS = 8;
+
+export const BUSINESS_TYPES = Object.keys(VERTICALS);
+
+export function isBusinessType(value: string): boolean {
+  return Object.prototype.hasOwnProperty.call(VERTICALS, value);
+}
+
+/**
+ * Ranks candidate verticals from the title, headings, schema.org types, URL
+ * slugs, GMB categories and body text. Returns "unknown" rather than a weak guess.
+ */
+export function classifyBusiness(content: ScrapedContent, gmbProfile?: GMBProfile): BusinessClassification {
+  const title = normalize(content.title);
+  const headings = normalize(content.headings.join(' | '));
+  const body = normalize(content.text);
+  const slugs = normalize(collectSlugs(content).join(' | '));
+  const schemaTypes = new Set([
+    ...(content.structuredData?.schemaTypes || []),
+    ...(content.structuredData?.businesses.flatMap(business => business.types) || []),
+  ]);
+  const gmbCategories = (gmbProfile?.found ? gmbProfile.categories || [] : []).map(category => category.toLowerCase());
+
+  const scored = Object.entries(VERTICALS).map(([type, vertical]) => {
+    const evidence: string[] = [];
+    let score = 0;
+
+    for (const [source, text] of [['title', title], ['headings', headings], ['slugs', slugs], ['body', body]] as const) {
+      const hits = vertical.keywords.filter(keyword => containsWord(text, keyword));
+      const counted = hits.slice(0, SOURCE_WEIGHTS[source].maxHits);
+      if (counted.length > 0) {
+        score += counted.length * SOURCE_WEIGHTS[source].points;
+        evidence.push(`${source}: ${counted.join(', ')}`);
+      }
+    }
+
+    const schemaHits = vertical.schemaTypes.filter(schemaType => schemaTypes.has(schemaType));
+    if (schemaHits.length > 0) {
+      score += SCHEMA_TYPE_POINTS;
+      evidence.push(`schema.org: ${schemaHits.join(', ')}`);
+    }
+
+    const gmbHits = gmbCategories.filter(category => vertical.gmbCategories.some(match => category.includes(match)));
+    if (gmbHits.length > 0) {
+      score += GMB_CATEGORY_POINTS;
+      evidence.push(`GMB category: ${gmbHits.join(', ')}`);
+    }
+
+    return { type, score, evidence };
+  });
+
+  // Confidence = share of all evidence, discounted when there is little evidence overall
+  const total = scored.reduce((sum, candidate) => sum + candidate.score, 0);
+  const candidates: BusinessTypeCandidate[] = scored
+    .filter(candidate => candidate.score > 0)
+    .map(candidate => ({
+      ...candidate,
+      confidence: round2((candidate.score / total) * Math.min(1, candidate.score / STRONG_EVIDENCE_SCORE)),
+    }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_CANDIDATES);
+
+  const best = candidates[0];
+  if (!best || best.confidence < CONFIDENCE_THRESHOLD) {
+    return { type: UNKNOWN_BUSINESS_TYPE, confidence: best?.confidence ?? 0, candidates, source: 'classifier' };
+  }
+  return { type: best.type, confidence: best.confidence, candidates, source: 'classifier' };
+}
+
+/**
+ * A vertical chosen by the user replaces the classifier's pick; the
+ * classifier's candidates are kept for reference.
+ */
+export function overrideBusinessType(classification: BusinessClassification, businessType: string): BusinessClassification {
+  return { ...classification, type: businessType, confidence: 1, source: 'override' };
+}
+
+// "/services/dental-implants" -> "services dental implants"
+function collectSlugs(content: ScrapedContent): string[] {
+  const urls = [content.url, ...(content.pages || []).map(page => page.url)];
+  return urls.map(url => {
+    try {
+      return decodeURIComponent(new URL(url).pathname).replace(/[-_/.]+/g, ' ').trim();
+    } catch {
+      return '';
+    }
+  }).filter(Boolean);
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ');
+}
+
+function containsWord(text: string, phrase: string): boolean {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'u').test(text);
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,154 @@
+import * as cheerio from 'cheerio';
+import { ChannelPlacement, ContactChannel, ContactChannelType, DetectedTechnology, FormAnalysis } from '@/types';
+import { findPhones, normalizePhone } from '@/utils/nap-extractor';
+import { readPageLayout } from '@/utils/page-layout';
+
+// ============================================================================
+// CHANNEL PATTERNS
+// Link patterns are regexes against <a href>. Chat widgets and embedded
+// booking widgets come from the tech fingerprints instead.
+// ============================================================================
+
+const MESSAGING_LINKS: { type: ContactChannelType; label: string; pattern: RegExp }[] = [
+  { type: 'whatsapp', label: 'WhatsApp', pattern: /^whatsapp:|\/\/(wa\.me|api\.whatsapp\.com|chat\.whatsapp\.com)\//i },
+  { type: 'messenger', label: 'Facebook Messenger', pattern: /\/\/(m\.me|(www\.)?messenger\.com)\//i },
+];
+
+const BOOKING_LINKS: { vendor: string; pattern: RegExp }[] = [
+  { vendor: 'Calendly', pattern: /calendly\.com\//i },
+  { vendor: 'Acuity Scheduling', pattern: /acuityscheduling\.com|as\.me\//i },
+  { vendor: 'Zocdoc', pattern: /zocdoc\.com\//i },
+  { vendor: 'Square Appointments', pattern: /squareup\.com\/appointments|square\.site\/book/i },
+  { vendor: 'OpenTable', pattern: /opentable\.com\//i },
+  { vendor: 'Resy', pattern: /resy\.com\//i },
+  { vendor: 'Vagaro', pattern: /vagaro\.com\//i },
+  { vendor: 'Mindbody', pattern: /mindbodyonline\.com|mindbody\.io/i },
+  { vendor: 'Booksy', pattern: /booksy\.com\//i },
+  { vendor: 'Fresha', pattern: /fresha\.com\//i },
+  { vendor: 'Setmore', pattern: /setmore\.com/i },
+  { vendor: 'Housecall Pro', pattern: /housecallpro\.com\/book/i },
+];
+
+// Self-hosted booking pages are recognised by what the link says
+const BOOKING_TEXT_PATTERN = /\b(book (now|online|an? (appointment|visit|table|consultation))|schedule (now|online|an? (appointment|visit|consultation|service))|request an? appointment|reserve (a table|now))\b/i;
+
+const PLACEMENT_ORDER: ChannelPlacement[] = ['header', 'hero', 'body', 'footer', 'floating'];
+const NON_VISIBLE_TAGS = 'script, style, noscript, template';
+
+export interface ChannelPage {
+  url?: string;
+  html: string;
+}
+
+/**
+ * Inventories every way a visitor can reach the business: links found on the
+ * crawled pages, chat and booking widgets from the tech stack, and lead forms.
+ * The same channel on several pages is merged, keeping every placement.
+ */
+export function detectContactChannels(
+  pages: ChannelPage[],
+  technologies: DetectedTechnology[] = [],
+  forms: FormAnalysis[] = []
+): ContactChannel[] {
+  const channels = new Map<string, { channel: ContactChannel; target: string }>();
+  const add = (channel: ContactChannel, target: string) => {
+    // A number shown as plain text is a separate finding from the same number as a tel: link
+    const key = `${channel.type}|${target.toLowerCase()}|${channel.tappable}`;
+    const existing = channels.get(key)?.channel;
+    if (!existing) {
+      channels.set(key, { channel, target: target.toLowerCase() });
+      return;
+    }
+    existing.placements = PLACEMENT_ORDER.filter(placement =>
+      existing.placements.includes(placement) || channel.placements.includes(placement));
+  };
+
+  for (const page of pages) {
+    if (!page.html) continue;
+    const $ = cheerio.load(page.html);
+    const { placementOf } = readPageLayout($);
+
+    $('a[href]').each((_, element) => {
+      const $link = $(element);
+      const href = ($link.attr('href') || '').trim();
+      const text = $link.text().replace(/\s+/g, ' ').trim();
+      const found = (type: ContactChannelType, label: string, target: string, vendor?: string) => {
+        const channel: ContactChannel = { type, label, placements: [placementOf($link)], tappable: true, pageUrl: page.url };
+        if (vendor) channel.vendor = vendor;
+        add(channel, target);
+      };
+
+      if (/^tel:/i.test(href)) {
+        const number = decodeHref(href.slice(4));
+        if (!/\d/.test(number)) return;
+        found('phone', /\d/.test(text) ? text : number, normalizePhone(number) ?? number);
+      } else if (/^sms:/i.test(href)) {
+        const number = decodeHref(href.slice(4)).split(/[?&]/)[0];
+        found('sms', number || 'Text message', normalizePhone(number) ?? number);
+      } else if (/^mailto:/i.test(href)) {
+        const address = decodeHref(href.slice(7)).split('?')[0];
+        found('email', address, address);
+      } else {
+        const messaging = MESSAGING_LINKS.find(candidate => candidate.pattern.test(href));
+        const booking = BOOKING_LINKS.find(candidate => candidate.pattern.test(href));
+        if (messaging) found(messaging.type, messaging.label, messaging.label);
+        else if (booking) found('booking', booking.vendor, booking.vendor, booking.vendor);
+        else if (BOOKING_TEXT_PATTERN.test(text)) found('booking', text, href);
+      }
+    });
+
+    // Numbers printed outside links can't be tapped to call
+    $('body *').not(`a, a *, ${NON_VISIBLE_TAGS}`).each((_, element) => {
+      const $element = $(element);
+      if ($element.closest(NON_VISIBLE_TAGS).length > 0) return;
+      const ownText = $element.contents().filter((_, node) => node.type === 'text').text();
+      for (const phone of findPhones(ownText)) {
+        add({ type: 'phone', label: phone.trim(), placements: [placementOf($element)], tappable: false, pageUrl: page.url },
+          normalizePhone(phone) ?? phone);
+      }
+    });
+  }
+
+  for (const technology of technologies) {
+    if (technology.category === 'chat') {
+      add({
+        type: 'live-chat',
+        label: technology.vendor,
+        vendor: technology.vendor,
+        placements: ['floating'],
+        tappable: true,
+        pageUrl: technology.markers[0]?.pageUrl,
+      }, technology.vendor);
+    } else if (technology.category === 'booking' && !channels.has(`booking|${technology.vendor.toLowerCase()}|true`)) {
+      // An embedded widget with no link to it: it sits in the page body
+      add({
+        type: 'booking',
+        label: technology.vendor,
+        vendor: technology.vendor,
+        placements: ['body'],
+        tappable: true,
+        pageUrl: technology.markers[0]?.pageUrl,
+      }, technology.vendor);
+    }
+  }
+
+  for (const form of forms) {
+    add({ type: 'form', label: form.label, placements: [form.placement], tappable: true, pageUrl: form.pageUrl }, form.label);
+  }
+
+  // A printed number that is also linked somewhere is reachable with a tap
+  const found = Array.from(channels.values());
+  const linkedNumbers = new Set(found.filter(({ channel }) => channel.type === 'phone' && channel.tappable).map(({ target }) => target));
+  return found
+    .filter(({ channel, target }) => channel.type !== 'phone' || channel.tappable || !linkedNumbers.has(target))
+    .map(({ channel }) => channel);
+}
+
+// Malformed escapes are common in hand-written tel: links; keep the raw value then
+function decodeHref(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,182 @@
+import * as cheerio from 'cheerio';
+import { NAPRecord, ScrapedContent } from '@/types';
+
+// ============================================================================
+// CONTENT QUALITY
+// Readability, depth, heading structure, headline and meta tags are judged on
+// the submitted page; boilerplate is measured across all crawled pages.
+// ============================================================================
+
+// Blocks of prose; each one ends a sentence even without punctuation (headings, list items)
+const PROSE_SELECTOR = 'p, li, h1, h2, h3, h4, h5, h6, blockquote, td, dd, figcaption';
+const CHROME_SELECTOR = 'header, nav, footer, aside, script, style, noscript, template';
+
+// Shorter blocks ("Call now", "Read more") repeat on every site and say nothing about boilerplate
+const MIN_BOILERPLATE_BLOCK_WORDS = 8;
+
+const GENERIC_HEADLINE_PATTERN = /^(welcome|home|homepage|hello|hi there|about( us)?|untitled|index)\b/i;
+const GENERIC_TITLE_PATTERN = /^(home|homepage|untitled|welcome|index|new page)\b/i;
+// "for" plus who the business serves; "for you" or "for everyone" names no one
+const AUDIENCE_PATTERN = new RegExp(
+  '\\bfor\\s+(?:(?:the|your|whole|busy|local|small|new|growing|working|first[- ]time)\\s+){0,2}'
+  + '(?:homeowners?|home ?buyers|families|family|kids|children|parents|seniors|women|men|teens|adults|students|couples|'
+  + 'veterans|patients|athletes|professionals|contractors|landlords|investors|property managers|pet owners|pets|dogs|'
+  + 'businesses|business owners|startups|companies|restaurants|accident victims|injury victims)\\b',
+  'i'
+);
+
+export interface ContentQuality {
+  wordCount: number; // Landing page
+  sentenceCount: number;
+  fleschReadingEase: number; // 0-100, higher = easier; 60+ reads as plain English
+  boilerplateRatio: number; // 0-1 share of crawled prose repeated on several pages
+  boilerplateSample?: string;
+  h1s: string[];
+  skippedLevels: string[]; // e.g. "h2 → h4"
+  headline: string; // First H1, or the first heading when there is none
+  headlineWords: number;
+  headlineMarkers: string[]; // What makes it specific: 'number', 'location', 'audience'
+  title: string; // <title>, empty when missing
+  titleGeneric: boolean;
+  metaDescription: string;
+}
+
+/**
+ * Scores how clearly the landing page reads and how well it is structured,
+ * from the HTML kept in ScrapedContent.
+ */
+export function analyzeContentQuality(content: ScrapedContent, nap: NAPRecord = {}): ContentQuality {
+  const landing = content.pages?.[0] ?? { url: content.url, html: content.html || '', text: content.text };
+  const $ = cheerio.load(landing.html);
+
+  const blocks = extractProseBlocks($);
+  const readability = measureReadability(blocks.length > 0 ? blocks : [landing.text]);
+
+  const outline = $('h1, h2, h3, h4, h5, h6').toArray()
+    .map(element => ({ level: Number(element.tagName.slice(1)), text: cleanText($(element).text()) }))
+    .filter(heading => heading.text);
+  const h1s = outline.filter(heading => heading.level === 1).map(heading => heading.text);
+  const headline = h1s[0] ?? outline[0]?.text ?? '';
+
+  const title = cleanText($('title').first().text());
+  const hostname = safeHostname(content.url);
+  const boilerplate = measureBoilerplate((content.pages ?? []).map(page => extractProseBlocks(cheerio.load(page.html))));
+
+  const quality: ContentQuality = {
+    wordCount: countWords(landing.text),
+    sentenceCount: readability.sentences,
+    fleschReadingEase: readability.score,
+    boilerplateRatio: boilerplate.ratio,
+    h1s,
+    skippedLevels: findSkippedLevels(outline),
+    headline,
+    headlineWords: countWords(headline),
+    headlineMarkers: findHeadlineMarkers(headline, nap),
+    title,
+    titleGeneric: !title || GENERIC_TITLE_PATTERN.test(title) || title.toLowerCase() === hostname,
+    metaDescription: cleanText($('meta[name="description"]').attr('content')),
+  };
+  if (boilerplate.sample) quality.boilerplateSample = boilerplate.sample;
+  return quality;
+}
+
+function extractProseBlocks($: cheerio.CheerioAPI): string[] {
+  return $(PROSE_SELECTOR).toArray()
+    // Skip wrappers (an <li> holding a <p>) so text is counted once, and site chrome
+    .filter(element => $(element).find(PROSE_SELECTOR).length === 0 && $(element).closest(CHROME_SELECTOR).length === 0)
+    .map(element => cleanText($(element).text()))
+    .filter(Boolean);
+}
+
+// Flesch Reading Ease: 206.835 - 1.015 (words / sentences) - 84.6 (syllables / words)
+function measureReadability(blocks: string[]): { score: number; sentences: number } {
+  let sentences = 0;
+  let words = 0;
+  let syllables = 0;
+  for (const block of blocks) {
+    const blockWords = block.match(/[\p{L}\d'’-]+/gu) ?? [];
+    if (blockWords.length === 0) continue;
+    sentences += Math.max(1, block.split(/[.!?]+(?:\s|$)/).filter(part => part.trim()).length);
+    words += blockWords.length;
+    syllables += blockWords.reduce((sum, word) => sum + countSyllables(word), 0);
+  }
+  if (words === 0) return { score: 0, sentences: 0 };
+
+  const score = 206.835 - 1.015 * (words / sentences) - 84.6 * (syllables / words);
+  return { score: Math.round(Math.min(100, Math.max(0, score))), sentences };
+}
+
+// Vowel-group heuristic; close enough for English marketing copy
+function countSyllables(word: string): number {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (letters.length <= 3) return 1;
+  const stem = letters.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(1, stem.match(/[aeiouy]{1,2}/g)?.length ?? 1);
+}
+
+function findSkippedLevels(outline: { level: number; text: string }[]): string[] {
+  const skipped: string[] = [];
+  let previous = 0;
+  for (const heading of outline) {
+    // The first heading may be an H1 or, on pages without one, an H2
+    if (heading.level > previous + 1 && previous > 0) {
+      skipped.push(`h${previous} → h${heading.level} ("${heading.text}")`);
+    }
+    previous = heading.level;
+  }
+  return skipped;
+}
+
+function findHeadlineMarkers(headline: string, nap: NAPRecord): string[] {
+  if (!headline || GENERIC_HEADLINE_PATTERN.test(headline)) return [];
+  // The business name on its own says nothing about what the business does
+  if (nap.name && headline.toLowerCase().replace(/\W/g, '') === nap.name.toLowerCase().replace(/\W/g, '')) return [];
+
+  const markers: string[] = [];
+  if (/\d/.test(headline)) markers.push('number');
+  const mentionsLocality = nap.locality && headline.toLowerCase().includes(nap.locality.toLowerCase());
+  if (mentionsLocality || /\b(in|near|serving)\s+[A-Z][a-z]+/.test(headline)) markers.push('location');
+  if (AUDIENCE_PATTERN.test(headline)) markers.push('audience');
+  return markers;
+}
+
+// Share of prose (by words) that appears word-for-word on more than one crawled page
+function measureBoilerplate(pages: string[][]): { ratio: number; sample?: string } {
+  if (pages.length < 2) return { ratio: 0 };
+
+  const pageCounts = new Map<string, number>();
+  for (const blocks of pages) {
+    for (const block of new Set(blocks)) pageCounts.set(block, (pageCounts.get(block) || 0) + 1);
+  }
+
+  let total = 0;
+  let repeated = 0;
+  let sample: string | undefined;
+  for (const blocks of pages) {
+    for (const block of blocks) {
+      const words = countWords(block);
+      total += words;
+      if (words >= MIN_BOILERPLATE_BLOCK_WORDS && (pageCounts.get(block) || 0) > 1) {
+        repeated += words;
+        sample ??= block;
+      }
+    }
+  }
+  return { ratio: total > 0 ? Math.round((repeated / total) * 100) / 100 : 0, sample };
+}
+
+function countWords(text: string): number {
+  return text.match(/[\p{L}\d'’-]+/gu)?.length ?? 0;
+}
+
+function cleanText(value: string | undefined): string {
+  return (value || '').replace(/\s+/g, ' ').trim();
+}
+
+function safeHostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
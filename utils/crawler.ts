@@ -0,0 +1,158 @@
+import * as cheerio from 'cheerio';
+import { ScrapedContent, ScrapedPage } from '@/types';
+import { failedContent, fetchPage, FetchError } from '@/utils/scraper';
+import { emptyStructuredData, mergeStructuredData } from '@/utils/structured-data';
+import { extractNAP } from '@/utils/nap-extractor';
+
+export interface CrawlOptions {
+  maxDepth?: number; // Link hops away from the submitted URL
+  maxPages?: number; // Total pages fetched, including the submitted URL
+}
+
+const DEFAULT_MAX_DEPTH = 1;
+const DEFAULT_MAX_PAGES = 6;
+
+// Aggregated text limit across all crawled pages
+const MAX_AGGREGATE_TEXT = 30000;
+
+// Pages that usually hold the signals we score (credentials, booking, reviews).
+// Higher weight = crawled first.
+const IMPORTANT_PAGE_PATTERNS: { pattern: RegExp; weight: number }[] = [
+  { pattern: /\b(about|team|staff|doctors?|attorneys?|our-story|who-we-are)\b/i, weight: 5 },
+  { pattern: /\b(contact|book|booking|appointments?|schedule|request)\b/i, weight: 5 },
+  { pattern: /\b(reviews?|testimonials?|results|case-studies|success)\b/i, weight: 4 },
+  { pattern: /\b(services?|treatments?|practice-areas|menu|pricing|fees)\b/i, weight: 3 },
+  { pattern: /\b(locations?|hours|directions|faq)\b/i, weight: 2 },
+];
+
+// Links that never contain scoreable page content
+const SKIPPED_EXTENSIONS = /\.(pdf|jpe?g|png|gif|svg|webp|zip|docx?|xlsx?|mp4|mp3|ics)$/i;
+const SKIPPED_PATHS = /\/(wp-admin|wp-login|login|cart|checkout|account|feed|tag|author)\b/i;
+
+interface LinkCandidate {
+  url: string;
+  score: number;
+}
+
+/**
+ * Crawls the submitted URL plus its most important internal pages and merges
+ * them into a single ScrapedContent. When the submitted URL itself cannot be
+ * fetched, returns empty content carrying the failed fetch result.
+ */
+export async function crawlSite(startUrl: string, options: CrawlOptions = {}): Promise<ScrapedContent> {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+
+  let homepage: ScrapedPage;
+  try {
+    homepage = await fetchPage(startUrl, 0);
+  } catch (error) {
+    if (error instanceof FetchError) {
+      return failedContent(startUrl, error.result);
+    }
+    return failedContent(startUrl, { status: 'error', redirectChain: [startUrl], finalUrl: startUrl, error: String(error) });
+  }
+
+  const pages: ScrapedPage[] = [homepage];
+  const visited = new Set<string>([canonicalPageKey(startUrl), canonicalPageKey(homepage.url)]);
+  let frontier: ScrapedPage[] = [homepage];
+
+  for (let depth = 1; depth <= maxDepth && pages.length < maxPages; depth++) {
+    const candidates = frontier
+      .flatMap(page => discoverLinks(page.html, page.url))
+      .filter(candidate => !visited.has(canonicalPageKey(candidate.url)))
+      .sort((a, b) => b.score - a.score);
+
+    const queue: string[] = [];
+    for (const candidate of candidates) {
+      const key = canonicalPageKey(candidate.url);
+      if (visited.has(key)) continue;
+      visited.add(key);
+      queue.push(candidate.url);
+      if (pages.length + queue.length >= maxPages) break;
+    }
+
+    const results = await Promise.allSettled(queue.map(url => fetchPage(url, depth)));
+    const fetched = results
+      .filter((r): r is PromiseFulfilledResult<ScrapedPage> => r.status === 'fulfilled')
+      .map(r => r.value);
+
+    pages.push(...fetched);
+    frontier = fetched;
+  }
+
+  return { ...mergePages(startUrl, pages), fetch: homepage.fetch };
+}
+
+/**
+ * Merges crawled pages into one aggregated ScrapedContent. The submitted
+ * page's title is kept; headings, text and HTML are concatenated in crawl order,
+ * structured data is merged and NAP details are collected across all pages.
+ */
+export function mergePages(url: string, pages: ScrapedPage[]): ScrapedContent {
+  const headings = Array.from(new Set(pages.flatMap(page => page.headings)));
+  const text = pages
+    .map(page => page.text)
+    .join(' ')
+    .substring(0, MAX_AGGREGATE_TEXT);
+
+  return {
+    title: pages[0]?.title || new URL(url).hostname,
+    headings,
+    text,
+    url,
+    html: pages.map(page => page.html).join('\n'),
+    pages,
+    structuredData: mergeStructuredData(pages.map(page => page.structuredData ?? emptyStructuredData())),
+    nap: extractNAP(pages),
+  };
+}
+
+/**
+ * Finds same-origin links worth crawling, scored by how likely they are to hold
+ * trust/booking/review content. Navigation links get a bonus.
+ */
+function discoverLinks(html: string, pageUrl: string): LinkCandidate[] {
+  const $ = cheerio.load(html);
+  const origin = new URL(pageUrl).origin;
+  const candidates = new Map<string, LinkCandidate>();
+
+  $('a[href]').each((_, element) => {
+    const href = $(element).attr('href') || '';
+    if (!href || href.startsWith('#') || /^(mailto|tel|sms|javascript):/i.test(href)) return;
+
+    let resolved: URL;
+    try {
+      resolved = new URL(href, pageUrl);
+    } catch {
+      return;
+    }
+
+    if (resolved.origin !== origin) return;
+    if (SKIPPED_EXTENSIONS.test(resolved.pathname) || SKIPPED_PATHS.test(resolved.pathname)) return;
+
+    resolved.hash = '';
+    const target = resolved.toString();
+    const label = `${resolved.pathname} ${$(element).text()}`;
+
+    let score = 0;
+    for (const { pattern, weight } of IMPORTANT_PAGE_PATTERNS) {
+      if (pattern.test(label)) score += weight;
+    }
+    if ($(element).closest('nav, header').length > 0) score += 2;
+    if (score === 0) return;
+
+    const existing = candidates.get(target);
+    if (!existing || existing.score < score) {
+      candidates.set(target, { url: target, score });
+    }
+  });
+
+  return Array.from(candidates.values());
+}
+
+// Treat trailing slashes and query strings as the same page
+function canonicalPageKey(url: string): string {
+  const parsed = new URL(url);
+  return `${parsed.origin}${parsed.pathname.replace(/\/+$/, '') || '/'}`.toLowerCase();
+}
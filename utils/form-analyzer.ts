@@ -0,0 +1,301 @@
+import * as cheerio from 'cheerio';
+import type { Element } from 'domhandler';
+import { FormAnalysis, FormFieldType, PagePlacement } from '@/types';
+import { readPageLayout } from '@/utils/page-layout';
+
+// ============================================================================
+// FRICTION MODEL
+// Name, contact details and one question are free. Every field after that,
+// and every extra hurdle (CAPTCHA, wizard steps, uploads, scrolling), costs
+// conversions. Scores are capped at 10.
+// ============================================================================
+
+const FRICTION_FREE_FIELDS = 3;
+
+const FRICTION_WEIGHTS = {
+  extraField: 0.75, // Per visible field past FRICTION_FREE_FIELDS
+  extraRequired: 0.5, // Per required field past FRICTION_FREE_FIELDS
+  datePicker: 0.5,
+  fileUpload: 1.5,
+  captcha: 1.5,
+  multiStep: 1.5,
+  embed: 1, // Loads late, looks off-brand and is often blocked by privacy extensions
+  belowFold: 1,
+};
+
+const MAX_LABEL_LENGTH = 60;
+
+// Site search, logins and carts are not lead forms
+const UTILITY_FORM_PATTERN = /search|log-?in|sign-?in|cart|checkout/i;
+const UTILITY_FIELD_SELECTOR = 'input[type="search"], input[type="password"], input[name="s"], input[name="q"]';
+
+const NON_FIELD_INPUT_TYPES = new Set(['hidden', 'submit', 'button', 'reset', 'image']);
+const HIDDEN_ANCESTOR_SELECTOR = '[hidden], [aria-hidden="true"], [style*="display:none"], [style*="display: none"]';
+const HONEYPOT_PATTERN = /honeypot|^hp[_-]|[_-]hp$|^ak_hp/i;
+
+// Invisible reCAPTCHA v3 and Turnstile's managed mode cost the visitor nothing, so only widgets count
+const CAPTCHA_SELECTOR = [
+  '.g-recaptcha:not([data-size="invisible"])',
+  '.h-captcha:not([data-size="invisible"])',
+  '.cf-turnstile',
+  'iframe[src*="recaptcha/api2/anchor"]',
+  'iframe[src*="hcaptcha.com"]',
+].join(', ');
+
+const MULTI_STEP_SELECTOR = '[data-step], progress, [role="progressbar"], .gform_page, .wizard, .multi-step, .multistep, .form-step, .step';
+const NEXT_BUTTON_PATTERN = /^\s*(next|continue)\b/i;
+
+// ============================================================================
+// THIRD-PARTY FORM EMBEDS
+// `frames` match <iframe src>, `scripts` match <script src> (patterns are
+// regexes). `selectors` match the form or the placeholder it renders into.
+// ============================================================================
+
+interface FormEmbed {
+  vendor: string;
+  frames?: string[];
+  scripts?: string[];
+  selectors?: string[];
+  multiStep?: boolean; // The vendor shows one question per screen
+}
+
+const FORM_EMBEDS: FormEmbed[] = [
+  {
+    vendor: 'Typeform',
+    frames: ['typeform\\.com'],
+    scripts: ['embed\\.typeform\\.com'],
+    selectors: ['[data-tf-widget]', '[data-tf-live]', '.typeform-widget'],
+    multiStep: true,
+  },
+  { vendor: 'JotForm', frames: ['jotform\\.(com|us)', 'jotfor\\.ms'], scripts: ['jotform\\.(com|us)/jsform'] },
+  { vendor: 'Google Forms', frames: ['docs\\.google\\.com/forms', 'forms\\.gle'] },
+  { vendor: 'Microsoft Forms', frames: ['forms\\.office\\.com'] },
+  {
+    vendor: 'HubSpot Forms',
+    frames: ['share\\.hsforms\\.com'],
+    scripts: ['js\\.hsforms\\.net'],
+    selectors: ['form.hs-form', '.hbspt-form'],
+  },
+  { vendor: 'Marketo', scripts: ['marketo\\.com/js/forms2'], selectors: ['form.mktoForm', 'form[id^="mktoForm_"]'] },
+  { vendor: 'Wufoo', frames: ['wufoo\\.com'], selectors: ['[id^="wufoo-"]'] },
+  { vendor: 'Formstack', frames: ['formstack\\.com'], scripts: ['formstack\\.com/forms/js'] },
+  { vendor: 'Cognito Forms', frames: ['cognitoforms\\.com'], scripts: ['cognitoforms\\.com/f/seamless'] },
+  { vendor: 'Zoho Forms', frames: ['forms\\.zoho(public)?\\.com'] },
+  { vendor: 'Paperform', frames: ['paperform\\.co'], selectors: ['[data-paperform-id]'] },
+  { vendor: 'Tally', frames: ['tally\\.so'] },
+];
+
+export interface FormPage {
+  url?: string;
+  html: string;
+}
+
+interface FormFeatures {
+  label: string;
+  fields: { type: FormFieldType; required: boolean }[];
+  hasCaptcha: boolean;
+  multiStep: boolean;
+  embed?: FormEmbed;
+  aboveFold: boolean;
+  placement: PagePlacement;
+}
+
+/**
+ * Parses every lead form on the crawled pages (native <form>s and
+ * third-party embeds) and scores its friction, highest friction first.
+ */
+export function analyzeForms(pages: FormPage[]): FormAnalysis[] {
+  const forms: FormAnalysis[] = [];
+  const seen = new Set<string>();
+
+  for (const page of pages) {
+    if (!page.html) continue;
+    for (const form of analyzePage(page)) {
+      // The same footer or sidebar form on every crawled page is one form
+      const key = [form.label, form.embed, form.requiredFields, JSON.stringify(form.fieldTypes)].join('|');
+      if (seen.has(key)) continue;
+      seen.add(key);
+      forms.push(form);
+    }
+  }
+
+  return forms.sort((a, b) => b.frictionScore - a.frictionScore);
+}
+
+/** One-line description for notes, e.g. `"Free case evaluation" (6 visible fields, below the fold)` */
+export function describeForm(form: FormAnalysis): string {
+  return form.reasons.length > 0 ? `"${form.label}" (${form.reasons.join(', ')})` : `"${form.label}"`;
+}
+
+function analyzePage(page: FormPage): FormAnalysis[] {
+  const $ = cheerio.load(page.html);
+  const { isAboveFold, placementOf } = readPageLayout($);
+
+  const features: FormFeatures[] = [];
+
+  $('form').each((index, element) => {
+    const $form = $(element);
+    if (isUtilityForm($form)) return;
+
+    const embed = FORM_EMBEDS.find(candidate =>
+      candidate.selectors?.some(selector => $form.is(selector) || $form.closest(selector).length > 0));
+    const fields = collectFields($, $form);
+    if (fields.length === 0 && !embed) return; // Button-only forms (add to cart, PayPal) ask for nothing
+
+    const nextButtons = $form.find('button, input[type="button"], input[type="submit"]')
+      .filter((_, button) => NEXT_BUTTON_PATTERN.test($(button).text() || $(button).attr('value') || ''));
+
+    features.push({
+      label: labelForm($, $form) || `Form ${index + 1}`,
+      fields,
+      hasCaptcha: $form.find(CAPTCHA_SELECTOR).length > 0,
+      multiStep: Boolean(embed?.multiStep) || $form.find(MULTI_STEP_SELECTOR).length > 0 || nextButtons.length > 0,
+      embed,
+      aboveFold: isAboveFold($form),
+      placement: placementOf($form),
+    });
+  });
+
+  // Embeds whose fields live in an iframe or are rendered by a script
+  for (const embed of FORM_EMBEDS) {
+    const placements: cheerio.Cheerio<Element>[] = [];
+    $('iframe[src]').each((_, frame) => {
+      const src = $(frame).attr('src') || '';
+      if (embed.frames?.some(pattern => new RegExp(pattern, 'i').test(src)) && $(frame).closest('form').length === 0) {
+        placements.push($(frame));
+      }
+    });
+    if (embed.selectors) {
+      $(embed.selectors.join(', ')).filter(':not(form)').each((_, container) => {
+        const $container = $(container);
+        if ($container.find('form').length === 0 && $container.closest('form').length === 0) placements.push($container);
+      });
+    }
+    if (placements.length === 0 && features.every(form => form.embed !== embed)) {
+      const script = $('script[src]').filter((_, tag) =>
+        Boolean(embed.scripts?.some(pattern => new RegExp(pattern, 'i').test($(tag).attr('src') || ''))));
+      if (script.length > 0) placements.push(script.first());
+    }
+
+    for (const $placement of placements) {
+      features.push({
+        label: cleanLabel($placement.attr('title') || $placement.prevAll('h1, h2, h3, h4').first().text()) || `${embed.vendor} form`,
+        fields: [],
+        hasCaptcha: false,
+        multiStep: Boolean(embed.multiStep),
+        embed,
+        aboveFold: isAboveFold($placement),
+        placement: placementOf($placement),
+      });
+    }
+  }
+
+  return features.map(form => scoreForm(form, page.url));
+}
+
+function scoreForm(form: FormFeatures, pageUrl?: string): FormAnalysis {
+  const fieldTypes: Partial<Record<FormFieldType, number>> = {};
+  form.fields.forEach(field => { fieldTypes[field.type] = (fieldTypes[field.type] || 0) + 1; });
+  const visibleFields = form.fields.length;
+  const requiredFields = form.fields.filter(field => field.required).length;
+
+  let friction = 0;
+  const reasons: string[] = [];
+  const add = (points: number, reason: string) => {
+    if (points <= 0) return;
+    friction += points;
+    reasons.push(reason);
+  };
+
+  add(Math.max(0, visibleFields - FRICTION_FREE_FIELDS) * FRICTION_WEIGHTS.extraField, `${visibleFields} visible fields`);
+  add(Math.max(0, requiredFields - FRICTION_FREE_FIELDS) * FRICTION_WEIGHTS.extraRequired, `${requiredFields} required`);
+  if (fieldTypes.date) add(FRICTION_WEIGHTS.datePicker, 'date picker');
+  if (fieldTypes.file) add(FRICTION_WEIGHTS.fileUpload, 'file upload');
+  if (form.hasCaptcha) add(FRICTION_WEIGHTS.captcha, 'CAPTCHA');
+  if (form.multiStep) add(FRICTION_WEIGHTS.multiStep, 'multi-step');
+  if (form.embed) add(FRICTION_WEIGHTS.embed, `${form.embed.vendor} embed`);
+  if (!form.aboveFold) add(FRICTION_WEIGHTS.belowFold, 'below the fold');
+
+  const analysis: FormAnalysis = {
+    pageUrl,
+    label: form.label,
+    visibleFields,
+    requiredFields,
+    fieldTypes,
+    hasCaptcha: form.hasCaptcha,
+    multiStep: form.multiStep,
+    aboveFold: form.aboveFold,
+    placement: form.placement,
+    frictionScore: Math.min(10, Math.round(friction * 10) / 10),
+    reasons,
+  };
+  if (form.embed) analysis.embed = form.embed.vendor;
+  return analysis;
+}
+
+function isUtilityForm($form: cheerio.Cheerio<Element>): boolean {
+  if ($form.attr('role') === 'search' || $form.find(UTILITY_FIELD_SELECTOR).length > 0) return true;
+  return UTILITY_FORM_PATTERN.test(`${$form.attr('action') || ''} ${$form.attr('id') || ''} ${$form.attr('class') || ''}`);
+}
+
+// Visible fields; a radio or checkbox group counts once
+function collectFields($: cheerio.CheerioAPI, $form: cheerio.Cheerio<Element>): FormFeatures['fields'] {
+  const fields: FormFeatures['fields'] = [];
+  const groups = new Set<string>();
+
+  $form.find('input, select, textarea').each((_, element) => {
+    const $field = $(element);
+    const inputType = ($field.attr('type') || 'text').toLowerCase();
+    if ($field.is('input') && NON_FIELD_INPUT_TYPES.has(inputType)) return;
+    if ($field.attr('hidden') !== undefined || $field.closest(HIDDEN_ANCESTOR_SELECTOR).length > 0) return;
+    if (HONEYPOT_PATTERN.test($field.attr('name') || '') || HONEYPOT_PATTERN.test($field.attr('class') || '')) return;
+
+    const type = classifyField($field, inputType);
+    if (type === 'choice') {
+      const group = $field.attr('name') || '';
+      if (group && groups.has(group)) return;
+      groups.add(group);
+    }
+    fields.push({
+      type,
+      required: $field.attr('required') !== undefined || $field.attr('aria-required') === 'true',
+    });
+  });
+
+  return fields;
+}
+
+function classifyField($field: cheerio.Cheerio<Element>, inputType: string): FormFieldType {
+  if ($field.is('textarea')) return 'textarea';
+  if ($field.is('select')) return 'select';
+
+  switch (inputType) {
+    case 'email': return 'email';
+    case 'tel': return 'phone';
+    case 'date': case 'datetime-local': case 'month': case 'week': case 'time': return 'date';
+    case 'number': case 'range': return 'number';
+    case 'checkbox': case 'radio': return 'choice';
+    case 'file': return 'file';
+  }
+
+  // Plain text inputs: fall back to what the field is called
+  const hint = ['name', 'id', 'placeholder', 'autocomplete', 'class'].map(attr => $field.attr(attr) || '').join(' ');
+  if (/phone|\btel\b|mobile/i.test(hint)) return 'phone';
+  if (/e-?mail/i.test(hint)) return 'email';
+  if (/date|\bdob\b|birthday/i.test(hint)) return 'date';
+  return 'text';
+}
+
+function labelForm($: cheerio.CheerioAPI, $form: cheerio.Cheerio<Element>): string {
+  const submit = $form.find('button[type="submit"], input[type="submit"], button:not([type])').first();
+  return cleanLabel($form.attr('aria-label'))
+    || cleanLabel($form.find('h1, h2, h3, h4, legend').first().text())
+    || cleanLabel($form.prevAll('h1, h2, h3, h4').first().text())
+    || cleanLabel(submit.text() || submit.attr('value'))
+    || cleanLabel($form.attr('id') || $form.attr('name'));
+}
+
+function cleanLabel(value: string | undefined): string {
+  const label = (value || '').replace(/\s+/g, ' ').trim();
+  return label.length > MAX_LABEL_LENGTH ? `${label.slice(0, MAX_LABEL_LENGTH - 1)}…` : label;
+}
@@ -1,4 +1,5 @@
-import { CASHScore, AnalysisResult } from '@/types';
+import { CASHScore, AnalysisResult, ROIProjection } from '@/types';
+import { formatAssumptionValue, formatLossRange, formatPayback } from '@/utils/loss-model';
 
 export function formatScore(score: number): string {
   return `${score}/100`;
@@ -73,7 +74,9 @@ export function truncateText(text: string, maxLength: number = 200): string {
 }
 
 // PDF Export Function
-export async function exportToPDF(result: AnalysisResult): Promise<void> {
+// roi carries numbers a rep adjusted in the ROI calculator; they are on screen
+// for the canvas capture and written out explicitly in the text fallback
+export async function exportToPDF(result: AnalysisResult, roi?: ROIProjection): Promise<void> {
   try {
     // Dynamic import for client-side only libraries
     const html2canvas = (await import('html2canvas')).default;
@@ -95,7 +98,7 @@ export async function exportToPDF(result: AnalysisResult): Promise<void> {
   } catch (error) {
     // Fallback: Simple text-based PDF using blob
     console.warn('PDF export with html2canvas failed, using fallback method:', error);
-    await exportSimplePDF(result);
+    await exportSimplePDF(result, roi);
   }
 }
 
@@ -142,7 +145,17 @@ async function exportElementToPDF(
   pdf.save(filename);
 }
 
-async function exportSimplePDF(result: AnalysisResult): Promise<void> {
+function formatROISection(roi: ROIProjection): string {
+  return [
+    'Revenue Leak (ROI Calculator):',
+    `- Monthly loss: $${roi.loss.monthly.expected.toLocaleString()} (${formatLossRange(roi.loss.monthly)})`,
+    `- Annual loss: $${roi.loss.annual.expected.toLocaleString()} (${formatLossRange(roi.loss.annual)})`,
+    `- Payback: ${formatPayback(roi)}`,
+    ...roi.loss.assumptions.map(a => `- ${a.label}: ${formatAssumptionValue(a)}${a.source === 'override' ? ' (adjusted)' : ''}`),
+  ].join('\n');
+}
+
+async function exportSimplePDF(result: AnalysisResult, roi?: ROIProjection): Promise<void> {
   // Fallback: Create a simple text-based PDF using blob
   const date = new Date().toISOString().split('T')[0].replace(/-/g, '');
   const filename = `CASH_Audit_${date}.pdf`;
@@ -162,6 +175,8 @@ Hypergrowth: ${result.scores.hypergrowth}/100
 ${result.priorityIssues.length > 0 ? 'Critical Issues:\n' + result.priorityIssues.map(i => `- ${i.label}`).join('\n') : ''}
 
 ${result.offers.length > 0 ? 'Recommended Offers:\n' + result.offers.map(o => `- ${o.label}: ${o.reason}`).join('\n') : ''}
+
+${roi ? formatROISection(roi) : ''}
   `.trim();
 
   // Create blob and download
@@ -1,149 +1,195 @@
-import { GMBProfile } from '@/types';
-import * as cheerio from 'cheerio';
+import { GMBProfile, StructuredData } from '@/types';
+import { GMBPlace, GMBProvider, GMBProviderError, GMBSearchQuery } from '@/utils/gmb-provider';
+import { buildGMBChecklist, scoreGMBChecklist } from '@/utils/gmb-checklist';
+import { findMapsLinkCandidates, placeKey } from '@/utils/maps-url';
+import { namesMatch, normalizePhone } from '@/utils/nap-extractor';
+import { ownerResponseRate } from '@/utils/review-analysis';
+import { SerpListing, SerpProvider } from '@/utils/serp-provider';
+
+// Each lookup is a provider request; past the best few, links are rarely the listing
+const MAX_LINK_LOOKUPS = 3;
+
+// NAP similarity needed to accept a search results listing
+const SERP_PHONE_POINTS = 3;
+const SERP_NAME_POINTS = 2;
+const SERP_CITY_POINTS = 1;
+const SERP_MATCH_THRESHOLD = 3;
 
 /**
- * Analyzes the Google My Business profile for a given website.
+ * Analyzes the Google Business Profile for a given website.
  * Follows a hierarchy:
- * 1. Direct Link Extraction (from HTML)
- * 2. API Search (Placeholder)
+ * 1. Direct Link: the Maps links on the site (schema.org hasMap/sameAs, map
+ *    embeds, anchors) that carry a place id or CID, most likely listing first
+ * 2. API Search: the provider's best match for the business name, city and phone
+ * 3. SERP Fallback: the knowledge panel or local pack listing whose name,
+ *    phone and city match the site, for businesses Places search misses
+ *
+ * NOT_FOUND means every configured stage answered and none found the business.
+ * When a stage fails instead, the profile is UNAVAILABLE: we don't know whether
+ * one exists, so it must not be reported as missing. Stages without a provider
+ * are skipped; with no provider at all the profile is UNAVAILABLE too.
  */
-export async function analyzeGMB(html: string, businessName: string): Promise<GMBProfile> {
-    // 1. Method A: Direct Link Extraction
-    const directLink = findGMBLink(html);
-    if (directLink) {
-        // In a real app, we would then scrape this GMB URL or use the Place ID from it.
-        // For this V8 implementation, we will simulate fetching data from this link.
-        return simulateGMBData(directLink, 'DIRECT_LINK');
+export async function analyzeGMB(
+    html: string,
+    query: GMBSearchQuery,
+    structuredData: StructuredData | undefined,
+    provider: GMBProvider | null,
+    serpProvider: SerpProvider | null = null
+): Promise<GMBProfile> {
+    if (!provider && !serpProvider) {
+        return unavailableProfile(undefined, 'no Google Business Profile provider is configured');
     }
 
-    // 2. Method B: API Search (Placeholder)
-    // Only if direct link is not found
-    return await searchGMBViaAPI(businessName);
-}
+    let failure: { providerId: string; reason: string } | undefined;
 
-/**
- * Scans HTML for Google Maps/Business links
- */
-function findGMBLink(html: string): string | null {
-    const $ = cheerio.load(html);
-    let foundLink: string | null = null;
-
-    // Search all anchor tags
-    $('a').each((_, element) => {
-        const href = $(element).attr('href');
-        if (href) {
-            if (
-                href.includes('maps.google.com') ||
-                href.includes('g.page') ||
-                href.includes('google.com/maps')
-            ) {
-                foundLink = href;
-                return false; // Break loop
-            }
+    if (provider) {
+        try {
+            const profile = await findThroughPlaces(html, query, structuredData, provider);
+            if (profile) return profile;
+        } catch (error) {
+            if (!(error instanceof GMBProviderError)) throw error;
+            failure = { providerId: provider.id, reason: error.message };
+        }
+    }
+
+    if (serpProvider) {
+        try {
+            const listing = await findInSearchResults(query, serpProvider);
+            // Places only fills in details here; a failing Places provider has already said so
+            if (listing) return await serpProfile(listing, serpProvider.id, failure ? null : provider, query);
+        } catch (error) {
+            if (!(error instanceof GMBProviderError)) throw error;
+            failure ??= { providerId: serpProvider.id, reason: error.message };
         }
+    }
+
+    if (failure) {
+        return unavailableProfile(failure.providerId, failure.reason);
+    }
+    const lastProvider = serpProvider ?? provider;
+    return { found: false, method: 'NOT_FOUND', provider: lastProvider?.id, fetchedAt: new Date().toISOString(), score: 0 };
+}
+
+async function findThroughPlaces(
+    html: string,
+    query: GMBSearchQuery,
+    structuredData: StructuredData | undefined,
+    provider: GMBProvider
+): Promise<GMBProfile | null> {
+    // 1. Method A: Direct Link Extraction. Links that rank below zero
+    // (directions to somewhere else, another business's name) are skipped.
+    const candidates = await findMapsLinkCandidates(html, structuredData, query.name);
+    const keys = new Set<string>();
+    const linkedPlaces = candidates.filter(candidate => {
+        const key = placeKey(candidate);
+        if (!key || candidate.score < 0 || keys.has(key)) return false;
+        keys.add(key);
+        return true;
     });
+    for (const link of linkedPlaces.slice(0, MAX_LINK_LOOKUPS)) {
+        const linked = await provider.lookup(link, query);
+        if (linked) {
+            return toProfile({ ...linked, url: linked.url || link.url }, 'DIRECT_LINK', provider.id);
+        }
+    }
 
-    return foundLink;
+    // 2. Method B: API Search, when there is no link or none resolves to a place
+    const match = await provider.search(query);
+    return match ? toProfile(match, 'API_SEARCH', provider.id) : null;
 }
 
 /**
- * Placeholder for Google Places API search
+ * 3. Method C: searches for the name and city, then for the phone number,
+ * and returns the first listing that matches the site's NAP.
  */
-async function searchGMBViaAPI(businessName: string): Promise<GMBProfile> {
-    // In a real implementation, this would call:
-    // https://maps.googleapis.com/maps/api/place/findplacefromtext/json?input=${businessName}&inputtype=textquery&fields=place_id&key=${process.env.MAPS_API_KEY}
-
-    // For V8 demo purposes, we will simulate a "Not Found" or "Found" based on randomness or specific keywords
-    // to allow the user to test both scenarios.
-
-    // If business name contains "test", we simulate a perfect profile
-    if (businessName.toLowerCase().includes('test')) {
-        return {
-            found: true,
-            name: businessName,
-            url: 'https://maps.google.com/?q=test',
-            rating: 4.9,
-            reviewCount: 150,
-            lastReviewDate: new Date().toISOString(), // Today
-            responseRate: 100,
-            photosCount: 25,
-            claimed: true,
-            method: 'API_SEARCH',
-            score: 98
-        };
+async function findInSearchResults(query: GMBSearchQuery, serpProvider: SerpProvider): Promise<SerpListing | null> {
+    const searches = [[query.name, query.location].filter(Boolean).join(' '), query.phone].filter((search): search is string => Boolean(search));
+    for (const search of searches) {
+        const match = matchSerpListing(await serpProvider.searchLocal(search), query);
+        if (match) return match;
     }
-
-    // Default: Return "Not Found" to trigger the "Critical Authority Signal Missing" state
-    // as requested by the user to show the "Reputation Resurrection" offer.
-    return {
-        found: false,
-        method: 'NOT_FOUND',
-        score: 0
-    };
+    return null;
 }
 
 /**
- * Simulates fetching data from a found GMB link
+ * The listing that best matches the business. A phone number match is enough
+ * on its own; a name match also needs the city, since franchises and namesakes
+ * share names. Ties go to the knowledge panel, then local pack order.
  */
-function simulateGMBData(url: string, method: 'DIRECT_LINK'): GMBProfile {
-    // Simulate a "High Quality" profile to fix discrepancy
-    // User requested: 4.8 rating and 500+ reviews
-    const rating = 4.8;
-    const reviewCount = 523;
-    const lastReviewDate = new Date().toISOString(); // Today
-    const responseRate = 95; // High response rate
+function matchSerpListing(listings: SerpListing[], query: GMBSearchQuery): SerpListing | null {
+    const city = query.location?.split(',')[0].trim().toLowerCase();
+    let best: { listing: SerpListing; similarity: number } | null = null;
+
+    for (const listing of listings) {
+        let similarity = 0;
+        if (query.phone && listing.phone && normalizePhone(listing.phone) === query.phone) similarity += SERP_PHONE_POINTS;
+        if (listing.name && namesMatch(listing.name, query.name)) similarity += SERP_NAME_POINTS;
+        if (city && listing.address?.toLowerCase().includes(city)) similarity += SERP_CITY_POINTS;
+
+        if (similarity >= SERP_MATCH_THRESHOLD && (!best || similarity > best.similarity)) {
+            best = { listing, similarity };
+        }
+    }
+    return best?.listing ?? null;
+}
 
-    const score = calculateGMBScore(rating, reviewCount, lastReviewDate, responseRate);
+async function serpProfile(
+    listing: SerpListing,
+    serpProviderId: string,
+    provider: GMBProvider | null,
+    query: GMBSearchQuery
+): Promise<GMBProfile> {
+    const url = listing.placeId
+        ? `https://www.google.com/maps/place/?q=place_id:${listing.placeId}`
+        : listing.cid ? `https://maps.google.com/?cid=${listing.cid}` : undefined;
+
+    // The results identify the place; Places has the fuller profile when it can look it up
+    if (provider && url) {
+        try {
+            const place = await provider.lookup({ url, kind: 'place', placeId: listing.placeId, cid: listing.cid, name: listing.name }, query);
+            if (place) return toProfile({ ...place, url: place.url || url }, 'SERP_FALLBACK', provider.id);
+        } catch (error) {
+            if (!(error instanceof GMBProviderError)) throw error;
+        }
+    }
 
+    const { source, position, cid, ...fields } = listing;
+    const checklist = buildGMBChecklist(listing);
     return {
         found: true,
+        ...fields,
         url,
-        name: 'Detected Business',
-        rating,
-        reviewCount,
-        lastReviewDate,
-        responseRate,
-        photosCount: 45,
-        claimed: true,
+        placeId: listing.placeId ?? cid,
+        method: 'SERP_FALLBACK',
+        provider: serpProviderId,
+        fetchedAt: new Date().toISOString(),
+        checklist,
+        score: scoreGMBChecklist(checklist),
+    };
+}
+
+function toProfile(place: GMBPlace, method: 'DIRECT_LINK' | 'API_SEARCH' | 'SERP_FALLBACK', providerId: string): GMBProfile {
+    // Providers that return owner replies give us the real response rate
+    const { placeId, ...fields } = { ...place, responseRate: place.responseRate ?? ownerResponseRate(place.reviews ?? []) };
+    const checklist = buildGMBChecklist(fields);
+    return {
+        found: true,
+        ...fields,
+        placeId,
         method,
-        score
+        provider: providerId,
+        fetchedAt: new Date().toISOString(),
+        checklist,
+        score: scoreGMBChecklist(checklist),
     };
 }
 
-/**
- * Calculates the internal GMB score (0-100)
- */
-function calculateGMBScore(
-    rating: number,
-    reviewCount: number,
-    lastReviewDate: string,
-    responseRate: number
-): number {
-    let score = 0;
-
-    // 1. Rating (30 points)
-    if (rating >= 4.8) score += 30;
-    else if (rating >= 4.5) score += 25;
-    else if (rating >= 4.0) score += 15;
-    else score += 5;
-
-    // 2. Volume (30 points)
-    if (reviewCount >= 100) score += 30;
-    else if (reviewCount >= 50) score += 20;
-    else if (reviewCount >= 20) score += 10;
-    else score += 0;
-
-    // 3. Recency (20 points)
-    const daysSinceReview = (Date.now() - new Date(lastReviewDate).getTime()) / (1000 * 60 * 60 * 24);
-    if (daysSinceReview <= 7) score += 20;
-    else if (daysSinceReview <= 30) score += 15;
-    else if (daysSinceReview <= 90) score += 5;
-    else score += 0;
-
-    // 4. Response Rate (20 points)
-    if (responseRate >= 90) score += 20;
-    else if (responseRate >= 50) score += 10;
-    else score += 0;
-
-    return score;
+function unavailableProfile(providerId: string | undefined, reason: string): GMBProfile {
+    return {
+        found: false,
+        method: 'UNAVAILABLE',
+        ...(providerId && { provider: providerId }),
+        unavailableReason: reason,
+        score: 0,
+    };
 }
@@ -0,0 +1,222 @@
+import { GMBChecklistItem } from '@/types';
+import { GMBPlace } from '@/utils/gmb-provider';
+
+// ============================================================================
+// GOOGLE BUSINESS PROFILE CHECKLIST
+// Reputation (rating, reviews, replies) plus profile completeness (categories,
+// hours, service areas, description, photos, posts, Q&A). Items the provider
+// can't see are 'unknown' and left out of the score rather than failed.
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Google shows about 750 characters; a useful description uses a good share of them
+const GOOD_DESCRIPTION_LENGTH = 250;
+const GOOD_PHOTO_COUNT = 10;
+const RECENT_POST_DAYS = 30; // Posts drop out of the profile's updates after a while
+
+type ChecklistInput = Omit<GMBPlace, 'placeId' | 'name'>;
+
+// points, passed, detail; null when the provider can't see the item
+type ItemResult = { points: number; passed: boolean; detail: string } | null;
+
+interface ChecklistRule {
+  id: string;
+  group: GMBChecklistItem['group'];
+  label: string;
+  maxPoints: number;
+  evaluate: (place: ChecklistInput) => ItemResult;
+}
+
+const CHECKLIST: ChecklistRule[] = [
+  // Reputation
+  {
+    id: 'rating',
+    group: 'reputation',
+    label: 'Rating of 4.5 or higher',
+    maxPoints: 30,
+    evaluate: ({ rating = 0 }) => ({
+      points: rating >= 4.8 ? 30 : rating >= 4.5 ? 25 : rating >= 4.0 ? 15 : rating > 0 ? 5 : 0,
+      passed: rating >= 4.5,
+      detail: rating > 0 ? `${rating} stars` : 'No rating yet',
+    }),
+  },
+  {
+    id: 'review_volume',
+    group: 'reputation',
+    label: '50+ reviews',
+    maxPoints: 30,
+    evaluate: ({ reviewCount = 0 }) => ({
+      points: reviewCount >= 100 ? 30 : reviewCount >= 50 ? 20 : reviewCount >= 20 ? 10 : 0,
+      passed: reviewCount >= 50,
+      detail: `${reviewCount} review${reviewCount === 1 ? '' : 's'}`,
+    }),
+  },
+  {
+    id: 'review_recency',
+    group: 'reputation',
+    label: 'A review in the last 30 days',
+    maxPoints: 20,
+    evaluate: ({ lastReviewDate, reviewCount = 0 }) => {
+      // A profile without reviews has nothing recent; otherwise we need a date
+      if (!lastReviewDate && reviewCount > 0) return null;
+      const days = lastReviewDate ? daysSince(lastReviewDate) : Infinity;
+      return {
+        points: days <= 7 ? 20 : days <= 30 ? 15 : days <= 90 ? 5 : 0,
+        passed: days <= 30,
+        detail: Number.isFinite(days) ? `Newest review ${Math.round(days)} days ago` : 'No reviews',
+      };
+    },
+  },
+  {
+    id: 'review_responses',
+    group: 'reputation',
+    label: 'Owner replies to reviews',
+    maxPoints: 20,
+    evaluate: ({ responseRate }) => responseRate === undefined ? null : {
+      points: responseRate >= 90 ? 20 : responseRate >= 50 ? 10 : 0,
+      passed: responseRate >= 50,
+      detail: `${responseRate}% of reviews answered`,
+    },
+  },
+
+  // Completeness
+  {
+    id: 'claimed',
+    group: 'completeness',
+    label: 'Claimed by the owner',
+    maxPoints: 10,
+    evaluate: ({ claimed }) => claimed === undefined ? null : {
+      points: claimed ? 10 : 0,
+      passed: claimed,
+      detail: claimed ? 'Verified owner' : 'Unclaimed: anyone can suggest edits',
+    },
+  },
+  {
+    id: 'categories',
+    group: 'completeness',
+    label: 'Primary and secondary categories',
+    maxPoints: 10,
+    evaluate: ({ categories }) => categories === undefined ? null : {
+      points: categories.length >= 2 ? 10 : categories.length === 1 ? 5 : 0,
+      passed: categories.length >= 2,
+      detail: categories.length === 0 ? 'No category'
+        : categories.length === 1 ? `Only "${categories[0]}"` : categories.join(', '),
+    },
+  },
+  {
+    id: 'hours',
+    group: 'completeness',
+    label: 'Business hours',
+    maxPoints: 10,
+    evaluate: ({ hours }) => hours === undefined ? null : {
+      points: hours.length > 0 ? 10 : 0,
+      passed: hours.length > 0,
+      detail: hours.length > 0 ? `${hours.length} days listed` : 'No hours listed',
+    },
+  },
+  {
+    id: 'service_areas',
+    group: 'completeness',
+    label: 'Service areas',
+    maxPoints: 5,
+    evaluate: ({ serviceAreas }) => serviceAreas === undefined ? null : {
+      points: serviceAreas.length > 0 ? 5 : 0,
+      passed: serviceAreas.length > 0,
+      detail: serviceAreas.length > 0 ? serviceAreas.join(', ') : 'No service areas',
+    },
+  },
+  {
+    id: 'description',
+    group: 'completeness',
+    label: `Description of ${GOOD_DESCRIPTION_LENGTH}+ characters`,
+    maxPoints: 10,
+    evaluate: ({ description }) => {
+      if (description === undefined) return null;
+      const length = description.trim().length;
+      return {
+        points: length >= GOOD_DESCRIPTION_LENGTH ? 10 : length > 0 ? 5 : 0,
+        passed: length >= GOOD_DESCRIPTION_LENGTH,
+        detail: length > 0 ? `${length} characters` : 'No description',
+      };
+    },
+  },
+  {
+    id: 'photos',
+    group: 'completeness',
+    label: `${GOOD_PHOTO_COUNT}+ photos`,
+    maxPoints: 10,
+    evaluate: ({ photosCount }) => photosCount === undefined ? null : {
+      points: photosCount >= GOOD_PHOTO_COUNT ? 10 : photosCount >= 3 ? 5 : 0,
+      passed: photosCount >= GOOD_PHOTO_COUNT,
+      detail: `${photosCount} photo${photosCount === 1 ? '' : 's'}`,
+    },
+  },
+  {
+    id: 'posts',
+    group: 'completeness',
+    label: `A post in the last ${RECENT_POST_DAYS} days`,
+    maxPoints: 10,
+    evaluate: ({ postsCount, lastPostDate }) => {
+      if (postsCount === undefined && lastPostDate === undefined) return null;
+      const days = lastPostDate ? daysSince(lastPostDate) : Infinity;
+      return {
+        points: days <= RECENT_POST_DAYS ? 10 : (postsCount ?? 0) > 0 || lastPostDate ? 5 : 0,
+        passed: days <= RECENT_POST_DAYS,
+        detail: lastPostDate ? `Newest post ${Math.round(days)} days ago` : (postsCount ?? 0) > 0 ? `${postsCount} posts` : 'No posts',
+      };
+    },
+  },
+  {
+    id: 'questions',
+    group: 'completeness',
+    label: 'Questions answered',
+    maxPoints: 5,
+    evaluate: ({ questionsCount, answeredQuestions = 0 }) => {
+      if (questionsCount === undefined) return null;
+      // No questions yet: the owner can seed the common ones
+      const passed = questionsCount > 0 && answeredQuestions >= questionsCount;
+      return {
+        points: passed ? 5 : 0,
+        passed,
+        detail: questionsCount === 0 ? 'No questions' : `${answeredQuestions} of ${questionsCount} answered`,
+      };
+    },
+  },
+];
+
+/**
+ * Evaluates every checklist item for the place.
+ */
+export function buildGMBChecklist(place: ChecklistInput): GMBChecklistItem[] {
+  return CHECKLIST.map(rule => {
+    const result = rule.evaluate(place);
+    if (!result) {
+      return { id: rule.id, group: rule.group, label: rule.label, status: 'unknown', points: 0, maxPoints: rule.maxPoints, detail: 'Not visible to the data provider' };
+    }
+    return {
+      id: rule.id,
+      group: rule.group,
+      label: rule.label,
+      status: result.passed ? 'pass' : 'fail',
+      points: result.points,
+      maxPoints: rule.maxPoints,
+      detail: result.detail,
+    };
+  });
+}
+
+/**
+ * The GMB score (0-100): points earned out of the points possible on the items
+ * the provider could see.
+ */
+export function scoreGMBChecklist(items: GMBChecklistItem[]): number {
+  const known = items.filter(item => item.status !== 'unknown');
+  const possible = known.reduce((sum, item) => sum + item.maxPoints, 0);
+  const earned = known.reduce((sum, item) => sum + item.points, 0);
+  return possible > 0 ? Math.round((earned / possible) * 100) : 0;
+}
+
+function daysSince(date: string): number {
+  return (Date.now() - new Date(date).getTime()) / DAY_MS;
+}
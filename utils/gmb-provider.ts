@@ -0,0 +1,299 @@
+import { readFileSync } from 'fs';
+import { GMBReview } from '@/types';
+import { namesMatch, normalizePhone } from '@/utils/nap-extractor';
+import { MapsLink, parseMapsUrl } from '@/utils/maps-url';
+
+// ============================================================================
+// GOOGLE BUSINESS PROFILE PROVIDERS
+// analyzeGMB asks a provider for the place; providers only fetch and map data.
+// A provider throws GMBProviderError when it cannot answer (bad key, quota,
+// network), which is reported as "data unavailable" rather than "not found".
+// ============================================================================
+
+/**
+ * What we know about the business when searching for its profile.
+ * `name` should be the business name (schema.org / NAP), not the page title.
+ */
+export interface GMBSearchQuery {
+  name: string;
+  location?: string; // "City, ST"
+  phone?: string; // E.164
+}
+
+// A place as the provider returned it, before analyzeGMB scores it
+export interface GMBPlace {
+  placeId: string;
+  name: string;
+  url?: string; // Google Maps link
+  phone?: string;
+  address?: string;
+  rating?: number;
+  reviewCount?: number;
+  lastReviewDate?: string; // ISO; newest review the provider returned
+  responseRate?: number; // 0-100; not every provider can see owner replies
+  photosCount?: number;
+  claimed?: boolean;
+  categories?: string[]; // Primary category first
+  hours?: string[]; // One line per day; [] when none are listed
+  serviceAreas?: string[];
+  description?: string;
+  postsCount?: number;
+  lastPostDate?: string; // ISO
+  questionsCount?: number;
+  answeredQuestions?: number;
+  reviews?: GMBReview[]; // Texts with dates and, where the provider sees them, owner replies
+  // Leave a field undefined when the provider can't see it; it is then not scored
+}
+
+export interface GMBProvider {
+  id: string;
+  /**
+   * The place a parsed Google Maps link points to, or null when the link can't
+   * be resolved to one. The query helps providers that can't look up a CID directly.
+   */
+  lookup(link: MapsLink, query: GMBSearchQuery): Promise<GMBPlace | null>;
+  /** Best match for the business, or null when nothing matches. */
+  search(query: GMBSearchQuery): Promise<GMBPlace | null>;
+}
+
+/**
+ * Thrown by a provider that could not answer. The message is shown to the
+ * user, so it says what failed without leaking keys or URLs.
+ */
+export class GMBProviderError extends Error {
+  constructor(public readonly providerId: string, message: string, public readonly httpStatus?: number) {
+    super(message);
+    this.name = 'GMBProviderError';
+  }
+}
+
+/**
+ * The provider the environment configures: Google Places when
+ * GOOGLE_PLACES_API_KEY is set, otherwise the places listed in
+ * GMB_FIXTURE_FILE (local development). Null when neither is set.
+ */
+export function createGMBProviderFromEnv(env: NodeJS.ProcessEnv = process.env): GMBProvider | null {
+  if (env.GOOGLE_PLACES_API_KEY) {
+    return createGooglePlacesProvider({ apiKey: env.GOOGLE_PLACES_API_KEY });
+  }
+  if (env.GMB_FIXTURE_FILE) {
+    const places: GMBPlace[] = JSON.parse(readFileSync(env.GMB_FIXTURE_FILE, 'utf8'));
+    return createFixtureGMBProvider(places);
+  }
+  return null;
+}
+
+// ============================================================================
+// GOOGLE PLACES (places.googleapis.com/v1)
+// ============================================================================
+
+const PLACES_API_URL = 'https://places.googleapis.com/v1';
+const PLACES_TIMEOUT_MS = 8000;
+const MAX_SEARCH_RESULTS = 5;
+
+const PLACE_FIELDS = [
+  'id',
+  'displayName',
+  'formattedAddress',
+  'internationalPhoneNumber',
+  'rating',
+  'userRatingCount',
+  'reviews',
+  'photos',
+  'googleMapsUri',
+  'primaryTypeDisplayName',
+  'types',
+  'regularOpeningHours',
+];
+
+// Types every business carries; they say nothing about the category
+const GENERIC_PLACE_TYPES = new Set(['point_of_interest', 'establishment', 'store', 'food', 'health']);
+
+// The subset of the Places API (New) Place resource we request
+interface PlacesApiPlace {
+  id: string;
+  displayName?: { text: string };
+  formattedAddress?: string;
+  internationalPhoneNumber?: string;
+  rating?: number;
+  userRatingCount?: number;
+  reviews?: {
+    publishTime?: string;
+    rating?: number;
+    text?: { text?: string };
+    originalText?: { text?: string };
+    authorAttribution?: { displayName?: string };
+  }[];
+  photos?: unknown[];
+  googleMapsUri?: string;
+  primaryTypeDisplayName?: { text: string };
+  types?: string[];
+  regularOpeningHours?: { weekdayDescriptions?: string[] };
+}
+
+export interface GooglePlacesOptions {
+  apiKey: string;
+  baseUrl?: string; // Tests point this at a local server
+}
+
+export function createGooglePlacesProvider({ apiKey, baseUrl = PLACES_API_URL }: GooglePlacesOptions): GMBProvider {
+  const id = 'google-places';
+
+  const request = async <T>(path: string, fields: string[], body?: object): Promise<T> => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method: body ? 'POST' : 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Goog-Api-Key': apiKey,
+          'X-Goog-FieldMask': fields.join(','),
+        },
+        body: body ? JSON.stringify(body) : undefined,
+        signal: AbortSignal.timeout(PLACES_TIMEOUT_MS),
+      });
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === 'TimeoutError';
+      throw new GMBProviderError(id, timedOut ? 'Google Places did not respond in time' : 'Google Places could not be reached');
+    }
+
+    if (!response.ok) {
+      throw new GMBProviderError(id, describePlacesStatus(response.status), response.status);
+    }
+    try {
+      return await response.json() as T;
+    } catch {
+      // A proxy's HTML page, a truncated body, or the timeout firing mid-read
+      throw new GMBProviderError(id, 'Google Places returned an unreadable response', response.status);
+    }
+  };
+
+  const searchText = async (textQuery: string): Promise<PlacesApiPlace[]> => {
+    const { places = [] } = await request<{ places?: PlacesApiPlace[] }>(
+      '/places:searchText',
+      PLACE_FIELDS.map(field => `places.${field}`),
+      { textQuery, maxResultCount: MAX_SEARCH_RESULTS }
+    );
+    return places;
+  };
+
+  return {
+    id,
+    async lookup(link, query) {
+      if (link.placeId) {
+        try {
+          return toGMBPlace(await request<PlacesApiPlace>(`/places/${encodeURIComponent(link.placeId)}`, PLACE_FIELDS));
+        } catch (error) {
+          // A stale or malformed id in the link: fall back to searching
+          if (error instanceof GMBProviderError && (error.httpStatus === 400 || error.httpStatus === 404)) return null;
+          throw error;
+        }
+      }
+      if (link.cid) {
+        // Places has no CID lookup, but every result's googleMapsUri carries its CID
+        const places = await searchText([link.name || query.name, query.location].filter(Boolean).join(' '));
+        const match = places.find(place => place.googleMapsUri && parseMapsUrl(place.googleMapsUri)?.cid === link.cid);
+        return match ? toGMBPlace(match) : null;
+      }
+      return null;
+    },
+    async search(query) {
+      const places = await searchText([query.name, query.location].filter(Boolean).join(' '));
+      // The business's own phone number beats Google's relevance order
+      const byPhone = query.phone
+        ? places.find(place => place.internationalPhoneNumber && normalizePhone(place.internationalPhoneNumber) === query.phone)
+        : undefined;
+      // Text search always returns something; the top result only counts if it carries the name
+      const top = places[0];
+      const byName = top?.displayName?.text && namesMatch(top.displayName.text, query.name) ? top : undefined;
+      const match = byPhone ?? byName;
+      return match ? toGMBPlace(match) : null;
+    },
+  };
+}
+
+function describePlacesStatus(status: number): string {
+  if (status === 401 || status === 403) return `Google Places rejected the API key (HTTP ${status})`;
+  if (status === 429) return 'Google Places quota exceeded';
+  return `Google Places returned HTTP ${status}`;
+}
+
+function toGMBPlace(place: PlacesApiPlace): GMBPlace {
+  const reviewDates = (place.reviews ?? [])
+    .map(review => review.publishTime)
+    .filter((date): date is string => Boolean(date))
+    .sort();
+  const categories = [
+    place.primaryTypeDisplayName?.text,
+    ...(place.types ?? []).filter(type => !GENERIC_PLACE_TYPES.has(type)).map(type => type.replace(/_/g, ' ')),
+  ].filter((category): category is string => Boolean(category));
+
+  return {
+    placeId: place.id,
+    name: place.displayName?.text ?? '',
+    url: place.googleMapsUri,
+    phone: place.internationalPhoneNumber,
+    address: place.formattedAddress,
+    rating: place.rating,
+    reviewCount: place.userRatingCount,
+    // The API returns at most five reviews, so this is the newest of those
+    lastReviewDate: reviewDates[reviewDates.length - 1],
+    // ...and at most ten photo references
+    photosCount: place.photos?.length,
+    categories: categories.filter((category, index) =>
+      categories.findIndex(other => other.toLowerCase() === category.toLowerCase()) === index),
+    // Places omits the field when no hours are set. Owner descriptions, posts, Q&A,
+    // service areas and claim status aren't in the Places API, so they stay unknown.
+    hours: place.regularOpeningHours?.weekdayDescriptions ?? [],
+    // Places has no owner replies, so ownerReply stays undefined (unknown)
+    reviews: (place.reviews ?? [])
+      .filter(review => review.text?.text || review.originalText?.text)
+      .map(review => ({
+        // text is translated to the request language, which the lexicon reads
+        text: review.text?.text || review.originalText?.text || '',
+        rating: review.rating,
+        publishedAt: review.publishTime,
+        author: review.authorAttribution?.displayName,
+      })),
+  };
+}
+
+// ============================================================================
+// FIXTURES (tests and local development)
+// ============================================================================
+
+export interface FixtureProviderOptions {
+  unavailableReason?: string; // Every lookup fails with this message
+}
+
+/**
+ * Answers from a fixed list of places: a Maps link matches by place id or by
+ * the CID in the place's URL, a search by phone number, then by business name.
+ */
+export function createFixtureGMBProvider(places: GMBPlace[], options: FixtureProviderOptions = {}): GMBProvider {
+  const id = 'fixture';
+  const assertAvailable = () => {
+    if (options.unavailableReason) throw new GMBProviderError(id, options.unavailableReason);
+  };
+
+  return {
+    id,
+    async lookup(link) {
+      assertAvailable();
+      return places.find(place =>
+        (link.placeId !== undefined && link.placeId === place.placeId)
+        || (link.cid !== undefined && place.url !== undefined && parseMapsUrl(place.url)?.cid === link.cid)) ?? null;
+    },
+    async search(query) {
+      assertAvailable();
+      const byPhone = query.phone
+        ? places.find(place => place.phone && normalizePhone(place.phone) === query.phone)
+        : undefined;
+      return byPhone ?? places.find(place => nameKey(place.name) === nameKey(query.name)) ?? null;
+    },
+  };
+}
+
+function nameKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
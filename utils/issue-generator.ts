@@ -0,0 +1,262 @@
+import { Issue, IssueEffort, Offer, Signal, SignalCategory } from '@/types';
+import { OFFER_CATALOG } from '@/utils/offer-catalog';
+import { GMB_SIGNAL_ID } from '@/utils/signal-rules';
+
+// Signals scoring below this (out of 10) become issues
+const UNDERPERFORMING_SCORE = 7;
+
+// Severity = score gap (0-1) x impact weight
+const IMPACT_WEIGHTS: Record<Issue['impact'], number> = { high: 1, medium: 0.7, low: 0.4 };
+const SEVERITY_THRESHOLDS = { high: 0.6, medium: 0.35 };
+
+const EFFORT_ESTIMATES: Record<IssueEffort, string> = {
+  'quick-win': 'Under a day',
+  moderate: '1-5 days',
+  project: '2-6 weeks',
+};
+
+interface Remediation {
+  impact: Issue['impact'];
+  effort: IssueEffort;
+  steps: string[];
+  offers: string[]; // Offer ids that address it; the first one in the report wins
+}
+
+const REMEDIATIONS: Record<string, Remediation> = {
+  // AUTHORITY
+  signal_1_review_recency_volume: {
+    impact: 'high',
+    effort: 'moderate',
+    steps: [
+      'Send a review request by text or email after every completed job or visit.',
+      'Embed a live Google reviews widget on the home page and service pages.',
+      'Reply to every new review within 48 hours.',
+    ],
+    offers: ['reputation_resurrection', 'review_management'],
+  },
+  signal_2_credential_verification: {
+    impact: 'medium',
+    effort: 'quick-win',
+    steps: [
+      'List licenses, certifications and board memberships with issuing body and number.',
+      'Add an "About" or "Our Team" section with qualifications and years in practice.',
+    ],
+    offers: ['authenticity_overhaul'],
+  },
+  signal_3_social_proof_density: {
+    impact: 'medium',
+    effort: 'moderate',
+    steps: [
+      'Add three to five named testimonials near the main call to action.',
+      'Publish one or two case studies with before/after results.',
+      'Show customer counts or years served in the hero section.',
+    ],
+    offers: ['authenticity_overhaul'],
+  },
+  signal_9_trust_badge_presence: {
+    impact: 'low',
+    effort: 'quick-win',
+    steps: [
+      'Display BBB, association or award badges in the header or footer.',
+      'State guarantees and insurance coverage next to the booking form.',
+    ],
+    offers: ['authenticity_overhaul'],
+  },
+  signal_schema_markup: {
+    impact: 'low',
+    effort: 'quick-win',
+    steps: [
+      'Add LocalBusiness JSON-LD with name, phone, address and opening hours.',
+      'Link social profiles through sameAs and fix any invalid JSON-LD blocks.',
+      'Validate the markup with Google\'s Rich Results Test.',
+    ],
+    offers: ['local_dominance'],
+  },
+  signal_nap_consistency: {
+    impact: 'medium',
+    effort: 'quick-win',
+    steps: [
+      'Pick one canonical business name, address and phone number.',
+      'Use it on every page (header, footer, contact page) and in schema markup.',
+      'Update the Google Business Profile to match.',
+    ],
+    offers: ['local_dominance'],
+  },
+  [GMB_SIGNAL_ID]: {
+    impact: 'high',
+    effort: 'moderate',
+    steps: [
+      'Claim and verify the Google Business Profile.',
+      'Complete categories, hours, services and description; add recent photos.',
+      'Post weekly updates and answer questions on the profile.',
+    ],
+    offers: ['local_dominance', 'reputation_resurrection'],
+  },
+
+  // CONTENT
+  signal_4_conversion_friction: {
+    impact: 'high',
+    effort: 'moderate',
+    steps: [
+      'Put a click-to-call phone number and a "Book now" button above the fold.',
+      'Cut contact forms down to name, phone and one question.',
+      'Remove "call during business hours only" language and offer after-hours booking.',
+    ],
+    offers: ['ai_receptionist', 'scalability_architecture'],
+  },
+  signal_5_intent_signal_strength: {
+    impact: 'medium',
+    effort: 'quick-win',
+    steps: [
+      'Lead with urgency and availability ("Same-day appointments", "Call now").',
+      'Repeat a single primary call to action in every section.',
+    ],
+    offers: [],
+  },
+  signal_7_value_proposition_clarity: {
+    impact: 'medium',
+    effort: 'quick-win',
+    steps: [
+      'Rewrite the headline to say who you serve, what you do and where.',
+      'Add one line on why customers choose you over competitors.',
+    ],
+    offers: [],
+  },
+  signal_8_mobile_experience: {
+    impact: 'medium',
+    effort: 'project',
+    steps: [
+      'Add a responsive viewport and test every page on a phone.',
+      'Make buttons and phone links large enough to tap.',
+      'Compress images and defer non-critical scripts to speed up loading.',
+    ],
+    offers: [],
+  },
+
+  signal_content_readability: {
+    impact: 'medium',
+    effort: 'moderate',
+    steps: [
+      'Rewrite long paragraphs into short sentences (under 20 words) and plain words.',
+      'Expand the landing page to at least 300 words covering services, process and FAQs.',
+      'Replace copy repeated on every page with page-specific content.',
+    ],
+    offers: ['authenticity_overhaul'],
+  },
+  signal_content_structure: {
+    impact: 'medium',
+    effort: 'quick-win',
+    steps: [
+      'Use exactly one H1 that says what you do, for whom and where.',
+      'Nest headings in order (H2 under H1, H3 under H2) without skipping levels.',
+      'Write a 30-65 character title and a 70-160 character meta description for every page.',
+    ],
+    offers: ['local_dominance'],
+  },
+  signal_technical_page_health: {
+    impact: 'medium',
+    effort: 'quick-win',
+    steps: [
+      'Remove noindex from every page that should appear in search results.',
+      'Add a self-referencing canonical tag and <html lang> to every page.',
+      'Write alt text for every meaningful image.',
+      'Load third-party scripts with async or defer instead of blocking the page.',
+    ],
+    offers: ['local_dominance'],
+  },
+  signal_technical_crawlability: {
+    impact: 'medium',
+    effort: 'quick-win',
+    steps: [
+      'Install an SSL certificate and redirect every http:// URL to https://.',
+      'Publish a robots.txt that links to an XML sitemap of every public page.',
+      'Fix or redirect internal links that return errors.',
+    ],
+    offers: ['local_dominance'],
+  },
+
+  // SYSTEMS
+  signal_6_automation_infrastructure: {
+    impact: 'high',
+    effort: 'moderate',
+    steps: [
+      'Add online booking (Calendly, Acuity or the practice-management system\'s widget).',
+      'Answer after-hours calls and chats automatically.',
+      'Follow up with every new lead by text within five minutes.',
+    ],
+    offers: ['ai_receptionist', 'scalability_architecture'],
+  },
+
+  signal_contact_channels: {
+    impact: 'high',
+    effort: 'quick-win',
+    steps: [
+      'Turn every phone number into a tap-to-call (tel:) link and put one in the header.',
+      'Add a "Text us" (sms:) or WhatsApp link next to the phone number.',
+      'Offer live chat or an AI receptionist that answers when nobody can pick up.',
+    ],
+    offers: ['ai_receptionist'],
+  },
+
+  // HYPERGROWTH
+  signal_10_growth_attribution: {
+    impact: 'medium',
+    effort: 'moderate',
+    steps: [
+      'Install Google Analytics 4 through Google Tag Manager.',
+      'Track calls, form submissions and bookings as conversions.',
+      'Use call tracking numbers per marketing channel.',
+    ],
+    offers: ['scalability_architecture'],
+  },
+};
+
+// Signals without an entry still become issues, with generic advice
+const DEFAULT_REMEDIATION: Remediation = {
+  impact: 'medium',
+  effort: 'moderate',
+  steps: ['Review the evidence for this signal and address the failed checks.'],
+  offers: [],
+};
+
+/**
+ * Turns every measured signal below 7/10 into an issue, most severe first.
+ * Severity combines the score gap with the signal's business impact.
+ */
+export function generateIssues(signals: Record<SignalCategory, Signal[]>, offers: Offer[] = []): Issue[] {
+  const recommended = new Set(offers.map(offer => offer.id));
+
+  return (Object.keys(signals) as SignalCategory[])
+    .flatMap(category => signals[category].map(signal => ({ signal, category })))
+    .filter(({ signal }) => signal.status !== 'unknown' && signal.score < UNDERPERFORMING_SCORE)
+    .map(({ signal, category }) => {
+      const remediation = REMEDIATIONS[signal.id] ?? DEFAULT_REMEDIATION;
+      const gap = (10 - signal.score) / 10;
+      const severityScore = Math.round(gap * IMPACT_WEIGHTS[remediation.impact] * 100) / 100;
+      const offerId = remediation.offers.find(id => recommended.has(id)) ?? remediation.offers[0];
+      const offer = OFFER_CATALOG.offers.find(definition => definition.id === offerId);
+
+      const issue: Issue = {
+        id: `${category}_${signal.id}`,
+        label: signal.notes,
+        severity: severityScore >= SEVERITY_THRESHOLDS.high ? 'high' : severityScore >= SEVERITY_THRESHOLDS.medium ? 'medium' : 'low',
+        signalId: signal.id,
+        signalLabel: signal.label,
+        category,
+        score: signal.score,
+        impact: remediation.impact,
+        severityScore,
+        remediation: remediation.steps,
+        effort: remediation.effort,
+        effortEstimate: EFFORT_ESTIMATES[remediation.effort],
+      };
+      if (offer) issue.offer = { id: offer.id, label: offer.label };
+      return issue;
+    })
+    // Ties: quicker fixes first
+    .sort((a, b) => b.severityScore - a.severityScore || effortRank(a.effort) - effortRank(b.effort));
+}
+
+function effortRank(effort: IssueEffort): number {
+  return (Object.keys(EFFORT_ESTIMATES) as IssueEffort[]).indexOf(effort);
+}
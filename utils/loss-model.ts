@@ -0,0 +1,217 @@
+import { LossAssumption, LossModelInputs, LossRange, MonetizedLoss, OfferPricing, ROIProjection } from '@/types';
+
+// Kept free of server-only imports so the report can recompute losses in the browser
+
+interface LossProfile {
+  label: string;
+  defaults: LossModelInputs;
+}
+
+// Industry defaults. Call volumes are for a typical single-location business;
+// average ticket is first-visit/first-job revenue, not lifetime value.
+const LOSS_PROFILES: Record<string, LossProfile> = {
+  default: {
+    label: 'General local business',
+    defaults: { monthlyCallVolume: 300, afterHoursShare: 0.25, missedCallRate: 0.2, closeRate: 0.3, averageTicket: 250 },
+  },
+  dental: {
+    label: 'Dental practice',
+    defaults: { monthlyCallVolume: 400, afterHoursShare: 0.2, missedCallRate: 0.25, closeRate: 0.3, averageTicket: 600 },
+  },
+  medical: {
+    label: 'Medical clinic',
+    defaults: { monthlyCallVolume: 500, afterHoursShare: 0.2, missedCallRate: 0.25, closeRate: 0.3, averageTicket: 350 },
+  },
+  legal: {
+    label: 'Law firm',
+    defaults: { monthlyCallVolume: 150, afterHoursShare: 0.3, missedCallRate: 0.3, closeRate: 0.15, averageTicket: 3500 },
+  },
+  auto: {
+    label: 'Auto repair shop',
+    defaults: { monthlyCallVolume: 300, afterHoursShare: 0.25, missedCallRate: 0.2, closeRate: 0.4, averageTicket: 450 },
+  },
+  home_services: {
+    label: 'Home services contractor',
+    defaults: { monthlyCallVolume: 250, afterHoursShare: 0.35, missedCallRate: 0.25, closeRate: 0.45, averageTicket: 400 },
+  },
+  real_estate: {
+    label: 'Real estate agency',
+    defaults: { monthlyCallVolume: 120, afterHoursShare: 0.3, missedCallRate: 0.3, closeRate: 0.1, averageTicket: 8000 },
+  },
+  property_management: {
+    label: 'Property management / corporate housing',
+    defaults: { monthlyCallVolume: 600, afterHoursShare: 0.35, missedCallRate: 0.25, closeRate: 0.2, averageTicket: 2000 },
+  },
+  food: {
+    label: 'Restaurant / cafe',
+    defaults: { monthlyCallVolume: 600, afterHoursShare: 0.3, missedCallRate: 0.3, closeRate: 0.6, averageTicket: 45 },
+  },
+  retail: {
+    label: 'Retail store',
+    defaults: { monthlyCallVolume: 200, afterHoursShare: 0.25, missedCallRate: 0.2, closeRate: 0.4, averageTicket: 80 },
+  },
+};
+
+// detectedBusinessType -> loss profile
+const BUSINESS_TYPE_LOSS_PROFILES: Record<string, string> = {
+  'Dentist': 'dental',
+  'Clinic': 'medical',
+  'Law Firm': 'legal',
+  'Auto Repair': 'auto',
+  'Plumber': 'home_services',
+  'Electrician': 'home_services',
+  'HVAC': 'home_services',
+  'Real Estate': 'real_estate',
+  'Property Management': 'property_management',
+  'Restaurant': 'food',
+  'Cafe': 'food',
+  'Retail': 'retail',
+};
+
+// Low/high scenarios move call volume and close rate by this much in each direction
+const RANGE_SPREAD = 0.25;
+
+const INPUT_LABELS: Record<keyof LossModelInputs, string> = {
+  monthlyCallVolume: 'Inbound calls per month',
+  afterHoursShare: 'Share of calls after hours',
+  missedCallRate: 'Business-hours calls missed',
+  closeRate: 'Answered leads that become customers',
+  averageTicket: 'Average ticket',
+};
+
+const RATE_INPUTS: (keyof LossModelInputs)[] = ['afterHoursShare', 'missedCallRate', 'closeRate'];
+
+export class LossModelInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LossModelInputError';
+  }
+}
+
+export function getLossDefaults(businessType?: string | null): { profileId: string; label: string; defaults: LossModelInputs } {
+  const profileId = (businessType && BUSINESS_TYPE_LOSS_PROFILES[businessType]) || 'default';
+  const profile = LOSS_PROFILES[profileId];
+  return { profileId, label: profile.label, defaults: { ...profile.defaults } };
+}
+
+/**
+ * Missed-call revenue: every after-hours call plus the missed share of
+ * business-hours calls, times close rate and average ticket. Industry defaults
+ * fill any input the caller did not supply.
+ */
+export function calculateLossModel(businessType?: string | null, overrides: Partial<LossModelInputs> = {}): MonetizedLoss {
+  const { label, defaults } = getLossDefaults(businessType);
+  const provided = definedOnly(overrides);
+  return buildLossModel(label, { ...defaults, ...provided }, Object.keys(provided) as (keyof LossModelInputs)[]);
+}
+
+/**
+ * Re-runs the model with some inputs changed (e.g. from the ROI calculator).
+ * Inputs that differ from the base are reported as overrides.
+ */
+export function adjustLossModel(base: MonetizedLoss, adjustments: Partial<LossModelInputs>): MonetizedLoss {
+  const inputs: LossModelInputs = { ...base.inputs, ...definedOnly(adjustments) };
+  const overridden = base.assumptions
+    .filter(assumption => assumption.source === 'override' || inputs[assumption.key] !== base.inputs[assumption.key])
+    .map(assumption => assumption.key);
+  return buildLossModel(base.industry, inputs, overridden);
+}
+
+/**
+ * Payback of an offer that recovers the expected monthly loss: setup fee
+ * divided by what is left after the monthly fee. Null when it never pays back.
+ */
+export function projectROI(loss: MonetizedLoss, offerId: string, pricing?: OfferPricing): ROIProjection {
+  const netMonthlyGain = loss.monthly.expected - (pricing?.monthlyFee ?? 0);
+  const paybackMonths = !pricing
+    ? null
+    : netMonthlyGain > 0
+      ? Math.round((pricing.setupFee / netMonthlyGain) * 10) / 10
+      : null;
+  return { offerId, loss, pricing, netMonthlyGain, paybackMonths };
+}
+
+export function formatPayback(projection: ROIProjection): string {
+  if (!projection.pricing) return 'No pricing available';
+  if (projection.paybackMonths === null) return 'Does not pay back at these numbers';
+  if (projection.paybackMonths < 1) return 'Under 1 month';
+  return `${projection.paybackMonths} months`;
+}
+
+function buildLossModel(industry: string, inputs: LossModelInputs, overridden: (keyof LossModelInputs)[]): MonetizedLoss {
+  const assumptions: LossAssumption[] = (Object.keys(INPUT_LABELS) as (keyof LossModelInputs)[]).map(key => ({
+    key,
+    label: INPUT_LABELS[key],
+    value: inputs[key],
+    source: overridden.includes(key) ? 'override' : 'industry-default',
+  }));
+
+  const scenario = (spread: number) => {
+    const calls = inputs.monthlyCallVolume * (1 + spread);
+    const missed = calls * (inputs.afterHoursShare + (1 - inputs.afterHoursShare) * inputs.missedCallRate);
+    const closeRate = Math.min(1, inputs.closeRate * (1 + spread));
+    return { missed, loss: missed * closeRate * inputs.averageTicket };
+  };
+  const low = scenario(-RANGE_SPREAD);
+  const expected = scenario(0);
+  const high = scenario(RANGE_SPREAD);
+
+  const monthly: LossRange = { low: roundDollars(low.loss), expected: roundDollars(expected.loss), high: roundDollars(high.loss) };
+
+  return {
+    industry,
+    inputs,
+    assumptions,
+    missedCallsPerMonth: { low: Math.round(low.missed), expected: Math.round(expected.missed), high: Math.round(high.missed) },
+    monthly,
+    annual: { low: monthly.low * 12, expected: monthly.expected * 12, high: monthly.high * 12 },
+  };
+}
+
+/**
+ * Validates caller-supplied loss inputs. Rates are fractions (0-1); volume and
+ * ticket must be non-negative. Throws LossModelInputError on anything else.
+ */
+export function parseLossInputs(value: unknown): Partial<LossModelInputs> {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new LossModelInputError('lossInputs must be an object.');
+  }
+
+  const parsed: Partial<LossModelInputs> = {};
+  for (const [key, raw] of Object.entries(value as Record<string, unknown>)) {
+    if (!Object.prototype.hasOwnProperty.call(INPUT_LABELS, key)) {
+      throw new LossModelInputError(`Unknown loss input "${key}".`);
+    }
+    const inputKey = key as keyof LossModelInputs;
+    if (typeof raw !== 'number' || !Number.isFinite(raw) || raw < 0) {
+      throw new LossModelInputError(`${INPUT_LABELS[inputKey]} must be a non-negative number.`);
+    }
+    if (RATE_INPUTS.includes(inputKey) && raw > 1) {
+      throw new LossModelInputError(`${INPUT_LABELS[inputKey]} must be a fraction between 0 and 1.`);
+    }
+    parsed[inputKey] = raw;
+  }
+  return parsed;
+}
+
+export function formatLossRange(range: LossRange): string {
+  return range.low === range.high
+    ? `$${range.expected.toLocaleString()}`
+    : `$${range.low.toLocaleString()}–$${range.high.toLocaleString()}`;
+}
+
+export function formatAssumptionValue(assumption: Pick<LossAssumption, 'key' | 'value'>): string {
+  if (RATE_INPUTS.includes(assumption.key)) return `${Math.round(assumption.value * 100)}%`;
+  if (assumption.key === 'averageTicket') return `$${assumption.value.toLocaleString()}`;
+  return assumption.value.toLocaleString();
+}
+
+function definedOnly(overrides: Partial<LossModelInputs>): Partial<LossModelInputs> {
+  return Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+}
+
+// Ranges are estimates; round to the nearest $10 so they don't read as exact
+function roundDollars(value: number): number {
+  return Math.round(value / 10) * 10;
+}
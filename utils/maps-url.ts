@@ -0,0 +1,272 @@
+import * as cheerio from 'cheerio';
+import { StructuredData } from '@/types';
+import { getPrimaryBusiness } from '@/utils/structured-data';
+import { namesMatch } from '@/utils/nap-extractor';
+import { fetchRedirectTarget } from '@/utils/scraper';
+
+// ============================================================================
+// GOOGLE MAPS LINKS
+// Every format a site links to its Google Business Profile with: place pages,
+// ?cid=, place_id:, data= and embed pb= blobs, review links and short links.
+// Links are parsed into a stable place identifier (a Places API place id or a
+// CID) and ranked by how likely they are to be the business's own listing.
+// ============================================================================
+
+export type MapsLinkKind = 'place' | 'review' | 'embed' | 'search' | 'directions' | 'short-link';
+
+export interface MapsLink {
+  url: string;
+  kind: MapsLinkKind;
+  placeId?: string; // Places API id, e.g. ChIJ...
+  cid?: string; // Decimal customer id, as in maps.google.com/?cid=
+  name?: string; // Place name or search text the link carries
+}
+
+export type MapsLinkSource = 'schema' | 'iframe' | 'anchor';
+
+export interface MapsLinkCandidate extends MapsLink {
+  source: MapsLinkSource; // Strongest place the link was found
+  linkText?: string; // Anchor text of the first anchor with this link
+  expandedFrom?: string; // Short link this was expanded from
+  occurrences: number;
+  score: number; // Higher = more likely the business's own listing
+  reasons: string[];
+}
+
+// Short links are only worth expanding a few at a time; each is a request
+const MAX_SHORT_LINK_EXPANSIONS = 3;
+const MAX_SHORT_LINK_HOPS = 3;
+
+const KIND_POINTS: Record<MapsLinkKind, number> = {
+  review: 3, // Only the owner has a reason to ask for reviews of a listing
+  place: 2,
+  embed: 2,
+  search: 1,
+  'short-link': 0,
+  directions: -1, // Often directions from the business to somewhere else
+};
+const SOURCE_POINTS: Record<MapsLinkSource, number> = { schema: 3, iframe: 1, anchor: 0 };
+
+// "0x89c259a61c75684f:0x79d31adb123348d2": the second half is the CID in hex
+const FEATURE_ID_PATTERN = /!1s(0x[0-9a-f]+):(0x[0-9a-f]+)/i;
+// Newer data= blobs carry the place id itself after !19s
+const BLOB_PLACE_ID_PATTERN = /!(?:19s|1s)(ChIJ[A-Za-z0-9_-]{16,}|GhIJ[A-Za-z0-9_-]{16,})/;
+// Embed blobs name the place after !2s
+const BLOB_NAME_PATTERN = /!2s([^!]+)/;
+const PLACE_ID_PATTERN = /^[A-Za-z0-9_-]{16,}$/;
+const COORDINATES_PATTERN = /^-?\d+(\.\d+)?,\s*-?\d+(\.\d+)?$/;
+
+/**
+ * Parses a Google Maps, review or short link. Returns null for anything that
+ * is not a link to Google Maps. Short links come back as kind 'short-link'
+ * with no identifier until expandShortLink resolves them.
+ */
+export function parseMapsUrl(href: string, base?: string): MapsLink | null {
+  let url: URL;
+  try {
+    url = new URL(href.trim(), base);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+  const host = url.hostname.toLowerCase().replace(/^www\./, '');
+  const path = url.pathname;
+  const params = url.searchParams;
+
+  if (isShortLink(host, path)) {
+    return { url: url.toString(), kind: 'short-link' };
+  }
+
+  if (host === 'search.google.com' && /^\/local\/(writereview|reviews)\b/.test(path)) {
+    return withIdentifiers({ url: url.toString(), kind: 'review' }, params.get('placeid'));
+  }
+
+  const isMaps = host === 'maps.google.com' || /^maps\.google\.[a-z.]+$/.test(host) || (/^google\.[a-z.]+$/.test(host) && path.startsWith('/maps'));
+  if (!isMaps) return null;
+
+  const link: MapsLink = { url: url.toString(), kind: mapsLinkKind(path, params) };
+
+  // Identifiers sit in the query string, the path's data= blob or an embed's pb= blob
+  const blob = safeDecode(`${path}${params.get('pb') ?? ''}`);
+  const query = params.get('q') || params.get('query') || params.get('destination') || params.get('daddr') || '';
+  const placeId = query.match(/^place_id:([A-Za-z0-9_-]+)/)?.[1]
+    || params.get('query_place_id')
+    || params.get('destination_place_id')
+    || params.get('place_id')
+    || blob.match(BLOB_PLACE_ID_PATTERN)?.[1];
+
+  const cid = params.get('cid') || params.get('ludocid');
+  if (cid && /^\d+$/.test(cid)) {
+    link.cid = cid;
+  } else {
+    const featureId = blob.match(FEATURE_ID_PATTERN);
+    if (featureId) link.cid = BigInt(featureId[2]).toString();
+  }
+
+  const name = path.match(/^\/maps\/(?:place|search)\/([^/@]+)/)?.[1] || blob.match(BLOB_NAME_PATTERN)?.[1] || query;
+  const cleanedName = safeDecode(name.replace(/\+/g, ' ')).trim();
+  if (cleanedName && !cleanedName.startsWith('place_id:') && !COORDINATES_PATTERN.test(cleanedName)) {
+    link.name = cleanedName;
+  }
+
+  return withIdentifiers(link, placeId);
+}
+
+/**
+ * The link's stable identifier: "place_id:…" when it carries a place id,
+ * otherwise "cid:…". Undefined when it only carries a name or coordinates.
+ */
+export function placeKey(link: MapsLink): string | undefined {
+  if (link.placeId) return `place_id:${link.placeId}`;
+  if (link.cid) return `cid:${link.cid}`;
+  return undefined;
+}
+
+/**
+ * Every Google Maps link the site declares or shows: schema.org hasMap and
+ * sameAs, map iframes and anchors. Links to the same place are merged.
+ * Unranked, and short links are not expanded.
+ */
+export function collectMapsLinks(html: string, structuredData?: StructuredData, baseUrl?: string): MapsLinkCandidate[] {
+  const candidates = new Map<string, MapsLinkCandidate>();
+  const add = (href: string | undefined, source: MapsLinkSource, linkText?: string) => {
+    const link = href ? parseMapsUrl(href, baseUrl) : null;
+    if (!link) return;
+    const key = placeKey(link) ?? link.url;
+    const existing = candidates.get(key);
+    if (!existing) {
+      candidates.set(key, { ...link, source, ...(linkText && { linkText }), occurrences: 1, score: 0, reasons: [] });
+      return;
+    }
+    existing.occurrences++;
+    if (SOURCE_POINTS[source] > SOURCE_POINTS[existing.source]) existing.source = source;
+    existing.linkText ??= linkText;
+  };
+
+  const business = getPrimaryBusiness(structuredData);
+  if (business) {
+    for (const link of [business.hasMap, ...business.sameAs]) add(link, 'schema');
+  }
+
+  const $ = cheerio.load(html);
+  $('iframe').each((_, element) => {
+    // Lazy-loading scripts keep the real source in data-src until the map scrolls into view
+    add($(element).attr('src') || $(element).attr('data-src'), 'iframe');
+  });
+  $('a[href]').each((_, element) => {
+    add($(element).attr('href'), 'anchor', $(element).text().replace(/\s+/g, ' ').trim() || undefined);
+  });
+
+  return Array.from(candidates.values());
+}
+
+/**
+ * Follows a short link's redirects until they reach a Maps link that names a
+ * place, without loading the Maps page itself. Null when it doesn't get there.
+ */
+export async function expandShortLink(url: string): Promise<MapsLink | null> {
+  let current = url;
+  for (let hop = 0; hop < MAX_SHORT_LINK_HOPS; hop++) {
+    const target = await fetchRedirectTarget(current);
+    if (!target) return null;
+    const link = parseMapsUrl(target);
+    if (link && link.kind !== 'short-link' && (placeKey(link) || link.name)) return link;
+    current = target;
+  }
+  return null;
+}
+
+/**
+ * Scores each candidate and sorts the most likely listing first. The business
+ * name, when known, separates the business's own listing from links to
+ * somewhere else (a parking garage, the airport).
+ */
+export function rankMapsLinks(candidates: MapsLinkCandidate[], businessName?: string): MapsLinkCandidate[] {
+  for (const candidate of candidates) {
+    const reasons: string[] = [];
+    let score = KIND_POINTS[candidate.kind] + SOURCE_POINTS[candidate.source];
+    reasons.push(`${candidate.kind} link`);
+    if (candidate.source !== 'anchor') reasons.push(`found in ${candidate.source === 'schema' ? 'schema.org markup' : 'a map embed'}`);
+
+    if (placeKey(candidate)) {
+      score += 3;
+      reasons.push('carries a place identifier');
+    }
+    if (candidate.name && businessName) {
+      if (namesMatch(candidate.name, businessName)) {
+        score += 3;
+        reasons.push('names the business');
+      } else {
+        score -= 3;
+        reasons.push(`names "${candidate.name}"`);
+      }
+    }
+    if (candidate.linkText && /\breview/i.test(candidate.linkText)) {
+      score += 1;
+      reasons.push('asks for reviews');
+    }
+    if (candidate.occurrences > 1) {
+      score += Math.min(candidate.occurrences - 1, 2);
+      reasons.push(`linked ${candidate.occurrences} times`);
+    }
+
+    candidate.score = score;
+    candidate.reasons = reasons;
+  }
+  // Stable sort: ties keep page order, schema first
+  return [...candidates].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Collects, expands and ranks the site's Maps links. Short links that can't be
+ * expanded stay in the list without an identifier.
+ */
+export async function findMapsLinkCandidates(
+  html: string,
+  structuredData: StructuredData | undefined,
+  businessName?: string
+): Promise<MapsLinkCandidate[]> {
+  const candidates = collectMapsLinks(html, structuredData);
+
+  const shortLinks = candidates.filter(candidate => candidate.kind === 'short-link').slice(0, MAX_SHORT_LINK_EXPANSIONS);
+  await Promise.all(shortLinks.map(async candidate => {
+    const expanded = await expandShortLink(candidate.url);
+    if (expanded) Object.assign(candidate, expanded, { expandedFrom: candidate.url });
+  }));
+
+  return rankMapsLinks(candidates, businessName);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isShortLink(host: string, path: string): boolean {
+  return host === 'maps.app.goo.gl'
+    || host === 'g.page'
+    || (host === 'goo.gl' && path.startsWith('/maps'))
+    || (host === 'g.co' && path.startsWith('/kgs'));
+}
+
+function mapsLinkKind(path: string, params: URLSearchParams): MapsLinkKind {
+  if (path.startsWith('/maps/embed')) return 'embed';
+  if (path.startsWith('/maps/dir') || params.has('daddr')) return 'directions';
+  if (path.startsWith('/maps/place') || params.has('cid') || params.has('ludocid')) return 'place';
+  return 'search';
+}
+
+function withIdentifiers(link: MapsLink, placeId: string | null | undefined): MapsLink {
+  if (placeId && PLACE_ID_PATTERN.test(placeId)) link.placeId = placeId;
+  // A search for a place id is a link to that place
+  if (link.kind === 'search' && link.placeId) link.kind = 'place';
+  return link;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,284 @@
+import * as cheerio from 'cheerio';
+import { GMBProfile, NAPAudit, NAPExtraction, NAPField, NAPMention, NAPMismatch, NAPRecord, NAPSource, PostalAddressData, StructuredData } from '@/types';
+import { getPrimaryBusiness } from '@/utils/structured-data';
+
+// North American numbers written any of the usual ways: (555) 123-4567, 555.123.4567, +1 555 123 4567
+const US_PHONE_PATTERN = /(?:\+?1[\s.-]?)?\(?([2-9]\d{2})\)?[\s.-]?([2-9]\d{2})[\s.-]?(\d{4})\b/g;
+
+// "123 Main St, Suite 4, Austin, TX 78701" — requires a street number and a ZIP to avoid false positives
+const STREET_ADDRESS_PATTERN = /\b\d{1,6}\s+[A-Za-z0-9.'# -]{2,60}?\b(?:street|st|avenue|ave|road|rd|boulevard|blvd|drive|dr|lane|ln|way|court|ct|parkway|pkwy|highway|hwy|place|pl|circle|cir|trail|trl|square|sq)\b\.?[A-Za-z0-9.,'# -]{0,80}?\b[A-Z]{2}\s+\d{5}(?:-\d{4})?\b/gi;
+
+const LOCALITY_PATTERN = /,\s*([A-Za-z .'-]+?),?\s+([A-Z]{2})\s+\d{5}/;
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: 'st', avenue: 'ave', road: 'rd', boulevard: 'blvd', drive: 'dr', lane: 'ln',
+  court: 'ct', parkway: 'pkwy', highway: 'hwy', place: 'pl', circle: 'cir', trail: 'trl',
+  square: 'sq', suite: 'ste', apartment: 'apt', building: 'bldg', floor: 'fl',
+  north: 'n', south: 's', east: 'e', west: 'w',
+};
+
+// Dropped when comparing business names
+const NAME_NOISE_WORDS = new Set(['the', 'llc', 'inc', 'pllc', 'pc', 'pa', 'ltd', 'co', 'corp', 'dds', 'dmd', 'md', 'esq', 'and']);
+const NAME_STOP_WORDS = new Set(['of', 'at', 'in', 'on', 'for', 'by', 'a', 'an']);
+// What a business does, not which one it is (singular): sharing only these isn't a match
+const GENERIC_NAME_WORDS = new Set([
+  'dental', 'dentistry', 'dentist', 'orthodontic', 'family', 'care', 'clinic', 'center', 'centre', 'medical', 'health',
+  'group', 'associate', 'service', 'company', 'office', 'law', 'firm', 'attorney', 'studio', 'salon', 'spa',
+  'restaurant', 'cafe', 'shop', 'store', 'plumbing', 'hvac', 'home',
+]);
+
+interface NAPSourcePage {
+  url: string;
+  html: string;
+  structuredData?: StructuredData;
+}
+
+/**
+ * Finds every name, address and phone mention on the crawled pages
+ * (tel: links, <address> blocks, footer text, schema.org and OpenGraph) and
+ * picks the most likely canonical value for each.
+ */
+export function extractNAP(pages: NAPSourcePage[]): NAPExtraction {
+  const mentions: NAPMention[] = [];
+  let schemaAddress: PostalAddressData | undefined;
+
+  for (const page of pages) {
+    const $ = cheerio.load(page.html);
+
+    // schema.org business entity
+    const business = getPrimaryBusiness(page.structuredData);
+    if (business) {
+      if (business.name) addMention(mentions, 'name', business.name, 'schema', page.url);
+      if (business.telephone) addMention(mentions, 'phone', business.telephone, 'schema', page.url);
+      const address = formatPostalAddress(business.address);
+      if (address) {
+        addMention(mentions, 'address', address, 'schema', page.url);
+        schemaAddress = schemaAddress || business.address;
+      }
+    }
+
+    const siteName = page.structuredData?.openGraph['og:site_name'];
+    if (siteName) addMention(mentions, 'name', siteName, 'opengraph', page.url);
+
+    // Click-to-call links
+    $('a[href^="tel:"]').each((_, element) => {
+      const number = decodeURIComponent(($(element).attr('href') || '').replace(/^tel:/i, ''));
+      addMention(mentions, 'phone', number, 'tel-link', page.url);
+    });
+
+    // <address> blocks
+    $('address').each((_, element) => {
+      const text = cleanText($(element).text());
+      findAddresses(text).forEach(address => addMention(mentions, 'address', address, 'address-block', page.url));
+      findPhones(text).forEach(phone => addMention(mentions, 'phone', phone, 'address-block', page.url));
+    });
+
+    // Footer text (where most sites repeat their NAP)
+    const footerText = cleanText($('footer, #footer, .footer, [class*="site-footer"]').text());
+    findAddresses(footerText).forEach(address => addMention(mentions, 'address', address, 'footer', page.url));
+    findPhones(footerText).forEach(phone => addMention(mentions, 'phone', phone, 'footer', page.url));
+  }
+
+  const primary: NAPRecord = {
+    name: pickPrimary(mentions, 'name'),
+    phone: pickPrimary(mentions, 'phone', true),
+    address: pickPrimary(mentions, 'address'),
+  };
+
+  const locality = schemaAddress?.addressLocality
+    ? { locality: schemaAddress.addressLocality, region: schemaAddress.addressRegion }
+    : parseLocality(primary.address);
+
+  return { primary: { ...primary, ...locality }, mentions };
+}
+
+/**
+ * Compares NAP mentions across pages and against the GMB profile.
+ */
+export function auditNAP(extraction: NAPExtraction, gmbProfile?: GMBProfile): NAPAudit {
+  const mismatches: NAPMismatch[] = [];
+  const { primary, mentions } = extraction;
+
+  // Across the site
+  for (const field of ['name', 'phone', 'address'] as NAPField[]) {
+    const groups = groupDistinct(mentions.filter(m => m.field === field), field);
+    if (groups.length > 1) {
+      mismatches.push({
+        field,
+        values: groups.map(group => group[0].value),
+        against: 'site',
+        detail: `${groups.length} different ${field === 'phone' ? 'phone numbers' : `${field}s`} found across the site`,
+      });
+    }
+  }
+
+  // Against Google Business Profile
+  const gmbCompared = Boolean(gmbProfile?.found);
+  if (gmbProfile?.found) {
+    const gmbPhone = gmbProfile.phone ? normalizePhone(gmbProfile.phone) : undefined;
+    if (primary.phone && gmbPhone && gmbPhone !== primary.phone) {
+      mismatches.push({ field: 'phone', values: [primary.phone, gmbPhone], against: 'gmb', detail: 'Website phone does not match Google Business Profile' });
+    }
+    if (primary.name && gmbProfile.name && !namesMatch(primary.name, gmbProfile.name)) {
+      mismatches.push({ field: 'name', values: [primary.name, gmbProfile.name], against: 'gmb', detail: 'Website business name does not match Google Business Profile' });
+    }
+    if (primary.address && gmbProfile.address && addressKey(primary.address) !== addressKey(gmbProfile.address)) {
+      mismatches.push({ field: 'address', values: [primary.address, gmbProfile.address], against: 'gmb', detail: 'Website address does not match Google Business Profile' });
+    }
+  }
+
+  let consistencyScore = 100;
+  if (!primary.phone) consistencyScore -= 20;
+  if (!primary.address) consistencyScore -= 15;
+  if (!primary.name) consistencyScore -= 10;
+  for (const mismatch of mismatches) {
+    consistencyScore -= mismatch.against === 'gmb' ? 25 : 20;
+  }
+
+  return {
+    ...extraction,
+    mismatches,
+    gmbCompared,
+    consistencyScore: Math.max(0, consistencyScore),
+  };
+}
+
+/**
+ * Converts a phone number to E.164. Numbers without a country code are assumed
+ * to be North American (+1). Returns undefined for anything that is not a phone number.
+ */
+export function normalizePhone(raw: string, defaultCountryCode: string = '1'): string | undefined {
+  const trimmed = raw.trim();
+  const digits = trimmed.replace(/\D/g, '');
+
+  if (trimmed.startsWith('+')) {
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : undefined;
+  }
+  if (digits.length === 10) return `+${defaultCountryCode}${digits}`;
+  if (digits.length === 11 && digits.startsWith(defaultCountryCode)) return `+${digits}`;
+  return undefined;
+}
+
+export function normalizeAddress(raw: string): string {
+  return raw
+    .toLowerCase()
+    .replace(/[.,#]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => ADDRESS_ABBREVIATIONS[word] || word)
+    .join(' ')
+    .replace(/\b(\d{5})-\d{4}\b/, '$1');
+}
+
+export function normalizeName(raw: string): string {
+  return raw
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !NAME_NOISE_WORDS.has(word))
+    .join(' ');
+}
+
+// "Bright Smiles" and "Bright Smiles Family Dentistry" are the same business;
+// "Ace" and "Grace Dental", or "Dental" and "Bright Smile Dental", are not.
+// Whole words only, and at least one shared word must name the business.
+export function namesMatch(a: string, b: string): boolean {
+  const left = nameTokens(a);
+  const right = nameTokens(b);
+  if (left.size === 0 || right.size === 0) return false;
+
+  const shared = [...left].filter(token => right.has(token));
+  if (!shared.some(token => !GENERIC_NAME_WORDS.has(token))) return false;
+  // One name is the other plus descriptors, or most of the words agree
+  return shared.length === Math.min(left.size, right.size) || shared.length / Math.max(left.size, right.size) >= 0.6;
+}
+
+// Distinct words of the normalized name, singular ("smiles" → "smile"), without stop words
+function nameTokens(name: string): Set<string> {
+  return new Set(normalizeName(name).split(' ')
+    .filter(word => word && !NAME_STOP_WORDS.has(word))
+    .map(word => word.length > 3 && /[^s]s$/.test(word) ? word.slice(0, -1) : word));
+}
+
+// Street number + ZIP identify an address even when the street is written differently
+function addressKey(address: string): string {
+  const normalized = normalizeAddress(address);
+  const number = normalized.match(/^\d+/)?.[0];
+  const zip = normalized.match(/\b\d{5}\b(?!.*\b\d{5}\b)/)?.[0];
+  return number && zip ? `${number}|${zip}` : normalized;
+}
+
+function addMention(mentions: NAPMention[], field: NAPField, value: string, source: NAPSource, pageUrl: string) {
+  const cleaned = cleanText(value);
+  if (!cleaned) return;
+
+  let normalized: string | undefined;
+  if (field === 'phone') normalized = normalizePhone(cleaned);
+  else if (field === 'address') normalized = normalizeAddress(cleaned);
+  else normalized = normalizeName(cleaned);
+  if (!normalized) return;
+
+  mentions.push({ field, value: cleaned, normalized, source, pageUrl });
+}
+
+// Distinct values for a field; names and addresses are grouped fuzzily
+function groupDistinct(mentions: NAPMention[], field: NAPField): NAPMention[][] {
+  const groups: NAPMention[][] = [];
+  for (const mention of mentions) {
+    const group = groups.find(existing => {
+      const first = existing[0];
+      if (field === 'name') return namesMatch(first.value, mention.value);
+      if (field === 'address') return addressKey(first.value) === addressKey(mention.value);
+      return first.normalized === mention.normalized;
+    });
+    if (group) group.push(mention);
+    else groups.push([mention]);
+  }
+  return groups;
+}
+
+function pickPrimary(mentions: NAPMention[], field: NAPField, useNormalized: boolean = false): string | undefined {
+  const groups = groupDistinct(mentions.filter(m => m.field === field), field);
+  if (groups.length === 0) return undefined;
+
+  // Schema markup is the business's own declaration; otherwise the most repeated value wins
+  const best = [...groups].sort((a, b) => {
+    const schemaDiff = Number(b.some(m => m.source === 'schema')) - Number(a.some(m => m.source === 'schema'));
+    return schemaDiff !== 0 ? schemaDiff : b.length - a.length;
+  })[0];
+  const chosen = best.find(m => m.source === 'schema') || best[0];
+  return useNormalized ? chosen.normalized : chosen.value;
+}
+
+// North American numbers in free text, skipping fax lines
+export function findPhones(text: string): string[] {
+  const phones: string[] = [];
+  for (const match of Array.from(text.matchAll(US_PHONE_PATTERN))) {
+    // Skip fax numbers
+    const before = text.slice(Math.max(0, (match.index || 0) - 12), match.index).toLowerCase();
+    if (before.includes('fax')) continue;
+    phones.push(match[0]);
+  }
+  return phones;
+}
+
+function findAddresses(text: string): string[] {
+  return Array.from(text.matchAll(STREET_ADDRESS_PATTERN)).map(match => match[0].trim());
+}
+
+function parseLocality(address?: string): Pick<NAPRecord, 'locality' | 'region'> {
+  const match = address?.match(LOCALITY_PATTERN);
+  return match ? { locality: match[1].trim(), region: match[2] } : {};
+}
+
+function formatPostalAddress(address?: PostalAddressData): string | undefined {
+  if (!address) return undefined;
+  const regionZip = [address.addressRegion, address.postalCode].filter(Boolean).join(' ');
+  const parts = [address.streetAddress, address.addressLocality, regionZip].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,193 @@
+import { OfferCatalog, OfferCondition } from '@/utils/offer-engine';
+
+// ============================================================================
+// OFFER CATALOG - V4 PREMIUM PACKAGES
+// Bump the version whenever eligibility, ranking, pricing or copy changes.
+// The loss model and template vars are supplied by cash-scoring.ts.
+// ============================================================================
+
+const TRUST_SIGNALS = [
+  'signal_1_review_recency_volume',
+  'signal_2_credential_verification',
+  'signal_3_social_proof_density',
+  'signal_9_trust_badge_presence',
+];
+
+const LOW_CONTACT: OfferCondition = { signal: 'signal_contact_channels', below: 7 };
+const LOW_AUTOMATION: OfferCondition = { signal: 'signal_6_automation_infrastructure', below: 5 };
+const LOW_TRACKING: OfferCondition = { signal: 'signal_10_growth_attribution', below: 5 };
+// Customers saying so in their own words is stronger evidence than any site signal
+const PHONE_COMPLAINTS: OfferCondition = { reviewTheme: 'phone_unanswered', atLeast: 3 };
+
+export const OFFER_CATALOG: OfferCatalog = {
+  version: '2025.3',
+  maxOffers: 4,
+  offers: [
+    {
+      id: 'ai_receptionist',
+      label: '24/7 AI Receptionist',
+      eligibility: [
+        {
+          id: 'no_instant_contact',
+          description: 'Contact channel signal below 7 (no instant answer by chat or text) while Systems or Hypergrowth is under 70',
+          when: { all: [{ any: [{ score: 'systems', below: 70 }, { score: 'hypergrowth', below: 70 }] }, LOW_CONTACT] },
+        },
+        {
+          id: 'reviews_phone_unanswered',
+          description: '3+ Google reviews in the last 12 months complain that nobody answers the phone',
+          when: PHONE_COMPLAINTS,
+        },
+      ],
+      // Leads the report: it is the offer the CTA and ROI calculator are built around
+      priority: {
+        base: 100,
+        adjustments: [{ when: { score: 'systems', below: 40 }, points: 10 }],
+        levels: [{ when: { score: 'systems', below: 40 }, level: 'high' }, { level: 'medium' }],
+      },
+      pricing: [
+        { id: 'high_volume', setupFee: 2500, monthlyFee: 797, when: { monthlyLoss: 'expected', atLeast: 100000 } },
+        { id: 'standard', setupFee: 1500, monthlyFee: 497 },
+      ],
+      copy: [
+        {
+          when: PHONE_COMPLAINTS,
+          template: 'URGENT: {{phoneUnansweredReviews}} Google reviews in the last year say nobody answers your phone. Every one of those callers tried to buy from you. Our AI receptionist answers every call and books the job 24/7.',
+        },
+        {
+          when: { loss: 'available' },
+          template: 'URGENT: Your Phone Is Losing You {{lossRange}}/month. Visitors can\'t text or chat with you, so every missed call is a lost lead. Our AI receptionist handles calls and bookings 24/7.',
+        },
+        { template: 'URGENT: Your Phone Is Losing You Money. Visitors can\'t text or chat with you, so every missed call is a lost lead. Our AI receptionist handles calls and bookings 24/7.' },
+      ],
+      attachLoss: true,
+      reviewThemes: ['phone_unanswered'],
+    },
+    {
+      id: 'reputation_resurrection',
+      label: 'Reputation Resurrection',
+      eligibility: [
+        {
+          id: 'gmb_low_rating',
+          description: 'Google rating below 4.5 stars',
+          when: { all: [{ gmb: 'found' }, { gmbField: 'rating', below: 4.5 }] },
+        },
+        {
+          id: 'gmb_low_review_count',
+          description: 'Fewer than 40 Google reviews',
+          when: { all: [{ gmb: 'found' }, { gmbField: 'reviewCount', below: 40 }] },
+        },
+        {
+          id: 'gmb_stale_reviews',
+          description: 'No Google review in the last 90 days',
+          when: { all: [{ gmb: 'found' }, { gmbField: 'daysSinceLastReview', atLeast: 90 }] },
+        },
+      ],
+      priority: {
+        base: 80,
+        adjustments: [{ when: { gmbField: 'rating', below: 4 }, points: 5 }],
+        levels: [{ level: 'high' }],
+      },
+      pricing: [{ id: 'standard', setupFee: 750, monthlyFee: 397 }],
+      copy: [
+        { template: 'CRITICAL: Your Google Reputation is hurting you. < 4.5 Stars or low reviews means customers ignore you. We install an automated system to get 5-star reviews on autopilot.' },
+      ],
+      // Both install the same review-request automation; the GMB-backed offer wins
+      excludes: ['review_management'],
+      reviewThemes: ['staff', 'wait_time', 'pricing'],
+    },
+    {
+      id: 'local_dominance',
+      label: 'Local Dominance Pack',
+      eligibility: [
+        { id: 'gmb_not_found', description: 'No Google Business Profile found', when: { gmb: 'missing' } },
+        { id: 'gmb_weak_profile', description: 'Google Business Profile score below 50', when: { gmbField: 'score', below: 50 } },
+      ],
+      priority: {
+        base: 80,
+        adjustments: [{ when: { gmb: 'missing' }, points: 5 }],
+        levels: [{ level: 'high' }],
+      },
+      pricing: [{ id: 'standard', setupFee: 1000, monthlyFee: 497 }],
+      copy: [
+        {
+          when: { gmb: 'missing' },
+          template: 'INVISIBLE: We cannot find your Google Business Profile. Customers searching for a {{businessType}} nearby never see you. We will claim, verify, and rank your profile #1.',
+        },
+        { template: 'WEAK PRESENCE: Your Google Profile is unoptimized and losing traffic. We optimize photos, posts, and categories to dominate the Map Pack.' },
+      ],
+    },
+    {
+      id: 'authenticity_overhaul',
+      label: 'Authenticity Overhaul Package',
+      eligibility: [
+        {
+          id: 'trust_barriers',
+          description: 'Two or more trust signals below 5 with Authority under 70',
+          when: { all: [{ score: 'authority', below: 70 }, { signals: TRUST_SIGNALS, below: 5, minCount: 2 }] },
+        },
+      ],
+      priority: {
+        base: 50,
+        adjustments: [{ when: { score: 'authority', below: 40 }, points: 20 }],
+        levels: [{ when: { score: 'authority', below: 40 }, level: 'high' }, { level: 'medium' }],
+      },
+      pricing: [{ id: 'standard', setupFee: 2500, monthlyFee: 0 }],
+      copy: [
+        { template: 'ATTENTION: Significant Trust Barriers. We found major Authenticity Gaps that cause customers to choose a competitor. Solution: Comprehensive rebuild of reviews, credentials, and trust signals.' },
+      ],
+    },
+    {
+      id: 'scalability_architecture',
+      label: 'Scalability Architecture Package',
+      eligibility: [
+        {
+          id: 'manual_and_untracked',
+          description: 'Automation and growth-tracking signals both below 5',
+          when: { all: [LOW_AUTOMATION, LOW_TRACKING] },
+        },
+        {
+          id: 'systems_leaking',
+          description: 'Systems under 50 with automation or tracking below 5',
+          when: { all: [{ score: 'systems', below: 50 }, { any: [LOW_AUTOMATION, LOW_TRACKING] }] },
+        },
+        {
+          id: 'growth_untracked',
+          description: 'Hypergrowth under 50 with automation or tracking below 5',
+          when: { all: [{ score: 'hypergrowth', below: 50 }, { any: [LOW_AUTOMATION, LOW_TRACKING] }] },
+        },
+      ],
+      priority: {
+        base: 50,
+        adjustments: [{ when: { any: [{ score: 'systems', below: 40 }, { score: 'hypergrowth', below: 40 }] }, points: 20 }],
+        levels: [
+          { when: { any: [{ score: 'systems', below: 40 }, { score: 'hypergrowth', below: 40 }] }, level: 'high' },
+          { level: 'medium' },
+        ],
+      },
+      pricing: [{ id: 'standard', setupFee: 5000, monthlyFee: 997 }],
+      copy: [
+        { template: 'STOP THE LEAKS: You Cannot Handle Growth. Your current system is manual, slow, and drops qualified leads. Solution: Complete automation setup, instant follow-up, and growth tracking.' },
+      ],
+    },
+    {
+      id: 'review_management',
+      label: 'Review Management System',
+      eligibility: [
+        {
+          id: 'weak_reviews_on_site',
+          description: 'Review signal below 5 with Authority under 70',
+          when: { all: [{ score: 'authority', below: 70 }, { signal: 'signal_1_review_recency_volume', below: 5 }] },
+        },
+      ],
+      priority: {
+        base: 45,
+        adjustments: [{ when: { score: 'authority', below: 40 }, points: 20 }],
+        levels: [{ when: { score: 'authority', below: 40 }, level: 'high' }, { level: 'medium' }],
+      },
+      pricing: [{ id: 'standard', setupFee: 500, monthlyFee: 297 }],
+      copy: [
+        { template: 'FIX: We provide a 5-Star Review Machine to instantly fix your trust problem and outrank competitors.' },
+      ],
+    },
+  ],
+};
@@ -0,0 +1,207 @@
+import { CASHScore, GMBProfile, MonetizedLoss, Offer, ReviewThemeId, Signal } from '@/types';
+import { renderTemplate } from '@/utils/rule-engine';
+import { formatLossRange } from '@/utils/loss-model';
+
+// ============================================================================
+// OFFER DEFINITIONS
+// Offers are declared as data (see offer-catalog.ts) and evaluated here.
+// ============================================================================
+
+export type GMBField = 'rating' | 'reviewCount' | 'score' | 'daysSinceLastReview';
+
+/**
+ * Conditions over category scores, measured signals, the GMB profile and the
+ * loss model. Bounds are `below` (exclusive) and `atLeast` (inclusive).
+ */
+export type OfferCondition =
+  | { score: keyof CASHScore; below?: number; atLeast?: number }
+  | { signal: string; below?: number; atLeast?: number } // Never holds for unknown signals
+  | { signals: string[]; below: number; minCount: number } // At least minCount measured signals below the bound
+  | { gmb: 'found' | 'missing' } // 'missing' also covers a lookup that never ran, but not one that failed
+  | { gmbField: GMBField; below?: number; atLeast?: number } // Missing rating/count read as 0; missing dates never hold
+  | { reviewTheme: ReviewThemeId; atLeast: number } // Reviews in the last 12 months with that complaint
+  | { loss: 'available' }
+  | { monthlyLoss: 'expected'; below?: number; atLeast?: number } // Never holds without a loss model
+  | { all: OfferCondition[] }
+  | { any: OfferCondition[] };
+
+export interface EligibilityRule {
+  id: string;
+  description: string;
+  when: OfferCondition;
+}
+
+export interface PriceTier {
+  id: string;
+  setupFee: number;
+  monthlyFee: number;
+  when?: OfferCondition; // First tier whose condition holds
+}
+
+export interface OfferTemplate {
+  when?: OfferCondition;
+  template: string; // {{businessType}}, {{lossRange}}, {{gmbRating}}, {{reviewCount}}, {{phoneUnansweredReviews}}…
+}
+
+export interface OfferDefinition {
+  id: string;
+  label: string;
+  eligibility: EligibilityRule[]; // Eligible when any rule holds; the first one is reported as the trigger
+  priority: {
+    base: number; // Rank points; higher ranks first
+    adjustments?: { when: OfferCondition; points: number }[];
+    levels: { when?: OfferCondition; level: Offer['priority'] }[]; // First level whose condition holds
+  };
+  pricing: PriceTier[];
+  copy: OfferTemplate[]; // First template whose condition holds
+  excludes?: string[]; // Offers dropped when this one ranks above them (and vice versa)
+  attachLoss?: boolean; // Carry the missed-call loss model
+  reviewThemes?: ReviewThemeId[]; // Quote reviews with these complaints as evidence
+}
+
+export interface OfferCatalog {
+  version: string;
+  maxOffers: number;
+  offers: OfferDefinition[];
+}
+
+export interface OfferContext {
+  scores: CASHScore;
+  signals: Signal[]; // All categories
+  gmbProfile?: GMBProfile;
+  businessType: string | null;
+  loss?: MonetizedLoss;
+  now?: number; // For review recency; defaults to Date.now()
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+const MAX_REVIEW_QUOTES = 3;
+
+/**
+ * Returns eligible offers ranked by their priority formula, with mutual
+ * exclusions applied and each offer's triggering rule recorded.
+ */
+export function evaluateOfferCatalog(catalog: OfferCatalog, context: OfferContext): Offer[] {
+  const vars = buildTemplateVars(context);
+
+  const eligible = catalog.offers
+    .map((definition, order) => {
+      const trigger = definition.eligibility.find(rule => evaluateCondition(rule.when, context));
+      if (!trigger) return null;
+      const rank = definition.priority.base + (definition.priority.adjustments || [])
+        .filter(adjustment => evaluateCondition(adjustment.when, context))
+        .reduce((sum, adjustment) => sum + adjustment.points, 0);
+      return { definition, trigger, rank, order };
+    })
+    .filter((candidate): candidate is NonNullable<typeof candidate> => candidate !== null)
+    // Ties keep catalog order
+    .sort((a, b) => b.rank - a.rank || a.order - b.order);
+
+  const selected: typeof eligible = [];
+  for (const candidate of eligible) {
+    const excluded = selected.some(chosen =>
+      chosen.definition.excludes?.includes(candidate.definition.id) ||
+      candidate.definition.excludes?.includes(chosen.definition.id)
+    );
+    if (!excluded) selected.push(candidate);
+  }
+
+  return selected.slice(0, catalog.maxOffers).map(({ definition, trigger, rank }) => {
+    const level = definition.priority.levels.find(option => !option.when || evaluateCondition(option.when, context));
+    const copy = definition.copy.find(option => !option.when || evaluateCondition(option.when, context));
+    const tier = definition.pricing.find(option => !option.when || evaluateCondition(option.when, context));
+    const offer: Offer = {
+      id: definition.id,
+      label: definition.label,
+      reason: copy ? renderTemplate(copy.template, vars) : '',
+      priority: level?.level ?? 'medium',
+      rank,
+      trigger: { ruleId: trigger.id, description: trigger.description },
+    };
+    if (definition.attachLoss && context.loss) offer.monetizedLoss = context.loss;
+    if (tier) offer.pricing = { tier: tier.id, setupFee: tier.setupFee, monthlyFee: tier.monthlyFee };
+    const quotes = (context.gmbProfile?.reviewAnalysis?.themes ?? [])
+      .filter(theme => definition.reviewThemes?.includes(theme.id))
+      .flatMap(theme => theme.quotes)
+      .slice(0, MAX_REVIEW_QUOTES);
+    if (quotes.length > 0) offer.reviewQuotes = quotes;
+    return offer;
+  });
+}
+
+export function evaluateCondition(condition: OfferCondition, context: OfferContext): boolean {
+  if ('all' in condition) return condition.all.every(child => evaluateCondition(child, context));
+  if ('any' in condition) return condition.any.some(child => evaluateCondition(child, context));
+  if ('score' in condition) return inBounds(context.scores[condition.score], condition);
+  if ('signal' in condition) {
+    const signal = context.signals.find(s => s.id === condition.signal);
+    return !!signal && signal.status !== 'unknown' && inBounds(signal.score, condition);
+  }
+  if ('signals' in condition) {
+    const low = context.signals.filter(s =>
+      condition.signals.includes(s.id) && s.status !== 'unknown' && s.score < condition.below
+    );
+    return low.length >= condition.minCount;
+  }
+  if ('gmb' in condition) {
+    const found = !!context.gmbProfile?.found;
+    // A failed lookup says nothing either way; never tell a prospect their profile is missing because of it
+    if (context.gmbProfile?.method === 'UNAVAILABLE') return false;
+    return condition.gmb === 'found' ? found : !found;
+  }
+  if ('gmbField' in condition) {
+    const value = readGMBField(condition.gmbField, context);
+    return value !== undefined && inBounds(value, condition);
+  }
+  if ('reviewTheme' in condition) {
+    const theme = context.gmbProfile?.reviewAnalysis?.themes.find(candidate => candidate.id === condition.reviewTheme);
+    return (theme?.recentMentions ?? 0) >= condition.atLeast;
+  }
+  if ('loss' in condition) return !!context.loss;
+  if ('monthlyLoss' in condition) return !!context.loss && inBounds(context.loss.monthly.expected, condition);
+  return false;
+}
+
+function inBounds(value: number, bounds: { below?: number; atLeast?: number }): boolean {
+  if (bounds.below !== undefined && value >= bounds.below) return false;
+  if (bounds.atLeast !== undefined && value < bounds.atLeast) return false;
+  return true;
+}
+
+function readGMBField(field: GMBField, context: OfferContext): number | undefined {
+  const profile = context.gmbProfile;
+  if (!profile || profile.method === 'UNAVAILABLE') return undefined;
+  switch (field) {
+    case 'rating': return profile.rating || 0;
+    case 'reviewCount': return profile.reviewCount || 0;
+    case 'score': return profile.score;
+    case 'daysSinceLastReview': {
+      if (!profile.lastReviewDate) return undefined;
+      const days = ((context.now ?? Date.now()) - new Date(profile.lastReviewDate).getTime()) / (1000 * 60 * 60 * 24);
+      return Number.isNaN(days) ? undefined : days;
+    }
+  }
+}
+
+function buildTemplateVars(context: OfferContext): Record<string, string> {
+  return {
+    businessType: context.businessType || 'local business',
+    lossRange: context.loss ? formatLossRange(context.loss.monthly) : '',
+    gmbRating: context.gmbProfile?.rating !== undefined ? String(context.gmbProfile.rating) : '',
+    reviewCount: context.gmbProfile?.reviewCount !== undefined ? String(context.gmbProfile.reviewCount) : '',
+    ...themeVars(context),
+  };
+}
+
+// {{phoneUnansweredReviews}}, {{waitTimeReviews}}, …: complaints in the last 12 months
+function themeVars(context: OfferContext): Record<string, string> {
+  const vars: Record<string, string> = {};
+  for (const theme of context.gmbProfile?.reviewAnalysis?.themes ?? []) {
+    const name = theme.id.replace(/_(\w)/g, (_, letter: string) => letter.toUpperCase());
+    vars[`${name}Reviews`] = String(theme.recentMentions);
+  }
+  return vars;
+}
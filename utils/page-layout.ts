@@ -0,0 +1,60 @@
+import * as cheerio from 'cheerio';
+import type { Element } from 'domhandler';
+import { PagePlacement } from '@/types';
+
+// ============================================================================
+// PAGE LAYOUT HEURISTICS
+// We never render the page, so position is estimated from the markup: the
+// landmark an element sits in, and how much copy comes before it.
+// ============================================================================
+
+// Roughly one phone screen of copy; anything further down needs a scroll to be seen
+const ABOVE_FOLD_TEXT_CHARS = 400;
+
+// Matched against each class name and the id of every ancestor
+const HERO_PATTERN = /\b(hero|banner|masthead|jumbotron)\b/i;
+const HEADER_PATTERN = /^((site|page|main)[-_])?(header|top-?bar|navbar)$/i;
+const FOOTER_PATTERN = /^((site|page|main)[-_])?footer$/i;
+const NON_VISIBLE_TAGS = 'script, style, noscript, template';
+
+export interface PageLayout {
+  isAboveFold: ($node: cheerio.Cheerio<Element>) => boolean;
+  placementOf: ($node: cheerio.Cheerio<Element>) => PagePlacement;
+}
+
+export function readPageLayout($: cheerio.CheerioAPI): PageLayout {
+  const $elements = $('body *');
+  const textBefore = measureTextBefore($, $elements);
+
+  const inLandmark = ($node: cheerio.Cheerio<Element>, pattern: RegExp, selector?: string) =>
+    (selector !== undefined && $node.closest(selector).length > 0)
+    || $node.parents().toArray().some(parent => {
+      const names = `${$(parent).attr('class') || ''} ${$(parent).attr('id') || ''}`.split(/\s+/).filter(Boolean);
+      return names.some(name => pattern.test(name));
+    });
+
+  const isAboveFold = ($node: cheerio.Cheerio<Element>) =>
+    (textBefore[$elements.index($node)] ?? 0) <= ABOVE_FOLD_TEXT_CHARS || inLandmark($node, HERO_PATTERN);
+
+  const placementOf = ($node: cheerio.Cheerio<Element>): PagePlacement => {
+    if (inLandmark($node, FOOTER_PATTERN, 'footer, [role="contentinfo"]')) return 'footer';
+    if (inLandmark($node, HERO_PATTERN)) return 'hero';
+    if (inLandmark($node, HEADER_PATTERN, 'body > header, [role="banner"], nav')) return 'header';
+    return isAboveFold($node) ? 'hero' : 'body';
+  };
+
+  return { isAboveFold, placementOf };
+}
+
+// Characters of visible text before each element, in document order
+function measureTextBefore($: cheerio.CheerioAPI, $elements: cheerio.Cheerio<Element>): number[] {
+  let chars = 0;
+  return $elements.toArray().map(element => {
+    const before = chars;
+    const $element = $(element);
+    if (!$element.is(NON_VISIBLE_TAGS) && $element.closest(NON_VISIBLE_TAGS).length === 0) {
+      chars += $element.contents().filter((_, node) => node.type === 'text').text().trim().length;
+    }
+    return before;
+  });
+}
@@ -0,0 +1,220 @@
+import type OpenAI from 'openai';
+import { GMBReview, ReviewAnalysis, ReviewQuote, ReviewTheme, ReviewThemeId } from '@/types';
+
+// ============================================================================
+// REVIEW ANALYSIS
+// Sentiment and complaint themes for the reviews the GMB provider returned.
+// An LLM classifies each review when one is configured; the lexicon below is
+// the deterministic fallback and also picks the sentence quoted as evidence.
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RECENT_DAYS = 365;
+const MAX_QUOTES_PER_THEME = 3;
+const MAX_QUOTE_LENGTH = 220;
+const MAX_LLM_REVIEWS = 50; // Keeps the prompt small; the newest reviews matter most
+
+// A negator this close before a complaint word turns it around ("not rude at all")
+const NEGATION_WINDOW = /\b(not|never|no|wasn'?t|weren'?t|isn'?t|aren'?t|nothing)\W+(?:\w+\W+){0,2}$/i;
+
+interface ThemeLexicon {
+  id: ReviewThemeId;
+  label: string;
+  patterns: RegExp[]; // Phrases that are complaints on their own
+  negatable: boolean; // Apply NEGATION_WINDOW (phrases that are negative by themselves)
+}
+
+const THEMES: ThemeLexicon[] = [
+  {
+    id: 'phone_unanswered',
+    label: 'Nobody answers the phone',
+    patterns: [
+      // A few words may sit between: "nobody ever answers", "didn't even call me back"
+      /\b(no ?one|nobody|never|didn'?t|doesn'?t|don'?t|won'?t|couldn'?t|can'?t|did not|does not|do not|would not|could not)(?:\s+[\w']+){0,3}?\s+(answer(?:s|ed)?|pick(?:s|ed)? up|call(?:s|ed)? (?:me |us |you )?back|return(?:s|ed)? (?:my |our )?calls?)\b/i,
+      /\b((?:straight|right) to voicemail|voicemail (?:is|was) full|rang and rang|phone (?:just )?rings|on hold for|unanswered|left (?:several|multiple|\d+|two|three) (?:voice ?mails|messages))\b/i,
+    ],
+    negatable: false,
+  },
+  {
+    id: 'wait_time',
+    label: 'Long waits',
+    patterns: [
+      /\bwait(?:ed|ing)? (?:for )?(?:over |almost |nearly |about |more than )?(?:an? |\d+ |two |three |four )(?:hours?|hrs?|minutes?|mins?|weeks?)\b/i,
+      /\b(long wait|waited forever|took forever|running (?:very |so )?late|behind schedule|weeks? to get (?:an? )?appointment)\b/i,
+    ],
+    negatable: true,
+  },
+  {
+    id: 'pricing',
+    label: 'Pricing and billing',
+    patterns: [
+      /\b(overpriced|too expensive|rip[- ]?off|overcharg\w*|hidden fees?|surprise (?:bill|charges?)|price gouging|charged (?:me )?(?:twice|extra)|not worth the (?:money|price)|outrageous(?:ly)? (?:price|priced|bill))\b/i,
+    ],
+    negatable: true,
+  },
+  {
+    id: 'staff',
+    label: 'Rude or unhelpful staff',
+    patterns: [
+      /\b(rude|unprofessional|condescending|dismissive|disrespectful|unfriendly|incompetent|bad attitude|yelled at|hung up on (?:me|us))\b/i,
+    ],
+    negatable: true,
+  },
+];
+
+const POSITIVE_WORDS = /\b(great|excellent|amazing|friendly|helpful|professional|recommend|best|awesome|fantastic|wonderful|kind|caring|thorough|love|happy|quick|efficient)\b/gi;
+const NEGATIVE_WORDS = /\b(terrible|awful|horrible|worst|rude|never|avoid|disappointed|unprofessional|waste|bad|poor|frustrating|ignored|overpriced|scam|late)\b/gi;
+
+export interface ReviewClassification {
+  sentiment: 'positive' | 'neutral' | 'negative';
+  themes: ReviewThemeId[];
+}
+
+/**
+ * Classifies reviews in order; must return one classification per review.
+ * Throw, or return the wrong number, to fall back to the lexicon.
+ */
+export type ReviewClassifier = (reviews: GMBReview[]) => Promise<ReviewClassification[]>;
+
+/**
+ * Sentiment counts, complaint themes with quotes, and the owner response rate.
+ * Uses the classifier when given; any failure falls back to the lexicon, so
+ * this never throws.
+ */
+export async function analyzeReviews(
+  reviews: GMBReview[],
+  classifier: ReviewClassifier | null = null,
+  now: number = Date.now()
+): Promise<ReviewAnalysis> {
+  const analyzed = [...reviews]
+    .filter(review => review.text.trim())
+    .sort((a, b) => (b.publishedAt ?? '').localeCompare(a.publishedAt ?? ''))
+    .slice(0, classifier ? MAX_LLM_REVIEWS : undefined);
+
+  let method: ReviewAnalysis['method'] = 'lexicon';
+  let classifications = analyzed.map(classifyWithLexicon);
+  if (classifier && analyzed.length > 0) {
+    try {
+      const answer = await classifier(analyzed);
+      if (answer.length === analyzed.length) {
+        classifications = answer;
+        method = 'llm';
+      }
+    } catch {
+      // Keep the lexicon result
+    }
+  }
+
+  const sentiment = { positive: 0, neutral: 0, negative: 0 };
+  for (const classification of classifications) sentiment[classification.sentiment]++;
+
+  const themes: ReviewTheme[] = THEMES.map(theme => {
+    const complaining = analyzed.filter((_, index) => classifications[index].themes.includes(theme.id));
+    return {
+      id: theme.id,
+      label: theme.label,
+      mentions: complaining.length,
+      recentMentions: complaining.filter(review => review.publishedAt && now - Date.parse(review.publishedAt) <= RECENT_DAYS * DAY_MS).length,
+      quotes: complaining.slice(0, MAX_QUOTES_PER_THEME).map(review => quoteReview(review, theme)),
+    };
+  })
+    .filter(theme => theme.mentions > 0)
+    .sort((a, b) => b.mentions - a.mentions);
+
+  const analysis: ReviewAnalysis = { method, reviewsAnalyzed: analyzed.length, sentiment, themes };
+  const responseRate = ownerResponseRate(reviews);
+  if (responseRate !== undefined) analysis.ownerResponseRate = responseRate;
+  return analysis;
+}
+
+/**
+ * Share of reviews (0-100) the owner replied to. Undefined when there are no
+ * reviews or the provider can't see replies for all of them.
+ */
+export function ownerResponseRate(reviews: GMBReview[]): number | undefined {
+  if (reviews.length === 0 || reviews.some(review => review.ownerReply === undefined)) return undefined;
+  return Math.round((reviews.filter(review => review.ownerReply).length / reviews.length) * 100);
+}
+
+/**
+ * Sentiment from positive and negative words, nudged by the star rating;
+ * themes from the complaint phrases.
+ */
+export function classifyWithLexicon(review: GMBReview): ReviewClassification {
+  const text = review.text;
+  const ratingLean = review.rating === undefined ? 0 : review.rating - 3; // -2..+2
+  const lean = (text.match(POSITIVE_WORDS)?.length ?? 0) - (text.match(NEGATIVE_WORDS)?.length ?? 0) + ratingLean;
+  return {
+    sentiment: lean > 0 ? 'positive' : lean < 0 ? 'negative' : 'neutral',
+    themes: THEMES.filter(theme => findComplaint(text, theme) !== null).map(theme => theme.id),
+  };
+}
+
+/**
+ * Asks an OpenAI chat model to classify the reviews as JSON.
+ */
+export function createOpenAIReviewClassifier(client: OpenAI, model: string = 'gpt-4o-mini'): ReviewClassifier {
+  return async reviews => {
+    const prompt = [
+      'Classify each customer review of a local business.',
+      'Return JSON: {"reviews": [{"sentiment": "positive" | "neutral" | "negative", "themes": [...]}]}, one entry per review, in order.',
+      `themes lists only complaints the review makes, from: ${THEMES.map(theme => `"${theme.id}" (${theme.label.toLowerCase()})`).join(', ')}.`,
+      'Praise ("they always answer quickly") is not a complaint.',
+      '',
+      ...reviews.map((review, index) => `${index + 1}. [${review.rating ?? '?'} stars] ${review.text.replace(/\s+/g, ' ').slice(0, 1000)}`),
+    ].join('\n');
+
+    const completion = await client.chat.completions.create({
+      model,
+      messages: [{ role: 'user', content: prompt }],
+      response_format: { type: 'json_object' },
+      temperature: 0,
+    });
+    const parsed = JSON.parse(completion.choices[0]?.message?.content || '{}') as { reviews?: unknown };
+    if (!Array.isArray(parsed.reviews)) throw new Error('Review classification is missing the reviews array');
+    return parsed.reviews.map(toClassification);
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toClassification(value: unknown): ReviewClassification {
+  const entry = (value ?? {}) as { sentiment?: unknown; themes?: unknown };
+  const sentiment = entry.sentiment === 'positive' || entry.sentiment === 'negative' ? entry.sentiment : 'neutral';
+  const themes = Array.isArray(entry.themes)
+    ? THEMES.map(theme => theme.id).filter(id => (entry.themes as unknown[]).includes(id))
+    : [];
+  return { sentiment, themes };
+}
+
+// Index of the first complaint phrase for the theme, or null. A negated match
+// ("not rude at all") doesn't hide a later one ("but the manager was rude").
+function findComplaint(text: string, theme: ThemeLexicon): number | null {
+  for (const pattern of theme.patterns) {
+    for (const match of text.matchAll(new RegExp(pattern.source, `${pattern.flags}g`))) {
+      const at = match.index ?? 0;
+      if (theme.negatable && NEGATION_WINDOW.test(text.slice(Math.max(0, at - 30), at))) continue;
+      return at;
+    }
+  }
+  return null;
+}
+
+// The sentence with the complaint; the LLM may flag reviews the lexicon can't place, so fall back to the opening
+function quoteReview(review: GMBReview, theme: ThemeLexicon): ReviewQuote {
+  const text = review.text.replace(/\s+/g, ' ').trim();
+  const at = findComplaint(text, theme) ?? 0;
+  const start = Math.max(text.lastIndexOf('. ', at), text.lastIndexOf('! ', at), text.lastIndexOf('? ', at)) + 1;
+  const end = text.slice(at).search(/[.!?](\s|$)/);
+  const sentence = text.slice(start, end === -1 ? undefined : at + end + 1).trim();
+
+  const quote: ReviewQuote = {
+    themeId: theme.id,
+    text: sentence.length > MAX_QUOTE_LENGTH ? `${sentence.slice(0, MAX_QUOTE_LENGTH)}…` : sentence,
+  };
+  if (review.rating !== undefined) quote.rating = review.rating;
+  if (review.publishedAt) quote.publishedAt = review.publishedAt;
+  return quote;
+}
@@ -0,0 +1,465 @@
+import * as cheerio from 'cheerio';
+import { ChannelPlacement, ContactChannel, ContactChannelType, DetectedTechnology, EvidenceHit, FormAnalysis, Signal, SignalCategory, SignalCheckResult, StructuredData, TechCategory } from '@/types';
+import { getPrimaryBusiness, getSocialProfiles } from '@/utils/structured-data';
+
+// ============================================================================
+// RULE DEFINITIONS
+// Signals are declared as data (see signal-rules.ts) and evaluated here.
+// ============================================================================
+
+export type TextSource = 'text' | 'title' | 'content' | 'html'; // 'content' = text + title
+
+export type StructuredDataField =
+  | 'business' // 1 when a LocalBusiness/Organization entity is declared
+  | 'businessNAP' // 1 when that entity has name, telephone and address
+  | 'aggregateRating'
+  | 'openingHours'
+  | 'sameAs'
+  | 'socialProfiles'
+  | 'openGraphCard' // 1 when og:title and og:image are both set
+  | 'errors';
+
+/**
+ * A matcher turns the page into a number: a match count, a keyword count,
+ * an element count or a fact supplied by the caller.
+ */
+export type RuleMatcher =
+  | { type: 'pattern'; source: TextSource; pattern: string; flags?: string }
+  | { type: 'keywords'; source: TextSource; keywords: string[] }
+  | { type: 'selector'; selector: string }
+  | { type: 'structuredData'; field: StructuredDataField }
+  | { type: 'fact'; fact: string }
+  | { type: 'technology'; categories?: TechCategory[]; vendors?: string[] } // Count of detected vendors (fingerprint ids)
+  | { type: 'forms'; minFriction: number } // Count of forms with at least this friction score
+  | { type: 'channels'; channels: ContactChannelType[]; placements?: ChannelPlacement[]; tappable?: boolean } // Count of contact channels
+  | { type: 'any'; matchers: RuleMatcher[] } // Sum of all values
+  | { type: 'fallback'; matchers: RuleMatcher[] }; // First non-zero value
+
+export interface RuleCheck {
+  id: string;
+  description: string;
+  matcher: RuleMatcher;
+  min?: number; // Holds when value >= min (default 1)
+  max?: number; // ...and value <= max
+  negate?: boolean; // Holds when the range condition does NOT hold
+  requires?: string[]; // Earlier check ids that must have held
+  unless?: string[]; // Earlier check ids that must NOT have held
+  points?: number; // Added when the check holds (may be negative)
+  tiers?: { min: number; points: number }[]; // Points by value; highest satisfied tier wins
+  scale?: number; // Points = value * scale
+}
+
+export interface NoteCondition {
+  minScore?: number;
+  maxScore?: number;
+  fact?: string;
+  factMin?: number;
+  factMax?: number;
+  checkHeld?: string;
+  checkFailed?: string;
+}
+
+export interface NoteTemplate {
+  when?: NoteCondition;
+  template: string; // {{score}}, {{label}} and any context var, e.g. {{napMismatchSummary}}
+}
+
+export interface SignalRule {
+  id: string;
+  label: string;
+  category: SignalCategory;
+  source: 'page' | 'site' | 'external'; // 'page' rules are unknown when the page could not be fetched; 'site' rules also need the site probe; 'external' rules need the GMB lookup
+  base?: number; // Starting score (default 0)
+  floor?: number; // Default 0
+  cap?: number; // Default 10
+  checks: RuleCheck[];
+  notes: NoteTemplate[]; // First template whose condition holds
+}
+
+export interface SignalRuleset {
+  version: string;
+  rules: SignalRule[];
+}
+
+// A crawled page, searched separately so every evidence hit can name its source
+export interface EvidencePage {
+  url: string;
+  text: string;
+  html: string;
+}
+
+export interface RuleContext {
+  text: string; // Lowercased
+  title: string; // Lowercased
+  html: string;
+  $: cheerio.CheerioAPI | null;
+  structuredData?: StructuredData;
+  facts: Record<string, number>;
+  factDetails?: Record<string, string>; // Evidence snippet per fact, e.g. the headline behind headlineWords
+  vars: Record<string, string>;
+  pages: EvidencePage[];
+  technologies?: DetectedTechnology[]; // From tech-fingerprints.ts
+  forms?: FormAnalysis[]; // From form-analyzer.ts
+  contactChannels?: ContactChannel[]; // From contact-channels.ts
+  unavailableReason?: string; // Set when the page could not be fetched
+  siteUnavailableReason?: string; // Set when robots.txt, sitemap and link checks were not run
+  externalUnavailableReason?: string; // Set when the Google Business Profile lookup failed
+}
+
+const MAX_HITS_PER_CHECK = 3;
+const SNIPPET_RADIUS = 60;
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Evaluates every rule and groups the resulting signals by category,
+ * preserving ruleset order.
+ */
+export function evaluateRuleset(ruleset: SignalRuleset, context: RuleContext): Record<SignalCategory, Signal[]> {
+  const signals: Record<SignalCategory, Signal[]> = { content: [], authority: [], systems: [], hypergrowth: [] };
+  for (const rule of ruleset.rules) {
+    signals[rule.category].push(evaluateRule(rule, context));
+  }
+  return signals;
+}
+
+export function evaluateRule(rule: SignalRule, context: RuleContext): Signal {
+  const unavailableReason = rule.source === 'external'
+    ? context.externalUnavailableReason
+    : context.unavailableReason ?? (rule.source === 'site' ? context.siteUnavailableReason : undefined);
+  if (unavailableReason) {
+    return { id: rule.id, label: rule.label, score: 0, notes: unavailableReason, status: 'unknown' };
+  }
+
+  const held = new Set<string>();
+  const checks: SignalCheckResult[] = [];
+  const hits: EvidenceHit[] = [];
+  let total = rule.base ?? 0;
+
+  for (const check of rule.checks) {
+    const value = evaluateMatcher(check.matcher, context);
+    const points = scoreCheck(check, value, held);
+    if (points !== null) {
+      held.add(check.id);
+      total += points;
+    }
+    checks.push({ id: check.id, description: check.description, passed: points !== null, points: points ?? 0 });
+    // Hits are recorded whether or not the check passed: "found pricing" explains a failed "no pricing" check
+    if (value > 0) {
+      // Helper checks often reuse an earlier matcher; keep each hit once, under the first check
+      const seen = new Set(hits.map(hitKey));
+      hits.push(...collectEvidence(check.matcher, context, check.id).filter(hit => !seen.has(hitKey(hit))));
+    }
+  }
+
+  const score = Math.round(Math.min(rule.cap ?? 10, Math.max(rule.floor ?? 0, total)));
+  const note = rule.notes.find(n => noteApplies(n.when, score, held, context)) || rule.notes[rule.notes.length - 1];
+
+  return {
+    id: rule.id,
+    label: rule.label,
+    score,
+    notes: renderTemplate(note?.template || '', { ...context.vars, score: String(score), label: rule.label }),
+    evidence: { checks, hits },
+  };
+}
+
+// Returns the points a check contributes, or null when it does not hold
+function scoreCheck(check: RuleCheck, value: number, held: Set<string>): number | null {
+  let holds: boolean;
+  let points = check.points ?? 0;
+
+  if (check.tiers) {
+    const tier = [...check.tiers].sort((a, b) => b.min - a.min).find(t => value >= t.min);
+    holds = Boolean(tier);
+    points = tier?.points ?? 0;
+  } else {
+    holds = value >= (check.min ?? 1) && (check.max === undefined || value <= check.max);
+  }
+
+  if (check.negate) holds = !holds;
+  if (holds && check.requires?.some(id => !held.has(id))) holds = false;
+  if (holds && check.unless?.some(id => held.has(id))) holds = false;
+  if (!holds) return null;
+
+  return check.scale !== undefined ? value * check.scale : points;
+}
+
+export function evaluateMatcher(matcher: RuleMatcher, context: RuleContext): number {
+  switch (matcher.type) {
+    case 'pattern':
+      return (readSource(matcher.source, context).match(compilePattern(matcher.pattern, matcher.flags)) || []).length;
+    case 'keywords': {
+      const haystack = readSource(matcher.source, context);
+      return matcher.keywords.filter(keyword => haystack.includes(keyword)).length;
+    }
+    case 'selector':
+      return context.$ ? context.$(matcher.selector).length : 0;
+    case 'structuredData':
+      return readStructuredData(matcher.field, context.structuredData);
+    case 'fact':
+      return context.facts[matcher.fact] ?? 0;
+    case 'technology':
+      return findTechnologies(matcher, context).length;
+    case 'forms':
+      return findForms(matcher, context).length;
+    case 'channels':
+      return findChannels(matcher, context).length;
+    case 'any':
+      return matcher.matchers.reduce((sum, child) => sum + evaluateMatcher(child, context), 0);
+    case 'fallback':
+      for (const child of matcher.matchers) {
+        const value = evaluateMatcher(child, context);
+        if (value > 0) return value;
+      }
+      return 0;
+  }
+}
+
+function findChannels(matcher: Extract<RuleMatcher, { type: 'channels' }>, context: RuleContext): ContactChannel[] {
+  return (context.contactChannels || []).filter(channel =>
+    matcher.channels.includes(channel.type) &&
+    (!matcher.placements || channel.placements.some(placement => matcher.placements?.includes(placement))) &&
+    (matcher.tappable === undefined || channel.tappable === matcher.tappable)
+  );
+}
+
+function findForms(matcher: Extract<RuleMatcher, { type: 'forms' }>, context: RuleContext): FormAnalysis[] {
+  return (context.forms || []).filter(form => form.frictionScore >= matcher.minFriction);
+}
+
+function findTechnologies(matcher: Extract<RuleMatcher, { type: 'technology' }>, context: RuleContext): DetectedTechnology[] {
+  return (context.technologies || []).filter(technology =>
+    (!matcher.categories || matcher.categories.includes(technology.category)) &&
+    (!matcher.vendors || matcher.vendors.includes(technology.id))
+  );
+}
+
+function readSource(source: TextSource, context: RuleContext): string {
+  if (source === 'content') return `${context.text} ${context.title}`;
+  return context[source];
+}
+
+function readStructuredData(field: StructuredDataField, data?: StructuredData): number {
+  const business = getPrimaryBusiness(data);
+  switch (field) {
+    case 'business': return business ? 1 : 0;
+    case 'businessNAP': return business?.name && business.telephone && business.address ? 1 : 0;
+    case 'aggregateRating': return business?.aggregateRating ? 1 : 0;
+    case 'openingHours': return business?.openingHours.length ?? 0;
+    case 'sameAs': return business?.sameAs.length ?? 0;
+    case 'socialProfiles': return getSocialProfiles(data).length;
+    case 'openGraphCard': return data?.openGraph['og:title'] && data.openGraph['og:image'] ? 1 : 0;
+    case 'errors': return data?.errors.length ?? 0;
+  }
+}
+
+// ============================================================================
+// EVIDENCE
+// ============================================================================
+
+interface SearchTarget {
+  url?: string;
+  body: string; // What the matcher searches
+  display: string; // Same text, original casing, for snippets
+  markup: boolean;
+}
+
+/**
+ * Re-runs a matcher page by page and returns what it found, with snippets and
+ * the page each hit came from. Scoring itself uses the merged site text.
+ */
+export function collectEvidence(matcher: RuleMatcher, context: RuleContext, checkId: string): EvidenceHit[] {
+  switch (matcher.type) {
+    case 'pattern':
+      return findPatternHits(matcher.pattern, matcher.flags, matcher.source, context, checkId);
+    case 'keywords':
+      return findKeywordHits(matcher.keywords, matcher.source, context, checkId);
+    case 'selector':
+      return findSelectorHits(matcher.selector, context, checkId);
+    case 'structuredData':
+      return describeStructuredData(matcher.field, context.structuredData, checkId);
+    case 'fact':
+      return [{
+        checkId,
+        kind: 'fact',
+        match: `${matcher.fact}: ${context.facts[matcher.fact] ?? 0}`,
+        ...(context.factDetails?.[matcher.fact] && { snippet: context.factDetails[matcher.fact] }),
+      }];
+    case 'technology':
+      return findTechnologies(matcher, context).slice(0, MAX_HITS_PER_CHECK).map(technology => ({
+        checkId,
+        kind: 'technology',
+        match: technology.ids ? `${technology.vendor} (${technology.ids.join(', ')})` : technology.vendor,
+        snippet: `${technology.markers[0].kind}: ${technology.markers[0].match}`,
+        pageUrl: technology.markers[0].pageUrl,
+      }));
+    case 'forms':
+      return findForms(matcher, context).slice(0, MAX_HITS_PER_CHECK).map(form => ({
+        checkId,
+        kind: 'form',
+        match: `${form.label} (friction ${form.frictionScore}/10)`,
+        snippet: form.reasons.join(', '),
+        pageUrl: form.pageUrl,
+      }));
+    case 'channels':
+      return findChannels(matcher, context).slice(0, MAX_HITS_PER_CHECK).map(channel => ({
+        checkId,
+        kind: 'channel',
+        match: `${channel.type}: ${channel.label}`,
+        snippet: `${channel.placements.join(', ')}${channel.tappable ? '' : ' (not tappable)'}`,
+        pageUrl: channel.pageUrl,
+      }));
+    case 'any':
+      return matcher.matchers.flatMap(child => collectEvidence(child, context, checkId)).slice(0, MAX_HITS_PER_CHECK);
+    case 'fallback': {
+      const child = matcher.matchers.find(candidate => evaluateMatcher(candidate, context) > 0);
+      return child ? collectEvidence(child, context, checkId) : [];
+    }
+  }
+}
+
+function searchTargets(source: TextSource, context: RuleContext): SearchTarget[] {
+  const pages = context.pages.length > 0 ? context.pages : [{ url: undefined, text: context.text, html: context.html }];
+  const title: SearchTarget = { url: pages[0].url, body: context.title, display: context.title, markup: false };
+
+  if (source === 'title') return [title];
+  if (source === 'html') return pages.map(page => ({ url: page.url, body: page.html, display: page.html, markup: true }));
+
+  const texts = pages.map(page => {
+    const body = page.text.toLowerCase();
+    // Lowercasing can change the length of some Unicode text; only reuse the original when offsets still line up
+    return { url: page.url, body, display: body.length === page.text.length ? page.text : body, markup: false };
+  });
+  return source === 'content' ? [...texts, title] : texts;
+}
+
+function findPatternHits(pattern: string, flags: string | undefined, source: TextSource, context: RuleContext, checkId: string): EvidenceHit[] {
+  const regex = compilePattern(pattern, flags);
+  const hits: EvidenceHit[] = [];
+
+  for (const target of searchTargets(source, context)) {
+    for (const match of Array.from(target.body.matchAll(regex))) {
+      hits.push(target.markup
+        ? markupHit(target, match.index ?? 0, match[0], checkId)
+        : { checkId, kind: 'pattern', match: match[0], snippet: snippetAround(target.display, match.index ?? 0, match[0].length), pageUrl: target.url });
+      if (hits.length >= MAX_HITS_PER_CHECK) return hits;
+    }
+  }
+  return hits;
+}
+
+function findKeywordHits(keywords: string[], source: TextSource, context: RuleContext, checkId: string): EvidenceHit[] {
+  const hits: EvidenceHit[] = [];
+  const targets = searchTargets(source, context);
+
+  for (const keyword of keywords) {
+    const target = targets.find(candidate => candidate.body.includes(keyword));
+    if (!target) continue;
+    const index = target.body.indexOf(keyword);
+    hits.push({ checkId, kind: 'keyword', match: keyword, snippet: snippetAround(target.display, index, keyword.length), pageUrl: target.url });
+    if (hits.length >= MAX_HITS_PER_CHECK) break;
+  }
+  return hits;
+}
+
+function findSelectorHits(selector: string, context: RuleContext, checkId: string): EvidenceHit[] {
+  const hits: EvidenceHit[] = [];
+  for (const page of context.pages) {
+    const $ = cheerio.load(page.html);
+    const element = $(selector).first();
+    if (element.length === 0) continue;
+    hits.push({ checkId, kind: 'selector', match: selector, snippet: truncate(collapse($.html(element)), SNIPPET_RADIUS * 2), pageUrl: page.url });
+    if (hits.length >= MAX_HITS_PER_CHECK) break;
+  }
+  return hits;
+}
+
+// A hit inside <script src="..."> is reported as the script URL; anything else as surrounding markup
+function markupHit(target: SearchTarget, index: number, match: string, checkId: string): EvidenceHit {
+  const tagStart = target.body.lastIndexOf('<', index);
+  const tagEnd = target.body.indexOf('>', index);
+  const tag = tagStart >= 0 && tagEnd > tagStart ? target.body.slice(tagStart, tagEnd + 1) : '';
+  const src = /^<script\b/i.test(tag) ? tag.match(/\ssrc\s*=\s*["']?([^"'\s>]+)/i)?.[1] : undefined;
+
+  if (src) {
+    return { checkId, kind: 'script', match: src, snippet: match, pageUrl: target.url };
+  }
+  return { checkId, kind: 'pattern', match, snippet: snippetAround(target.display, index, match.length), pageUrl: target.url };
+}
+
+function describeStructuredData(field: StructuredDataField, data: StructuredData | undefined, checkId: string): EvidenceHit[] {
+  const business = getPrimaryBusiness(data);
+  const hit = (match: string, pageUrl?: string): EvidenceHit => ({ checkId, kind: 'structured-data', match, pageUrl });
+
+  switch (field) {
+    case 'business':
+      return business ? [hit(`${business.types.join('/')}${business.name ? `: ${business.name}` : ''} (${business.source})`, business.pageUrl)] : [];
+    case 'businessNAP':
+      return business ? [hit(`name, telephone and address on ${business.types[0]}`, business.pageUrl)] : [];
+    case 'aggregateRating': {
+      const rating = business?.aggregateRating;
+      return rating ? [hit(`aggregateRating ${rating.ratingValue}${rating.reviewCount !== undefined ? ` (${rating.reviewCount} reviews)` : ''}`, business?.pageUrl)] : [];
+    }
+    case 'openingHours':
+      return business?.openingHours.length ? [hit(`openingHours: ${business.openingHours.join('; ')}`, business.pageUrl)] : [];
+    case 'sameAs':
+      return (business?.sameAs || []).slice(0, MAX_HITS_PER_CHECK).map(link => hit(`sameAs ${link}`, business?.pageUrl));
+    case 'socialProfiles':
+      return getSocialProfiles(data).slice(0, MAX_HITS_PER_CHECK).map(link => hit(`sameAs ${link}`));
+    case 'openGraphCard':
+      return data?.openGraph['og:title'] ? [hit(`og:title "${data.openGraph['og:title']}" with og:image`)] : [];
+    case 'errors':
+      return (data?.errors || []).slice(0, MAX_HITS_PER_CHECK).map(error => hit(error));
+  }
+}
+
+function hitKey(hit: EvidenceHit): string {
+  return `${hit.kind}|${hit.match}|${hit.pageUrl || ''}|${hit.snippet || ''}`;
+}
+
+function snippetAround(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${collapse(text.slice(start, end))}${end < text.length ? '…' : ''}`;
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+}
+
+function noteApplies(condition: NoteCondition | undefined, score: number, held: Set<string>, context: RuleContext): boolean {
+  if (!condition) return true;
+  if (condition.minScore !== undefined && score < condition.minScore) return false;
+  if (condition.maxScore !== undefined && score > condition.maxScore) return false;
+  if (condition.fact !== undefined) {
+    const value = context.facts[condition.fact] ?? 0;
+    if (condition.factMin !== undefined && value < condition.factMin) return false;
+    if (condition.factMax !== undefined && value > condition.factMax) return false;
+  }
+  if (condition.checkHeld && !held.has(condition.checkHeld)) return false;
+  if (condition.checkFailed && held.has(condition.checkFailed)) return false;
+  return true;
+}
+
+export function renderTemplate(template: string, vars: Record<string, string>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_, key: string) => vars[key] ?? '');
+}
+
+const patternCache = new Map<string, RegExp>();
+
+function compilePattern(pattern: string, flags: string = 'gi'): RegExp {
+  const key = `${flags}/${pattern}`;
+  let compiled = patternCache.get(key);
+  if (!compiled) {
+    compiled = new RegExp(pattern, flags.includes('g') ? flags : `${flags}g`);
+    patternCache.set(key, compiled);
+  }
+  return compiled;
+}
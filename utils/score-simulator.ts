@@ -0,0 +1,192 @@
+import { AnalysisResult, CASHScore, FixUplift, GMBProfile, LossModelInputs, Offer, ScoreSimulation, Signal, SignalCategory, SignalFix, WeightProfile } from '@/types';
+import { recommendOffers, scoreCategories } from '@/utils/cash-scoring';
+import { GMB_SIGNAL_ID } from '@/utils/signal-rules';
+
+const FIXED_SIGNAL_SCORE = 10;
+const CATEGORIES: SignalCategory[] = ['content', 'authority', 'systems', 'hypergrowth'];
+
+export interface SimulationBaseline {
+  signals: AnalysisResult['signals'];
+  gmbProfile?: GMBProfile;
+  weightProfile: WeightProfile;
+  businessType: string | null;
+  lossInputs?: Partial<LossModelInputs>;
+}
+
+export class SimulationInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SimulationInputError';
+  }
+}
+
+/**
+ * Re-scores the analysis with the given signals fixed (or moved to a target),
+ * using the same category normalization, GMB blend and offer catalog as the
+ * original analysis.
+ */
+export function simulateFixes(baseline: SimulationBaseline, fixes: SignalFix[]): ScoreSimulation {
+  const current = evaluate(baseline.signals, baseline.gmbProfile, baseline);
+  const { signals, gmbProfile } = applyFixes(baseline, fixes);
+  const simulated = evaluate(signals, gmbProfile, baseline);
+  const remaining = new Set(simulated.offers.map(offer => offer.id));
+
+  return {
+    fixes,
+    scores: simulated.scores,
+    uplift: diffScores(simulated.scores, current.scores),
+    offers: simulated.offers,
+    droppedOffers: current.offers.filter(offer => !remaining.has(offer.id)),
+  };
+}
+
+/**
+ * Every measured signal below 10, fixed on its own, ranked by how much it
+ * would raise the overall score.
+ */
+export function rankFixes(baseline: SimulationBaseline): FixUplift[] {
+  return CATEGORIES
+    .flatMap(category => baseline.signals[category].map(signal => ({ signal, category })))
+    .filter(({ signal }) => signal.status !== 'unknown' && signal.score < FIXED_SIGNAL_SCORE)
+    .map(({ signal, category }) => {
+      const simulation = simulateFixes(baseline, [{ signalId: signal.id }]);
+      return {
+        signalId: signal.id,
+        label: signal.label,
+        category,
+        currentScore: signal.score,
+        categoryUplift: simulation.uplift[category],
+        overallUplift: simulation.uplift.overall,
+        droppedOffers: simulation.droppedOffers.map(offer => offer.id),
+      };
+    })
+    .sort((a, b) => b.overallUplift - a.overallUplift || b.categoryUplift - a.categoryUplift);
+}
+
+/**
+ * Validates caller-supplied fixes against the analysis signals. Targets are
+ * 0-10; only measured signals can be fixed. Throws SimulationInputError.
+ */
+export function parseSignalFixes(value: unknown, signals: AnalysisResult['signals']): SignalFix[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    throw new SimulationInputError('fixes must be an array.');
+  }
+
+  const byId = new Map(CATEGORIES.flatMap(category => signals[category]).map(signal => [signal.id, signal]));
+  return value.map(raw => {
+    if (!raw || typeof raw !== 'object' || typeof raw.signalId !== 'string') {
+      throw new SimulationInputError('Each fix needs a signalId.');
+    }
+    const signal = byId.get(raw.signalId);
+    if (!signal) {
+      throw new SimulationInputError(`Unknown signal "${raw.signalId}".`);
+    }
+    if (signal.status === 'unknown') {
+      throw new SimulationInputError(`${signal.label} was not measured and cannot be simulated.`);
+    }
+    if (raw.target !== undefined && (typeof raw.target !== 'number' || !Number.isFinite(raw.target) || raw.target < 0 || raw.target > 10)) {
+      throw new SimulationInputError(`Target for ${signal.label} must be a number between 0 and 10.`);
+    }
+    return raw.target === undefined ? { signalId: raw.signalId } : { signalId: raw.signalId, target: raw.target };
+  });
+}
+
+/**
+ * Checks that the posted signals have the shape scoring needs. Throws
+ * SimulationInputError.
+ */
+export function parseSimulationSignals(value: unknown): AnalysisResult['signals'] {
+  if (!value || typeof value !== 'object') {
+    throw new SimulationInputError('signals must be an object keyed by category.');
+  }
+  const signals = value as Record<string, unknown>;
+  for (const category of CATEGORIES) {
+    const list = signals[category];
+    if (!Array.isArray(list) || list.some(signal => !isSignal(signal))) {
+      throw new SimulationInputError(`signals.${category} must be a list of scored signals.`);
+    }
+  }
+  return signals as unknown as AnalysisResult['signals'];
+}
+
+const GMB_METHODS: GMBProfile['method'][] = ['DIRECT_LINK', 'API_SEARCH', 'SERP_FALLBACK', 'NOT_FOUND', 'UNAVAILABLE'];
+
+/**
+ * Checks the posted GMB profile has the fields scoring and the offer catalog
+ * read. Undefined when none was posted. Throws SimulationInputError.
+ */
+export function parseSimulationGmbProfile(value: unknown): GMBProfile | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new SimulationInputError('gmbProfile must be an object.');
+  }
+  const profile = value as Record<string, unknown>;
+  if (typeof profile.found !== 'boolean') {
+    throw new SimulationInputError('gmbProfile.found must be true or false.');
+  }
+  if (!GMB_METHODS.includes(profile.method as GMBProfile['method'])) {
+    throw new SimulationInputError(`gmbProfile.method must be one of ${GMB_METHODS.join(', ')}.`);
+  }
+  if (!isNumberBetween(profile.score, 0, 100)) {
+    throw new SimulationInputError('gmbProfile.score must be a number between 0 and 100.');
+  }
+  for (const field of ['rating', 'reviewCount'] as const) {
+    if (profile[field] !== undefined && !isNumberBetween(profile[field], 0, Infinity)) {
+      throw new SimulationInputError(`gmbProfile.${field} must be a number.`);
+    }
+  }
+  if (profile.checklist !== undefined && !Array.isArray(profile.checklist)) {
+    throw new SimulationInputError('gmbProfile.checklist must be a list.');
+  }
+  if (profile.reviewAnalysis !== undefined) {
+    const analysis = profile.reviewAnalysis as Record<string, unknown> | null;
+    if (!analysis || typeof analysis !== 'object' || !Array.isArray(analysis.themes)) {
+      throw new SimulationInputError('gmbProfile.reviewAnalysis.themes must be a list.');
+    }
+  }
+  return profile as unknown as GMBProfile;
+}
+
+function isNumberBetween(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+function isSignal(value: unknown): value is Signal {
+  const signal = value as Signal;
+  return !!signal && typeof signal.id === 'string' && typeof signal.score === 'number' && Number.isFinite(signal.score);
+}
+
+function evaluate(signals: AnalysisResult['signals'], gmbProfile: GMBProfile | undefined, baseline: SimulationBaseline): { scores: CASHScore; offers: Offer[] } {
+  const { scores } = scoreCategories(signals, gmbProfile?.score || 0, baseline.weightProfile);
+  return { scores, offers: recommendOffers(scores, signals, gmbProfile, baseline.businessType, baseline.lossInputs) };
+}
+
+// The GMB signal only displays the profile score; fixing it moves the profile score itself
+function applyFixes(baseline: SimulationBaseline, fixes: SignalFix[]): { signals: AnalysisResult['signals']; gmbProfile?: GMBProfile } {
+  const targets = new Map(fixes.map(fix => [fix.signalId, fix.target ?? FIXED_SIGNAL_SCORE]));
+  const signals = Object.fromEntries(CATEGORIES.map(category => [
+    category,
+    baseline.signals[category].map(signal => targets.has(signal.id) ? { ...signal, score: targets.get(signal.id)! } : signal),
+  ])) as AnalysisResult['signals'];
+
+  let gmbProfile = baseline.gmbProfile;
+  const gmbTarget = targets.get(GMB_SIGNAL_ID);
+  if (gmbTarget !== undefined) {
+    const score = Math.round(gmbTarget * 10);
+    gmbProfile = gmbProfile
+      ? { ...gmbProfile, found: gmbProfile.found || score > 0, score }
+      : { found: score > 0, method: 'NOT_FOUND', score };
+  }
+  return { signals, gmbProfile };
+}
+
+function diffScores(after: CASHScore, before: CASHScore): CASHScore {
+  return {
+    overall: after.overall - before.overall,
+    content: after.content - before.content,
+    authority: after.authority - before.authority,
+    systems: after.systems - before.systems,
+    hypergrowth: after.hypergrowth - before.hypergrowth,
+  };
+}
@@ -1,64 +1,254 @@
 import * as cheerio from 'cheerio';
-import { ScrapedContent } from '@/types';
+import { FetchResult, FetchStatus, ScrapedContent, ScrapedPage } from '@/types';
+import { assertPublicUrl, UrlValidationError } from '@/utils/url-validator';
+import { extractStructuredData } from '@/utils/structured-data';
+import { extractNAP } from '@/utils/nap-extractor';
+
+const REQUEST_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.5',
+};
+
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 5;
+
+// Status codes that mean a bot wall or WAF refused us, not that the page is missing
+const BLOCKED_STATUS_CODES = new Set([401, 403, 406, 429, 451, 503]);
+
+/**
+ * Thrown by fetchPage when the page could not be fetched as HTML.
+ * Carries the typed fetch outcome so callers can report why.
+ */
+export class FetchError extends Error {
+  constructor(public readonly result: FetchResult) {
+    super(`Failed to fetch ${result.finalUrl}: ${result.status}${result.httpStatus ? ` (${result.httpStatus})` : ''}`);
+    this.name = 'FetchError';
+  }
+}
 
 export async function scrapeUrl(url: string): Promise<ScrapedContent> {
   try {
-    // Fetch the page
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
-      },
-    });
+    const page = await fetchPage(url);
+
+    return {
+      title: page.title,
+      headings: page.headings,
+      text: page.text,
+      url,
+      html: page.html, // Include raw HTML for signal detection
+      fetch: page.fetch,
+      structuredData: page.structuredData,
+      nap: extractNAP([page]),
+    };
+  } catch (error) {
+    console.warn(`Scraping failed for ${url}:`, error);
+
+    const result: FetchResult = error instanceof FetchError
+      ? error.result
+      : { status: 'error', redirectChain: [url], finalUrl: url, error: String(error) };
+    return failedContent(url, result);
+  }
+}
+
+/**
+ * Empty content for a URL we could not read. Signals computed from page
+ * content are reported as unknown instead of being scored against it.
+ */
+export function failedContent(url: string, result: FetchResult): ScrapedContent {
+  return {
+    title: new URL(url).hostname,
+    headings: [],
+    text: '',
+    url,
+    html: '',
+    fetch: result,
+  };
+}
+
+/**
+ * Fetches a single page and parses it. Throws FetchError when the page cannot
+ * be fetched as HTML.
+ */
+export async function fetchPage(url: string, depth: number = 0): Promise<ScrapedPage> {
+  const { result, html } = await fetchHtml(url);
+
+  if (result.status !== 'ok' || html === undefined) {
+    throw new FetchError(result);
+  }
+
+  return { ...parsePage(html, result.finalUrl, depth), fetch: result };
+}
 
+/**
+ * Fetches a URL following redirects manually so the full chain is recorded and
+ * every hop is checked against private/internal addresses before it is requested.
+ * Never throws: every failure is classified into a FetchStatus.
+ */
+export async function fetchHtml(url: string): Promise<{ result: FetchResult; html?: string }> {
+  return fetchFollowingRedirects(url, 'GET', REQUEST_HEADERS, async (response, base) => {
     if (!response.ok) {
-      throw new Error(`Failed to fetch URL: ${response.status} ${response.statusText}`);
+      return { result: { ...base, status: classifyHttpStatus(response.status), error: `${response.status} ${response.statusText}` } };
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType && !/(text\/html|application\/xhtml\+xml)/i.test(contentType)) {
+      return { result: { ...base, status: 'non-html', error: `Content-Type ${contentType}` } };
     }
 
     const html = await response.text();
-    const $ = cheerio.load(html);
+    // Cookie names only; vendors like Stripe and Intercom are recognised by them
+    const cookies = response.headers.getSetCookie().map(cookie => cookie.split('=')[0].trim()).filter(Boolean);
+    return { result: { ...base, status: 'ok', ...(cookies.length > 0 && { cookies }) }, html };
+  });
+}
 
-    // Extract title
-    const title = $('title').text().trim() || $('h1').first().text().trim() || 'No title found';
+/**
+ * Fetches any resource (robots.txt, a sitemap, a link being checked) with the
+ * same redirect and private-address handling as fetchHtml. Any content type is
+ * accepted; the body is read only for successful GET requests.
+ */
+export async function fetchResource(
+  url: string,
+  method: 'GET' | 'HEAD' = 'GET'
+): Promise<{ result: FetchResult; body?: string; contentType?: string }> {
+  const headers = { ...REQUEST_HEADERS, Accept: '*/*' };
+  return fetchFollowingRedirects(url, method, headers, async (response, base) => {
+    const contentType = response.headers.get('content-type') || undefined;
+    if (!response.ok) {
+      return { result: { ...base, status: classifyHttpStatus(response.status), error: `${response.status} ${response.statusText}` }, contentType };
+    }
+    const body = method === 'GET' ? await response.text() : undefined;
+    return { result: { ...base, status: 'ok' }, body, contentType };
+  });
+}
 
-    // Extract all headings (h1-h6)
-    const headings: string[] = [];
-    $('h1, h2, h3, h4, h5, h6').each((_, element) => {
-      const headingText = $(element).text().trim();
-      if (headingText) {
-        headings.push(headingText);
-      }
+/**
+ * Requests a URL once, without following redirects, and returns where it
+ * redirects to. Null when it doesn't redirect or can't be fetched. Expands
+ * short links without loading the page they point at.
+ */
+export async function fetchRedirectTarget(url: string): Promise<string | null> {
+  try {
+    await assertPublicUrl(url);
+    const response = await fetch(url, {
+      method: 'HEAD',
+      headers: { ...REQUEST_HEADERS, Accept: '*/*' },
+      redirect: 'manual',
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
     });
+    const location = response.headers.get('location');
+    return response.status >= 300 && response.status < 400 && location ? new URL(location, url).toString() : null;
+  } catch {
+    return null;
+  }
+}
 
-    // Remove script and style elements before extracting text
-    $('script, style, nav, footer, header, aside').remove();
+type ResponseBase = Pick<FetchResult, 'httpStatus' | 'redirectChain' | 'finalUrl'>;
 
-    // Extract main text content
-    const text = $('body').text()
-      .replace(/\s+/g, ' ')
-      .trim()
-      .substring(0, 10000); // Limit to 10k characters
+async function fetchFollowingRedirects<T extends { result: FetchResult }>(
+  url: string,
+  method: 'GET' | 'HEAD',
+  headers: Record<string, string>,
+  read: (response: Response, base: ResponseBase) => Promise<T>
+): Promise<T | { result: FetchResult }> {
+  const redirectChain: string[] = [url];
+  let currentUrl = url;
 
-    return {
-      title,
-      headings,
-      text,
-      url,
-      html, // Include raw HTML for signal detection
-    };
-  } catch (error) {
-    console.warn(`Scraping failed for ${url}:`, error);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      await assertPublicUrl(currentUrl);
+
+      const response = await fetch(currentUrl, {
+        method,
+        headers,
+        redirect: 'manual',
+        signal: controller.signal,
+      });
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        currentUrl = new URL(location, currentUrl).toString();
+        redirectChain.push(currentUrl);
+        continue;
+      }
+
+      // Still inside the try so a timeout while reading the body is classified too
+      return await read(response, { httpStatus: response.status, redirectChain, finalUrl: currentUrl });
+    }
 
-    // Fallback: If scraping fails (e.g. 403 Forbidden), return a minimal object
-    // so the analysis can proceed based on the URL/Domain alone.
     return {
-      title: new URL(url).hostname,
-      headings: [],
-      text: `Scraping failed for ${url}. Analyzing based on domain name and external signals.`,
-      url,
-      html: '',
+      result: { status: 'error', redirectChain, finalUrl: currentUrl, error: `More than ${MAX_REDIRECTS} redirects` },
     };
+  } catch (error) {
+    return { result: { status: classifyFetchError(error), redirectChain, finalUrl: currentUrl, error: describeError(error) } };
+  } finally {
+    clearTimeout(timer);
   }
 }
 
+function classifyHttpStatus(httpStatus: number): FetchStatus {
+  return BLOCKED_STATUS_CODES.has(httpStatus) ? 'blocked' : 'http-error';
+}
+
+function classifyFetchError(error: unknown): FetchStatus {
+  if (error instanceof UrlValidationError) return 'unsafe';
+  if (error instanceof Error && error.name === 'AbortError') return 'timeout';
+
+  // undici wraps network failures as TypeError('fetch failed') with the system error as cause
+  const code = (error as { cause?: { code?: string } })?.cause?.code;
+  if (code === 'ENOTFOUND' || code === 'EAI_AGAIN') return 'dns';
+  if (code === 'UND_ERR_CONNECT_TIMEOUT' || code === 'ETIMEDOUT') return 'timeout';
+  return 'error';
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof UrlValidationError) return `${error.code}${error.detail ? `: ${error.detail}` : ''}`;
+  if (!(error instanceof Error)) return String(error);
+  const cause = (error as { cause?: { message?: string } }).cause?.message;
+  return cause ? `${error.message}: ${cause}` : error.message;
+}
+
+/**
+ * Extracts title, headings, visible text and structured data from raw HTML.
+ */
+export function parsePage(html: string, url: string, depth: number = 0): ScrapedPage {
+  const $ = cheerio.load(html);
+
+  // Structured data lives in <script> tags, so read it before they are stripped
+  const structuredData = extractStructuredData(html, url);
+
+  // Extract title
+  const title = $('title').text().trim() || $('h1').first().text().trim() || 'No title found';
+
+  // Extract all headings (h1-h6)
+  const headings: string[] = [];
+  $('h1, h2, h3, h4, h5, h6').each((_, element) => {
+    const headingText = $(element).text().trim();
+    if (headingText) {
+      headings.push(headingText);
+    }
+  });
+
+  // Remove script and style elements before extracting text
+  $('script, style, nav, footer, header, aside').remove();
+
+  // Extract main text content
+  const text = $('body').text()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, 10000); // Limit to 10k characters
+
+  return {
+    url,
+    title,
+    headings,
+    text,
+    html,
+    depth,
+    structuredData,
+  };
+}
@@ -0,0 +1,193 @@
+import { readFileSync } from 'fs';
+import { GMBProviderError } from '@/utils/gmb-provider';
+
+// ============================================================================
+// SEARCH RESULTS PROVIDERS
+// The last GMB discovery stage: what Google shows for the business in its
+// knowledge panel and local pack. Providers only fetch and map listings;
+// analyzeGMB decides which one is the business. Failures throw
+// GMBProviderError, like the Places providers.
+// ============================================================================
+
+// A business listing as the search results show it
+export interface SerpListing {
+  source: 'knowledge_panel' | 'local_pack';
+  position?: number; // 1-based, local pack only
+  name: string;
+  placeId?: string; // Places API id, when the results carry one
+  cid?: string; // Decimal Maps customer id
+  address?: string;
+  phone?: string;
+  rating?: number;
+  reviewCount?: number;
+  categories?: string[];
+  hours?: string[]; // Knowledge panel only; one line per day
+}
+
+export interface SerpProvider {
+  id: string;
+  /** Knowledge panel first, then the local pack in order. Empty when Google shows neither. */
+  searchLocal(query: string): Promise<SerpListing[]>;
+}
+
+/**
+ * The provider the environment configures: SerpApi when SERPAPI_API_KEY is
+ * set, otherwise the listings in SERP_FIXTURE_FILE (local development). Null
+ * when neither is set, and the SERP stage is skipped.
+ */
+export function createSerpProviderFromEnv(env: NodeJS.ProcessEnv = process.env): SerpProvider | null {
+  if (env.SERPAPI_API_KEY) {
+    return createSerpApiProvider({ apiKey: env.SERPAPI_API_KEY });
+  }
+  if (env.SERP_FIXTURE_FILE) {
+    const listings: SerpListing[] = JSON.parse(readFileSync(env.SERP_FIXTURE_FILE, 'utf8'));
+    return createFixtureSerpProvider(listings);
+  }
+  return null;
+}
+
+// ============================================================================
+// SERPAPI (serpapi.com, engine=google)
+// ============================================================================
+
+const SERPAPI_URL = 'https://serpapi.com';
+const SERPAPI_TIMEOUT_MS = 15000; // Live Google searches are slower than Places
+
+// The subset of SerpApi's Google results we read
+interface SerpApiKnowledgeGraph {
+  title?: string;
+  type?: string;
+  place_id?: string;
+  address?: string;
+  phone?: string;
+  rating?: number;
+  review_count?: number;
+  hours?: Record<string, { opens?: string; closes?: string }>;
+}
+
+interface SerpApiLocalResult {
+  position?: number;
+  title?: string;
+  place_id?: string; // SerpApi puts the CID here for local results
+  data_cid?: string;
+  address?: string;
+  phone?: string;
+  rating?: number;
+  reviews?: number;
+  type?: string;
+}
+
+interface SerpApiResponse {
+  error?: string;
+  knowledge_graph?: SerpApiKnowledgeGraph;
+  local_results?: { places?: SerpApiLocalResult[] } | SerpApiLocalResult[];
+}
+
+export interface SerpApiOptions {
+  apiKey: string;
+  baseUrl?: string; // Tests point this at a local server
+}
+
+export function createSerpApiProvider({ apiKey, baseUrl = SERPAPI_URL }: SerpApiOptions): SerpProvider {
+  const id = 'serpapi';
+
+  return {
+    id,
+    async searchLocal(query) {
+      const params = new URLSearchParams({ engine: 'google', q: query, hl: 'en', gl: 'us', api_key: apiKey });
+      let response: Response;
+      try {
+        response = await fetch(`${baseUrl}/search.json?${params}`, { signal: AbortSignal.timeout(SERPAPI_TIMEOUT_MS) });
+      } catch (error) {
+        const timedOut = error instanceof Error && error.name === 'TimeoutError';
+        throw new GMBProviderError(id, timedOut ? 'The search results provider did not respond in time' : 'The search results provider could not be reached');
+      }
+
+      if (response.status === 401 || response.status === 403) {
+        throw new GMBProviderError(id, `The search results provider rejected the API key (HTTP ${response.status})`, response.status);
+      }
+      if (response.status === 429) {
+        throw new GMBProviderError(id, 'Search results quota exceeded', response.status);
+      }
+      if (!response.ok) {
+        throw new GMBProviderError(id, `The search results provider returned HTTP ${response.status}`, response.status);
+      }
+
+      let data: SerpApiResponse;
+      try {
+        data = await response.json() as SerpApiResponse;
+      } catch {
+        throw new GMBProviderError(id, 'The search results provider returned an unreadable response', response.status);
+      }
+      // SerpApi reports "no results" as an error string on a 200 response
+      if (data.error && !/hasn't returned any results/i.test(data.error)) {
+        throw new GMBProviderError(id, `The search results provider failed: ${data.error}`);
+      }
+
+      const listings: SerpListing[] = [];
+      if (data.knowledge_graph?.title) listings.push(fromKnowledgeGraph(data.knowledge_graph));
+      const local = Array.isArray(data.local_results) ? data.local_results : data.local_results?.places ?? [];
+      listings.push(...local.filter(result => result.title).map(fromLocalResult));
+      return listings;
+    },
+  };
+}
+
+function fromKnowledgeGraph(panel: SerpApiKnowledgeGraph): SerpListing {
+  return {
+    source: 'knowledge_panel',
+    name: panel.title ?? '',
+    ...readIdentifier(panel.place_id),
+    address: panel.address,
+    phone: panel.phone,
+    rating: panel.rating,
+    reviewCount: panel.review_count,
+    categories: panel.type ? [panel.type] : undefined,
+    // A business panel without an hours block has none listed
+    hours: Object.entries(panel.hours ?? {}).map(([day, { opens, closes }]) =>
+      `${day.charAt(0).toUpperCase()}${day.slice(1)}: ${opens && closes ? `${opens} – ${closes}` : 'Closed'}`),
+  };
+}
+
+function fromLocalResult(result: SerpApiLocalResult): SerpListing {
+  return {
+    source: 'local_pack',
+    position: result.position,
+    name: result.title ?? '',
+    ...readIdentifier(result.data_cid ?? result.place_id),
+    address: result.address,
+    phone: result.phone,
+    rating: result.rating,
+    reviewCount: result.reviews,
+    categories: result.type ? [result.type] : undefined,
+  };
+}
+
+// Numeric ids are CIDs; anything else is a Places API id
+function readIdentifier(id: string | undefined): Pick<SerpListing, 'placeId' | 'cid'> {
+  if (!id) return {};
+  return /^\d+$/.test(id) ? { cid: id } : { placeId: id };
+}
+
+// ============================================================================
+// FIXTURES (tests and local development)
+// ============================================================================
+
+export interface FixtureSerpProviderOptions {
+  unavailableReason?: string; // Every search fails with this message
+}
+
+/**
+ * Answers every search with the same listings, the way a results page for the
+ * business's name would look. analyzeGMB still has to pick the right one.
+ */
+export function createFixtureSerpProvider(listings: SerpListing[], options: FixtureSerpProviderOptions = {}): SerpProvider {
+  const id = 'serp-fixture';
+  return {
+    id,
+    async searchLocal() {
+      if (options.unavailableReason) throw new GMBProviderError(id, options.unavailableReason);
+      return listings;
+    },
+  };
+}
@@ -0,0 +1,756 @@
+import { RuleMatcher, SignalRuleset } from '@/utils/rule-engine';
+
+// The GMB signal is display-only; its score is blended 50/50 into Authority by cash-scoring.ts
+export const GMB_SIGNAL_ID = 'signal_gmb_profile';
+
+// ============================================================================
+// 10 PROPRIETARY SIGNALS - V4
+// Bump the version whenever a weight, pattern or threshold changes so stored
+// results can be traced back to the rules that scored them.
+// Facts and template vars are supplied by cash-scoring.ts (buildRuleContext).
+// ============================================================================
+
+const REVIEW_MENTIONS: RuleMatcher = {
+  type: 'pattern', source: 'text', pattern: '\\b(review|rating|stars|testimonial|google reviews|yelp)\\b',
+};
+
+const CREDENTIAL_MENTIONS: RuleMatcher = {
+  type: 'any',
+  matchers: [
+    { type: 'pattern', source: 'text', pattern: '\\b(licensed|certified|board certified|accredited)\\b' },
+    { type: 'pattern', source: 'text', pattern: '\\b(dr\\.|doctor|md|dds|dmd|phd)\\b' },
+    { type: 'pattern', source: 'text', pattern: '\\b(degree|education|university|college|school)\\b' },
+    { type: 'pattern', source: 'text', pattern: '\\b(years of experience|experience since|since \\d{4})\\b' },
+  ],
+};
+
+export const SIGNAL_RULESET: SignalRuleset = {
+  version: '2025.7',
+  rules: [
+    // AUTHORITY/TRUST SIGNALS (1, 2, 3, 9)
+    {
+      id: 'signal_1_review_recency_volume',
+      label: 'Review Recency & Volume',
+      category: 'authority',
+      source: 'page',
+      checks: [
+        {
+          id: 'review_widget',
+          description: 'Embedded review widget',
+          matcher: { type: 'pattern', source: 'html', pattern: '(google-reviews|yelp-review|review-widget|reviews-widget)' },
+          points: 5,
+        },
+        {
+          id: 'review_mentions',
+          description: 'Reviews mentioned at least 3 times',
+          matcher: REVIEW_MENTIONS,
+          min: 3,
+          points: 3,
+        },
+        {
+          id: 'review_recent',
+          description: 'Recent review activity mentioned',
+          matcher: { type: 'keywords', source: 'text', keywords: ['recent', 'latest', 'new review', 'just reviewed', 'this month'] },
+          points: 2,
+        },
+        {
+          id: 'review_any_mention',
+          description: 'Reviews mentioned at all',
+          matcher: REVIEW_MENTIONS,
+          unless: ['review_recent'],
+          points: 1,
+        },
+      ],
+      notes: [
+        { when: { minScore: 7 }, template: 'Strong review presence with recent activity' },
+        { template: 'Your reviews are old or missing. New customers see this and don\'t trust you.' },
+      ],
+    },
+    {
+      id: 'signal_2_credential_verification',
+      label: 'Credential Verification & Display',
+      category: 'authority',
+      source: 'page',
+      floor: 1,
+      checks: [
+        {
+          id: 'credential_mentions',
+          description: 'Licenses, titles, education and experience mentioned',
+          matcher: CREDENTIAL_MENTIONS,
+          tiers: [{ min: 5, points: 9 }, { min: 3, points: 7 }, { min: 1, points: 3 }],
+        },
+        {
+          id: 'credential_few',
+          description: 'Only one or two credential mentions',
+          matcher: CREDENTIAL_MENTIONS,
+          max: 2,
+        },
+        {
+          id: 'credential_section',
+          description: 'About/team section backing up the credentials',
+          matcher: { type: 'pattern', source: 'text', pattern: '(about|team|staff|credentials|qualifications|our doctor|our team)' },
+          requires: ['credential_few'],
+          points: 2,
+        },
+      ],
+      notes: [
+        { when: { minScore: 7 }, template: 'Strong credential display and verification' },
+        { template: 'Credentials not prominently displayed or verified' },
+      ],
+    },
+    {
+      id: 'signal_3_social_proof_density',
+      label: 'Social Proof Density',
+      category: 'authority',
+      source: 'page',
+      checks: [
+        {
+          // Profiles declared via schema.org sameAs are authoritative; fall back to any social URL in the HTML
+          id: 'social_profiles',
+          description: 'Linked social profiles',
+          matcher: {
+            type: 'fallback',
+            matchers: [
+              { type: 'structuredData', field: 'socialProfiles' },
+              { type: 'pattern', source: 'html', pattern: '(facebook\\.com|instagram\\.com|twitter\\.com|linkedin\\.com|youtube\\.com|tiktok\\.com)' },
+            ],
+          },
+          tiers: [{ min: 3, points: 4 }, { min: 1, points: 2 }],
+        },
+        {
+          id: 'social_testimonials',
+          description: 'Testimonials on the page',
+          matcher: { type: 'pattern', source: 'text', pattern: '\\b(testimonial|client said|customer said|review from)\\b' },
+          tiers: [{ min: 3, points: 4 }, { min: 1, points: 2 }],
+        },
+        {
+          id: 'social_case_studies',
+          description: 'Case studies or success stories',
+          matcher: { type: 'pattern', source: 'text', pattern: '\\b(case study|success story|client story|results)\\b' },
+          points: 2,
+        },
+        {
+          id: 'social_markup_rating',
+          description: 'Aggregate rating in schema markup',
+          matcher: { type: 'structuredData', field: 'aggregateRating' },
+          points: 2,
+        },
+      ],
+      notes: [
+        { when: { minScore: 7 }, template: 'High social proof density across multiple channels' },
+        { template: 'Limited social proof elements detected' },
+      ],
+    },
+    {
+      id: 'signal_9_trust_badge_presence',
+      label: 'Trust Badge Presence',
+      category: 'authority',
+      source: 'page',
+      checks: [
+        {
+          id: 'trust_badges',
+          description: 'Trust badges, awards and certifications',
+          matcher: { type: 'pattern', source: 'html', pattern: '(bbb|better business bureau|verified|trusted|award|certification|guarantee|warranty)' },
+          tiers: [{ min: 2, points: 4 }, { min: 1, points: 2 }],
+        },
+        {
+          id: 'trust_security',
+          description: 'Security and privacy indicators',
+          matcher: { type: 'pattern', source: 'html', pattern: '(ssl|https|secure|encrypted|privacy policy|terms of service)' },
+          tiers: [{ min: 2, points: 3 }, { min: 1, points: 1 }],
+        },
+        {
+          id: 'trust_guarantee',
+          description: 'Guarantee or warranty offered',
+          matcher: { type: 'pattern', source: 'text', pattern: '\\b(guarantee|money back|satisfaction guaranteed|warranty)\\b' },
+          points: 3,
+        },
+      ],
+      notes: [
+        { when: { minScore: 7 }, template: 'Strong trust badges and security indicators' },
+        { template: 'Missing trust badges and security signals' },
+      ],
+    },
+    {
+      // Schema markup is how Google reads the business name, hours and rating straight off the site
+      id: 'signal_schema_markup',
+      label: 'Structured Data (Schema Markup)',
+      category: 'authority',
+      source: 'page',
+      checks: [
+        { id: 'schema_business', description: 'LocalBusiness/Organization entity', matcher: { type: 'structuredData', field: 'business' }, points: 4 },
+        { id: 'schema_nap', description: 'Name, phone and address declared', matcher: { type: 'structuredData', field: 'businessNAP' }, points: 2 },
+        { id: 'schema_rating', description: 'Aggregate rating declared', matcher: { type: 'structuredData', field: 'aggregateRating' }, points: 1 },
+        { id: 'schema_hours', description: 'Opening hours declared', matcher: { type: 'structuredData', field: 'openingHours' }, points: 1 },
+        { id: 'schema_same_as', description: 'sameAs profiles declared', matcher: { type: 'structuredData', field: 'sameAs' }, points: 1 },
+        { id: 'schema_open_graph', description: 'OpenGraph title and image', matcher: { type: 'structuredData', field: 'openGraphCard' }, points: 1 },
+        { id: 'schema_errors', description: 'Invalid JSON-LD blocks', matcher: { type: 'structuredData', field: 'errors' }, points: -2 },
+      ],
+      notes: [
+        {
+          when: { checkFailed: 'schema_business', fact: 'schemaErrorCount', factMin: 1 },
+          template: 'Schema markup is broken ({{schemaErrorLabel}}). Google cannot read your business details.',
+        },
+        { when: { checkFailed: 'schema_business' }, template: 'No LocalBusiness schema markup. Google has to guess your name, hours and location.' },
+        { when: { minScore: 7 }, template: 'Complete LocalBusiness schema markup detected.' },
+        { template: 'Schema markup found but incomplete{{schemaMissingSummary}}.' },
+      ],
+    },
+    {
+      // Local search trusts a business whose name, address and phone agree everywhere
+      id: 'signal_nap_consistency',
+      label: 'NAP Consistency',
+      category: 'authority',
+      source: 'page',
+      checks: [
+        { id: 'nap_consistency', description: 'NAP consistency score (0-100)', matcher: { type: 'fact', fact: 'napConsistency' }, scale: 0.1 },
+      ],
+      notes: [
+        {
+          when: { fact: 'napHasContact', factMax: 0 },
+          template: 'No phone number or address found on the site. Local customers and Google cannot verify you.',
+        },
+        { when: { fact: 'napMismatchCount', factMin: 1 }, template: 'Inconsistent business details: {{napMismatchSummary}}.' },
+        { when: { fact: 'napConsistency', factMin: 80 }, template: 'Name, address and phone are consistent across {{napScope}}.' },
+        { template: 'Business details incomplete (missing {{napMissingFields}}).' },
+      ],
+    },
+    {
+      id: GMB_SIGNAL_ID,
+      label: 'Google Business Profile Health',
+      category: 'authority',
+      source: 'external',
+      checks: [
+        { id: 'gmb_score', description: 'GMB profile score (0-100)', matcher: { type: 'fact', fact: 'gmbScore' }, scale: 0.1 },
+      ],
+      notes: [
+        { when: { fact: 'gmbFound', factMax: 0 }, template: 'GMB Profile not found. Critical Authority Signal Missing.' },
+        { when: { minScore: 9 }, template: 'Excellent Google Business Profile detected.' },
+        { when: { minScore: 7, fact: 'gmbChecklistGaps', factMin: 1 }, template: 'Good GMB Profile, but incomplete. Falls short on: {{gmbChecklistGaps}}.' },
+        { when: { minScore: 7 }, template: 'Good GMB Profile, but room for optimization.' },
+        { when: { fact: 'gmbChecklistGaps', factMin: 1 }, template: 'Weak GMB Profile. Low ratings or activity, and it falls short on: {{gmbChecklistGaps}}.' },
+        { template: 'Weak GMB Profile. Low ratings or activity detected.' },
+      ],
+    },
+
+    // CONTENT/FRICTION/INTENT SIGNALS (4, 5, 7, 8)
+    {
+      id: 'signal_4_conversion_friction',
+      label: 'Conversion Friction Points',
+      category: 'content',
+      source: 'page',
+      base: 10,
+      floor: 1,
+      checks: [
+        // Per-form friction scores come from form-analyzer.ts
+        {
+          id: 'friction_heavy_form',
+          description: 'A form with heavy friction (6+/10)',
+          matcher: { type: 'forms', minFriction: 6 },
+          points: -4,
+        },
+        {
+          id: 'friction_moderate_form',
+          description: 'A form with moderate friction (3+/10)',
+          matcher: { type: 'forms', minFriction: 3 },
+          unless: ['friction_heavy_form'],
+          points: -2,
+        },
+        {
+          id: 'friction_unclear_pricing',
+          description: 'No pricing information',
+          matcher: { type: 'pattern', source: 'text', pattern: '(price|cost|fee|starting at|\\$|pricing)' },
+          negate: true,
+          points: -3,
+        },
+        {
+          id: 'friction_no_cta',
+          description: 'No clear call to action',
+          matcher: { type: 'pattern', source: 'text', pattern: '(book now|call now|get started|schedule|contact|free consultation)' },
+          negate: true,
+          points: -3,
+        },
+      ],
+      notes: [
+        { when: { minScore: 7 }, template: 'Low friction conversion path detected' },
+        { when: { fact: 'worstFormFriction', factMin: 3 }, template: 'High friction points blocking conversions. Worst form: {{worstForm}}' },
+        { template: 'High friction points blocking conversions' },
+      ],
+    },
+    {
+      id: 'signal_5_intent_signal_strength',
+      label: 'Intent Signal Strength',
+      category: 'content',
+      source: 'page',
+      checks: [
+        {
+          id: 'intent_urgency',
+          description: 'Urgency language',
+          matcher: { type: 'keywords', source: 'content', keywords: ['limited time', 'act now', 'today only', 'expires', 'hurry', 'don\'t wait'] },
+          points: 2.5,
+        },
+        {
+          id: 'intent_value',
+          description: 'Value/offer language',
+          matcher: { type: 'keywords', source: 'content', keywords: ['free', 'save', 'discount', 'special offer', 'deal', 'package'] },
+          points: 2.5,
+        },
+        {
+          id: 'intent_social',
+          description: 'Sign-up language',
+          matcher: { type: 'keywords', source: 'content', keywords: ['join', 'become a member', 'sign up', 'register', 'subscribe'] },
+          points: 2.5,
+        },
+        {
+          id: 'intent_action',
+          description: 'Action language',
+          matcher: { type: 'keywords', source: 'content', keywords: ['book', 'schedule', 'call', 'contact', 'get started', 'learn more'] },
+          points: 2.5,
+        },
+      ],
+      notes: [
+        { when: { minScore: 7 }, template: 'Strong intent signals throughout content' },
+        { template: 'Weak intent signals - unclear value proposition' },
+      ],
+    },
+    {
+      id: 'signal_7_value_proposition_clarity',
+      label: 'Value Proposition Clarity',
+      category: 'content',
+      source: 'page',
+      checks: [
+        {
+          id: 'value_unique',
+          description: 'Differentiation language',
+          matcher: { type: 'keywords', source: 'text', keywords: ['unique', 'exclusive', 'only', 'first', 'pioneer', 'innovative'] },
+          points: 2,
+        },
+        {
+          id: 'value_benefit',
+          description: 'Outcome/benefit language',
+          matcher: { type: 'keywords', source: 'text', keywords: ['results', 'outcome', 'transform', 'improve', 'solve', 'help'] },
+          points: 3,
+        },
+        {
+          id: 'value_specific',
+          description: 'Specific numbers (%, $, years, clients)',
+          matcher: { type: 'pattern', source: 'text', pattern: '\\b(\\d+%|\\$\\d+|\\d+ years|\\d+ clients)\\b' },
+          points: 3,
+        },
+        {
+          id: 'value_comparison',
+          description: 'Comparison with alternatives',
+          matcher: { type: 'keywords', source: 'text', keywords: ['vs', 'compared to', 'better than', 'unlike', 'difference'] },
+          points: 2,
+        },
+      ],
+      notes: [
+        { when: { minScore: 7 }, template: 'Clear, specific value proposition' },
+        { template: 'Vague or generic value proposition' },
+      ],
+    },
+    {
+      id: 'signal_8_mobile_experience',
+      label: 'Mobile Experience Quality',
+      category: 'content',
+      source: 'page',
+      checks: [
+        {
+          id: 'mobile_responsive',
+          description: 'Viewport/responsive markup',
+          matcher: { type: 'pattern', source: 'html', pattern: '(viewport|responsive|mobile|@media)' },
+          points: 4,
+        },
+        {
+          id: 'mobile_desktop_only',
+          description: 'Content flagged as desktop only',
+          matcher: { type: 'pattern', source: 'text', pattern: '(desktop only|not available on mobile)' },
+        },
+        {
+          id: 'mobile_touch_friendly',
+          description: 'Touch-friendly calls to action',
+          matcher: { type: 'pattern', source: 'text', pattern: '(button|click|tap|touch)' },
+          unless: ['mobile_desktop_only'],
+          points: 2,
+        },
+        {
+          id: 'mobile_fast_load',
+          description: 'No slow-loading warnings',
+          matcher: { type: 'pattern', source: 'text', pattern: '(slow|loading|wait|buffering)' },
+          negate: true,
+          points: 2,
+        },
+        {
+          // Readability is judged on the submitted page, not the whole crawled site
+          id: 'mobile_readable',
+          description: 'Landing page text length between 200 and 5000 characters',
+          matcher: { type: 'fact', fact: 'landingTextLength' },
+          min: 201,
+          max: 4999,
+          points: 2,
+        },
+      ],
+      notes: [
+        { when: { minScore: 7 }, template: 'Optimized mobile experience detected' },
+        { template: 'Mobile experience needs improvement' },
+      ],
+    },
+
+    // CONTENT QUALITY - measured by content-quality.ts
+    {
+      id: 'signal_content_readability',
+      label: 'Readability & Depth',
+      category: 'content',
+      source: 'page',
+      checks: [
+        {
+          id: 'depth_word_count',
+          description: 'At least 250 words on the landing page (100+ for partial credit)',
+          matcher: { type: 'fact', fact: 'landingWordCount' },
+          tiers: [{ min: 100, points: 2 }, { min: 250, points: 4 }],
+        },
+        {
+          // Reading ease means little on a page with almost no copy
+          id: 'readability_plain_language',
+          description: 'Flesch reading ease of 60+ (45+ for partial credit)',
+          matcher: { type: 'fact', fact: 'fleschReadingEase' },
+          tiers: [{ min: 45, points: 2 }, { min: 60, points: 4 }],
+          requires: ['depth_word_count'],
+        },
+        {
+          id: 'unique_content',
+          description: 'Under 30% of the copy repeated across pages',
+          matcher: { type: 'fact', fact: 'boilerplatePercent' },
+          min: 0,
+          max: 29,
+          requires: ['depth_word_count'],
+          points: 2,
+        },
+      ],
+      notes: [
+        { when: { minScore: 7 }, template: 'Clear, readable copy (reading ease {{readingEase}}/100, {{wordCount}} words)' },
+        { when: { fact: 'landingWordCount', factMax: 249 }, template: 'Thin content: only {{wordCount}} words on the landing page.' },
+        { when: { fact: 'boilerplatePercent', factMin: 30 }, template: '{{boilerplatePercent}}% of the copy is repeated word-for-word across pages.' },
+        { template: 'Copy is harder to read than it should be (reading ease {{readingEase}}/100; aim for 60+).' },
+      ],
+    },
+    {
+      id: 'signal_content_structure',
+      label: 'Headline & Page Structure',
+      category: 'content',
+      source: 'page',
+      checks: [
+        {
+          id: 'structure_single_h1',
+          description: 'Exactly one H1',
+          matcher: { type: 'fact', fact: 'h1Count' },
+          min: 1,
+          max: 1,
+          points: 2,
+        },
+        {
+          id: 'structure_heading_order',
+          description: 'No skipped heading levels (e.g. H2 straight to H4)',
+          matcher: { type: 'fact', fact: 'skippedHeadingLevels' },
+          min: 0,
+          max: 0,
+          requires: ['structure_single_h1'],
+          points: 2,
+        },
+        {
+          id: 'headline_length',
+          description: 'Headline of 4-12 words',
+          matcher: { type: 'fact', fact: 'headlineWords' },
+          min: 4,
+          max: 12,
+          points: 2,
+        },
+        {
+          id: 'headline_specific',
+          description: 'Headline names a number, place or audience',
+          matcher: { type: 'fact', fact: 'headlineSpecificity' },
+          points: 2,
+        },
+        {
+          id: 'meta_title',
+          description: 'Descriptive <title> of 30-65 characters',
+          matcher: { type: 'fact', fact: 'titleLength' },
+          min: 30,
+          max: 65,
+          points: 1,
+        },
+        {
+          id: 'meta_description',
+          description: 'Meta description of 70-160 characters',
+          matcher: { type: 'fact', fact: 'metaDescriptionLength' },
+          min: 70,
+          max: 160,
+          points: 1,
+        },
+      ],
+      notes: [
+        { when: { minScore: 8 }, template: 'Well-structured page with a specific headline' },
+        { when: { checkFailed: 'structure_single_h1' }, template: '{{h1Summary}} Search engines and visitors can\'t tell what the page is about.' },
+        { when: { checkFailed: 'headline_specific' }, template: 'Generic headline "{{headline}}": say what you do, for whom and where.' },
+        { template: 'Page structure needs work: {{structureIssues}}.' },
+      ],
+    },
+
+    // TECHNICAL SEO - page checks and site probe from technical-audit.ts
+    {
+      id: 'signal_technical_page_health',
+      label: 'Indexing & Page Health',
+      category: 'content',
+      source: 'page',
+      checks: [
+        {
+          id: 'technical_canonical',
+          description: 'Landing page has a canonical tag pointing at itself',
+          matcher: { type: 'fact', fact: 'canonicalSelf' },
+          points: 2,
+        },
+        {
+          id: 'technical_indexable',
+          description: 'No crawled page is marked noindex',
+          matcher: { type: 'fact', fact: 'noindexPages' },
+          min: 0,
+          max: 0,
+          points: 2,
+        },
+        {
+          id: 'technical_lang',
+          description: 'Page language declared (<html lang>)',
+          matcher: { type: 'fact', fact: 'htmlLang' },
+          points: 1,
+        },
+        {
+          id: 'technical_image_alt',
+          description: 'Alt text on 90%+ of images (50%+ for partial credit)',
+          matcher: { type: 'fact', fact: 'imageAltCoverage' },
+          tiers: [{ min: 50, points: 1 }, { min: 90, points: 2 }],
+        },
+        {
+          id: 'technical_page_weight',
+          description: 'Landing page HTML under 200 KB',
+          matcher: { type: 'fact', fact: 'landingPageKB' },
+          min: 0,
+          max: 199,
+          points: 1,
+        },
+        {
+          id: 'technical_blocking_scripts',
+          description: 'At most 2 render-blocking scripts in <head>',
+          matcher: { type: 'fact', fact: 'blockingScripts' },
+          min: 0,
+          max: 2,
+          points: 2,
+        },
+      ],
+      notes: [
+        { when: { minScore: 8 }, template: 'Pages are indexable and light ({{imageAltCoverage}}% of images have alt text)' },
+        { when: { fact: 'noindexPages', factMin: 1 }, template: '{{noindexSummary}} marked noindex and will not appear in search results.' },
+        { template: 'Page health needs work: {{pageHealthIssues}}.' },
+      ],
+    },
+    {
+      id: 'signal_technical_crawlability',
+      label: 'Crawlability & Security',
+      category: 'content',
+      source: 'site',
+      checks: [
+        {
+          id: 'technical_https',
+          description: 'Site served over HTTPS',
+          matcher: { type: 'fact', fact: 'httpsServed' },
+          points: 3,
+        },
+        {
+          id: 'technical_https_redirect',
+          description: 'http:// redirects to https://',
+          matcher: { type: 'fact', fact: 'httpRedirectsToHttps' },
+          requires: ['technical_https'],
+          points: 1,
+        },
+        {
+          id: 'technical_robots_txt',
+          description: 'robots.txt present and not blocking the whole site',
+          matcher: { type: 'fact', fact: 'robotsTxtAllows' },
+          points: 2,
+        },
+        {
+          id: 'technical_sitemap',
+          description: 'XML sitemap listing at least one URL',
+          matcher: { type: 'fact', fact: 'sitemapUrlCount' },
+          points: 2,
+        },
+        {
+          id: 'technical_no_broken_links',
+          description: 'No broken internal links among those checked',
+          matcher: { type: 'fact', fact: 'brokenLinkCount' },
+          min: 0,
+          max: 0,
+          points: 2,
+        },
+      ],
+      notes: [
+        { when: { minScore: 8 }, template: 'Secure and easy for search engines to crawl' },
+        { when: { checkFailed: 'technical_https' }, template: 'The site is not served over HTTPS, so browsers label it "Not secure".' },
+        { template: 'Search engines may miss pages: {{crawlIssues}}.' },
+      ],
+    },
+
+    // SYSTEMS SIGNAL (6) - scored from detected vendors (tech-fingerprints.ts)
+    {
+      id: 'signal_6_automation_infrastructure',
+      label: 'Automation Infrastructure',
+      category: 'systems',
+      source: 'page',
+      checks: [
+        {
+          id: 'automation_booking',
+          description: 'Online booking system (Calendly, Acuity, Zocdoc, OpenTable...)',
+          matcher: { type: 'technology', categories: ['booking'] },
+          points: 3,
+        },
+        {
+          id: 'automation_chat',
+          description: 'Live chat or chatbot (Intercom, Drift, LiveChat, Podium...)',
+          matcher: { type: 'technology', categories: ['chat'] },
+          points: 3,
+        },
+        {
+          id: 'automation_crm',
+          description: 'CRM or marketing automation (HubSpot, Pardot, GoHighLevel)',
+          matcher: { type: 'technology', categories: ['crm'] },
+          points: 2,
+        },
+        {
+          id: 'automation_email',
+          description: 'Email marketing (Mailchimp, Klaviyo, Constant Contact)',
+          matcher: { type: 'technology', categories: ['email-marketing'] },
+          points: 1,
+        },
+        {
+          id: 'automation_payments',
+          description: 'Online payments (Stripe, PayPal, Square)',
+          matcher: { type: 'technology', categories: ['payments'] },
+          points: 1,
+        },
+      ],
+      notes: [
+        { when: { minScore: 7 }, template: 'Strong automation infrastructure in place ({{automationStack}})' },
+        { when: { minScore: 3 }, template: 'Partial automation ({{automationStack}}), but leads still wait on a human to respond.' },
+        { template: 'No instant client connection is possible (only a slow contact form). This is a huge leak in your acquisition system.' },
+      ],
+    },
+
+    // SYSTEMS: how a visitor can reach the business right now (contact-channels.ts)
+    {
+      id: 'signal_contact_channels',
+      label: 'Instant Contact Channels',
+      category: 'systems',
+      source: 'page',
+      checks: [
+        {
+          id: 'contact_click_to_call',
+          description: 'Tap-to-call (tel:) phone link',
+          matcher: { type: 'channels', channels: ['phone'], tappable: true },
+          points: 2,
+        },
+        {
+          id: 'contact_call_prominent',
+          description: 'Tap-to-call link in the header or hero',
+          matcher: { type: 'channels', channels: ['phone'], tappable: true, placements: ['header', 'hero'] },
+          points: 1,
+        },
+        {
+          id: 'contact_text',
+          description: 'Text, WhatsApp or Messenger link',
+          matcher: { type: 'channels', channels: ['sms', 'whatsapp', 'messenger'] },
+          points: 2,
+        },
+        {
+          id: 'contact_live_chat',
+          description: 'Live chat widget',
+          matcher: { type: 'channels', channels: ['live-chat'] },
+          points: 2,
+        },
+        {
+          id: 'contact_booking',
+          description: 'Online booking link or widget',
+          matcher: { type: 'channels', channels: ['booking'] },
+          points: 2,
+        },
+        {
+          id: 'contact_email_or_form',
+          description: 'Email link or contact form',
+          matcher: { type: 'channels', channels: ['email', 'form'] },
+          points: 1,
+        },
+      ],
+      notes: [
+        { when: { minScore: 7 }, template: 'Visitors can reach you instantly ({{contactChannels}})' },
+        {
+          when: { checkFailed: 'contact_click_to_call', fact: 'untappablePhoneCount', factMin: 1 },
+          template: 'Your phone number is not tappable on mobile; visitors have to copy it to call. No instant alternative ({{contactChannels}}).',
+        },
+        { when: { minScore: 1 }, template: 'Limited contact options ({{contactChannels}}). Visitors who can\'t call right now have no instant way to reach you.' },
+        { template: 'No instant way to reach the business. Visitors who can\'t call right now leave.' },
+      ],
+    },
+
+    // HYPERGROWTH SIGNAL (10) - scored from detected vendors (tech-fingerprints.ts)
+    {
+      id: 'signal_10_growth_attribution',
+      label: 'Growth Attribution Tracking',
+      category: 'hypergrowth',
+      source: 'page',
+      checks: [
+        {
+          id: 'tracking_ga4',
+          description: 'Google Analytics 4',
+          matcher: { type: 'technology', vendors: ['google-analytics-4'] },
+          points: 3,
+        },
+        {
+          // UA stopped processing data in July 2023; a UA-only site is effectively untracked
+          id: 'tracking_legacy_ua',
+          description: 'Only legacy Universal Analytics',
+          matcher: { type: 'technology', vendors: ['universal-analytics'] },
+          unless: ['tracking_ga4'],
+          points: 1,
+        },
+        {
+          id: 'tracking_tag_manager',
+          description: 'Google Tag Manager container',
+          matcher: { type: 'technology', categories: ['tag-manager'] },
+          points: 1,
+        },
+        {
+          id: 'tracking_pixel',
+          description: 'Ad pixel (Meta, Google Ads, LinkedIn, TikTok)',
+          matcher: { type: 'technology', categories: ['ad-pixel'] },
+          points: 2,
+        },
+        {
+          id: 'tracking_heatmap',
+          description: 'Heatmaps or session recording (Hotjar, Clarity...)',
+          matcher: { type: 'technology', categories: ['heatmap'] },
+          points: 2,
+        },
+        {
+          id: 'tracking_calls',
+          description: 'Call tracking (CallRail, CallTrackingMetrics)',
+          matcher: { type: 'technology', categories: ['call-tracking'] },
+          points: 2,
+        },
+      ],
+      notes: [
+        { when: { minScore: 7 }, template: 'Comprehensive growth attribution tracking ({{trackingStack}})' },
+        { when: { checkHeld: 'tracking_legacy_ua' }, template: 'Only legacy Universal Analytics is installed; it stopped recording data in 2023.' },
+        { when: { minScore: 1 }, template: 'Incomplete growth tracking ({{trackingStack}})' },
+        { template: 'Missing or incomplete growth tracking' },
+      ],
+    },
+  ],
+};
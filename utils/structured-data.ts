@@ -0,0 +1,303 @@
+import * as cheerio from 'cheerio';
+import type { Element } from 'domhandler';
+import { BusinessEntity, PostalAddressData, StructuredData } from '@/types';
+
+// schema.org types we treat as "the business behind this site".
+// LocalBusiness has hundreds of subtypes; these are the ones our verticals use.
+const BUSINESS_TYPES = new Set([
+  'LocalBusiness', 'Organization', 'ProfessionalService',
+  'Dentist', 'DentalClinic',
+  'LegalService', 'Attorney', 'Notary',
+  'MedicalBusiness', 'MedicalClinic', 'Physician', 'MedicalOrganization', 'Optician', 'Pharmacy',
+  'AutoRepair', 'AutomotiveBusiness', 'AutoDealer',
+  'HomeAndConstructionBusiness', 'Plumber', 'Electrician', 'HVACBusiness', 'RoofingContractor', 'GeneralContractor',
+  'RealEstateAgent',
+  'FoodEstablishment', 'Restaurant', 'CafeOrCoffeeShop', 'Bakery', 'BarOrPub',
+  'Store', 'ClothingStore', 'HealthAndBeautyBusiness', 'DaySpa', 'BeautySalon',
+]);
+
+const SOCIAL_HOSTS = /(facebook\.com|instagram\.com|twitter\.com|x\.com|linkedin\.com|youtube\.com|tiktok\.com|yelp\.com|pinterest\.com)/i;
+
+type JsonLdNode = Record<string, unknown>;
+
+export function emptyStructuredData(): StructuredData {
+  return { businesses: [], schemaTypes: [], openGraph: {}, jsonLdBlocks: 0, errors: [] };
+}
+
+/**
+ * Extracts JSON-LD, Microdata and OpenGraph markup from a page.
+ * Accepts raw HTML so it can run before scripts are stripped for text extraction.
+ */
+export function extractStructuredData(html: string, pageUrl?: string): StructuredData {
+  const $ = cheerio.load(html);
+  const data = emptyStructuredData();
+  const types = new Set<string>();
+
+  // 1. JSON-LD
+  $('script[type="application/ld+json"]').each((index, element) => {
+    data.jsonLdBlocks++;
+    const raw = $(element).contents().text().trim();
+    if (!raw) return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      data.errors.push(`JSON-LD block ${index + 1} is not valid JSON${pageUrl ? ` (${pageUrl})` : ''}`);
+      return;
+    }
+
+    for (const node of flattenJsonLd(parsed)) {
+      const nodeTypes = toStringArray(node['@type']).map(stripSchemaPrefix);
+      nodeTypes.forEach(t => types.add(t));
+      if (nodeTypes.some(t => BUSINESS_TYPES.has(t))) {
+        data.businesses.push(businessFromJsonLd(node, nodeTypes, pageUrl));
+      }
+    }
+  });
+
+  // 2. Microdata
+  $('[itemscope][itemtype*="schema.org/"]').each((_, element) => {
+    const $el = $(element);
+    // Nested scopes (PostalAddress, AggregateRating) are read by their parent
+    if ($el.parents('[itemscope]').length > 0) return;
+
+    const itemTypes = ($el.attr('itemtype') || '')
+      .split(/\s+/)
+      .map(stripSchemaPrefix)
+      .filter(Boolean);
+    itemTypes.forEach(t => types.add(t));
+
+    if (itemTypes.some(t => BUSINESS_TYPES.has(t))) {
+      data.businesses.push(businessFromMicrodata($, $el, itemTypes, pageUrl));
+    }
+  });
+
+  // 3. OpenGraph (and the business:contact_data extension)
+  $('meta[property^="og:"], meta[property^="business:"]').each((_, element) => {
+    const property = $(element).attr('property');
+    const content = $(element).attr('content');
+    if (property && content && !(property in data.openGraph)) {
+      data.openGraph[property] = content.trim();
+    }
+  });
+
+  data.schemaTypes = Array.from(types);
+  return data;
+}
+
+/**
+ * Combines per-page structured data; duplicate businesses (same name and
+ * phone) declared on several pages are kept once.
+ */
+export function mergeStructuredData(items: StructuredData[]): StructuredData {
+  const merged = emptyStructuredData();
+  const seen = new Set<string>();
+
+  for (const item of items) {
+    for (const business of item.businesses) {
+      const key = `${business.name || ''}|${business.telephone || ''}|${business.types.join(',')}`.toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      merged.businesses.push(business);
+    }
+    merged.schemaTypes.push(...item.schemaTypes.filter(t => !merged.schemaTypes.includes(t)));
+    merged.openGraph = { ...item.openGraph, ...merged.openGraph };
+    merged.jsonLdBlocks += item.jsonLdBlocks;
+    merged.errors.push(...item.errors);
+  }
+
+  return merged;
+}
+
+/**
+ * The most specific business entity: LocalBusiness subtypes beat a generic
+ * Organization, and entities with contact details beat bare ones.
+ */
+export function getPrimaryBusiness(data?: StructuredData): BusinessEntity | undefined {
+  if (!data || data.businesses.length === 0) return undefined;
+
+  const rank = (business: BusinessEntity) =>
+    (business.types.some(t => t !== 'Organization') ? 4 : 0) +
+    (business.address ? 2 : 0) +
+    (business.telephone ? 1 : 0) +
+    (business.source === 'json-ld' ? 1 : 0);
+
+  return [...data.businesses].sort((a, b) => rank(b) - rank(a))[0];
+}
+
+/**
+ * Unique social profile URLs declared through sameAs.
+ */
+export function getSocialProfiles(data?: StructuredData): string[] {
+  if (!data) return [];
+  const links = data.businesses.flatMap(b => b.sameAs).filter(link => SOCIAL_HOSTS.test(link));
+  return Array.from(new Set(links));
+}
+
+// Expands arrays and @graph containers into a flat list of nodes
+function flattenJsonLd(value: unknown): JsonLdNode[] {
+  if (Array.isArray(value)) return value.flatMap(flattenJsonLd);
+  if (!value || typeof value !== 'object') return [];
+
+  const node = value as JsonLdNode;
+  if (Array.isArray(node['@graph'])) {
+    return (node['@graph'] as unknown[]).flatMap(flattenJsonLd);
+  }
+  return [node];
+}
+
+function businessFromJsonLd(node: JsonLdNode, types: string[], pageUrl?: string): BusinessEntity {
+  const rating = node.aggregateRating as JsonLdNode | undefined;
+  const ratingValue = toNumber(rating?.ratingValue);
+
+  return {
+    types,
+    name: toText(node.name),
+    telephone: toText(node.telephone),
+    email: toText(node.email)?.replace(/^mailto:/i, ''),
+    url: toText(node.url),
+    address: toAddress(node.address),
+    aggregateRating: ratingValue !== undefined
+      ? { ratingValue, reviewCount: toNumber(rating?.reviewCount ?? rating?.ratingCount) }
+      : undefined,
+    openingHours: [
+      ...toStringArray(node.openingHours),
+      ...toArray(node.openingHoursSpecification).map(formatOpeningHoursSpecification).filter(Boolean) as string[],
+    ],
+    sameAs: toStringArray(node.sameAs),
+    hasMap: toText(node.hasMap),
+    source: 'json-ld',
+    pageUrl,
+  };
+}
+
+function businessFromMicrodata(
+  $: cheerio.CheerioAPI,
+  $scope: cheerio.Cheerio<Element>,
+  types: string[],
+  pageUrl?: string
+): BusinessEntity {
+  const prop = (name: string) => {
+    const $prop = itemProperties($, $scope, name).first();
+    if ($prop.length === 0) return undefined;
+    return ($prop.attr('content') || $prop.attr('href') || $prop.attr('datetime') || $prop.text()).trim() || undefined;
+  };
+  const nestedScope = (name: string) => itemProperties($, $scope, name).filter('[itemscope]').first();
+  const nestedProp = ($nested: cheerio.Cheerio<Element>, name: string) => {
+    const $prop = itemProperties($, $nested, name).first();
+    return $prop.length ? (($prop.attr('content') || $prop.text()).trim() || undefined) : undefined;
+  };
+
+  const $address = nestedScope('address');
+  const $rating = nestedScope('aggregateRating');
+  const ratingValue = $rating.length ? toNumber(nestedProp($rating, 'ratingValue')) : undefined;
+
+  const openingHours: string[] = [];
+  itemProperties($, $scope, 'openingHours').each((_, el) => {
+    const value = ($(el).attr('content') || $(el).text()).trim();
+    if (value) openingHours.push(value);
+  });
+
+  const sameAs: string[] = [];
+  itemProperties($, $scope, 'sameAs').each((_, el) => {
+    const value = $(el).attr('href') || $(el).attr('content');
+    if (value) sameAs.push(value);
+  });
+
+  return {
+    types,
+    name: prop('name'),
+    telephone: prop('telephone'),
+    email: prop('email')?.replace(/^mailto:/i, ''),
+    url: prop('url'),
+    address: $address.length
+      ? {
+        streetAddress: nestedProp($address, 'streetAddress'),
+        addressLocality: nestedProp($address, 'addressLocality'),
+        addressRegion: nestedProp($address, 'addressRegion'),
+        postalCode: nestedProp($address, 'postalCode'),
+        addressCountry: nestedProp($address, 'addressCountry'),
+      }
+      : undefined,
+    aggregateRating: ratingValue !== undefined
+      ? { ratingValue, reviewCount: toNumber(nestedProp($rating, 'reviewCount') ?? nestedProp($rating, 'ratingCount')) }
+      : undefined,
+    openingHours,
+    sameAs,
+    hasMap: prop('hasMap'),
+    source: 'microdata',
+    pageUrl,
+  };
+}
+
+/**
+ * The item's properties called name, in document order: its own descendants
+ * and the elements its itemref ids point at, but not properties of nested items.
+ */
+function itemProperties($: cheerio.CheerioAPI, $item: cheerio.Cheerio<Element>, name: string): cheerio.Cheerio<Element> {
+  const refs = ($item.attr('itemref') || '').split(/\s+/).filter(Boolean);
+  const roots = [$item[0], ...$('[id]').toArray().filter(el => refs.includes($(el).attr('id') || ''))];
+
+  const properties = roots.flatMap(root => [root, ...$(root).find('*').toArray()]
+    .filter(el => el !== $item[0] && ($(el).attr('itemprop') || '').split(/\s+/).includes(name))
+    // The property's item is the nearest itemscope above it; inside this root that is only $item itself
+    .filter(el => {
+      const owner = $(el).parent().closest('[itemscope]')[0];
+      return !owner || owner === $item[0] || !$.contains(root, owner);
+    }));
+  return $(properties);
+}
+
+function toAddress(value: unknown): PostalAddressData | undefined {
+  if (!value) return undefined;
+  if (typeof value === 'string') return { streetAddress: value };
+  const node = (Array.isArray(value) ? value[0] : value) as JsonLdNode;
+  if (!node || typeof node !== 'object') return undefined;
+
+  const country = node.addressCountry;
+  return {
+    streetAddress: toText(node.streetAddress),
+    addressLocality: toText(node.addressLocality),
+    addressRegion: toText(node.addressRegion),
+    postalCode: toText(node.postalCode),
+    addressCountry: typeof country === 'object' && country ? toText((country as JsonLdNode).name) : toText(country),
+  };
+}
+
+function formatOpeningHoursSpecification(value: unknown): string | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const spec = value as JsonLdNode;
+  const days = toStringArray(spec.dayOfWeek).map(stripSchemaPrefix);
+  const opens = toText(spec.opens);
+  const closes = toText(spec.closes);
+  if (days.length === 0 || !opens || !closes) return undefined;
+  return `${days.join(',')} ${opens}-${closes}`;
+}
+
+function stripSchemaPrefix(value: string): string {
+  return value.replace(/^https?:\/\/schema\.org\//i, '');
+}
+
+function toArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function toStringArray(value: unknown): string[] {
+  return toArray(value)
+    .map(item => (typeof item === 'object' && item ? toText((item as JsonLdNode)['@id'] ?? (item as JsonLdNode).url) : toText(item)))
+    .filter((item): item is string => Boolean(item));
+}
+
+function toText(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+function toNumber(value: unknown): number | undefined {
+  const parsed = Number(value);
+  // Number('') and Number(' ') are 0, which would read as a real zero-star rating
+  return value !== undefined && value !== null && String(value).trim() !== '' && Number.isFinite(parsed) ? parsed : undefined;
+}
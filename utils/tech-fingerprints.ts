@@ -0,0 +1,353 @@
+import * as cheerio from 'cheerio';
+import { DetectedTechnology, TechCategory, TechMarker, TechMarkerKind } from '@/types';
+
+// ============================================================================
+// FINGERPRINT DATABASE
+// Each vendor is recognised by one or more markers. Patterns are regexes:
+// `scripts` run against <script src>, `globals` against inline script code,
+// `cookies` against cookie names set by the response. `dom` entries are CSS
+// selectors. `idPattern` pulls account/container IDs out of the raw HTML.
+// ============================================================================
+
+interface TechFingerprint {
+  id: string;
+  vendor: string;
+  category: TechCategory;
+  scripts?: string[];
+  globals?: string[];
+  cookies?: string[];
+  meta?: { name: string; content?: string }[];
+  dom?: string[];
+  idPattern?: string; // First capture group (or whole match) is the ID
+}
+
+// How much a single marker of each kind is trusted; markers combine as independent evidence
+const MARKER_CONFIDENCE: Record<TechMarkerKind, number> = {
+  script: 0.9,
+  meta: 0.8,
+  dom: 0.7,
+  global: 0.6,
+  cookie: 0.5,
+};
+
+const MAX_MARKERS_PER_VENDOR = 5;
+
+const TECH_FINGERPRINTS: TechFingerprint[] = [
+  // BOOKING
+  {
+    id: 'calendly', vendor: 'Calendly', category: 'booking',
+    scripts: ['assets\\.calendly\\.com'],
+    globals: ['Calendly\\.init'],
+    dom: ['.calendly-inline-widget', 'iframe[src*="calendly.com"]', 'a[href*="calendly.com/"]'],
+  },
+  {
+    id: 'acuity', vendor: 'Acuity Scheduling', category: 'booking',
+    scripts: ['embed\\.acuityscheduling\\.com'],
+    dom: ['iframe[src*="acuityscheduling.com"]', 'a[href*="acuityscheduling.com"]', 'a[href*="as.me/"]'],
+  },
+  {
+    id: 'zocdoc', vendor: 'Zocdoc', category: 'booking',
+    scripts: ['offsiteschedule\\.zocdoc\\.com', 'zocdoc\\.com/widget'],
+    dom: ['iframe[src*="zocdoc.com"]', 'a[href*="zocdoc.com"]'],
+  },
+  {
+    id: 'square-appointments', vendor: 'Square Appointments', category: 'booking',
+    scripts: ['square\\.site/appointments'],
+    dom: ['a[href*="squareup.com/appointments"]', 'a[href*="square.site/book"]'],
+  },
+  {
+    id: 'opentable', vendor: 'OpenTable', category: 'booking',
+    scripts: ['opentable\\.com/widget'],
+    dom: ['iframe[src*="opentable.com"]', 'a[href*="opentable.com"]'],
+  },
+  {
+    id: 'resy', vendor: 'Resy', category: 'booking',
+    scripts: ['widgets\\.resy\\.com'],
+    dom: ['a[href*="resy.com"]'],
+  },
+  {
+    id: 'housecall-pro', vendor: 'Housecall Pro', category: 'booking',
+    scripts: ['online-booking\\.housecallpro\\.com'],
+    dom: ['a[href*="book.housecallpro.com"]'],
+  },
+  {
+    id: 'servicetitan', vendor: 'ServiceTitan', category: 'booking',
+    scripts: ['static\\.servicetitan\\.com', 'embed\\.scheduler\\.servicetitan\\.com'],
+  },
+  {
+    id: 'jobber', vendor: 'Jobber', category: 'booking',
+    scripts: ['getjobber\\.com'],
+    dom: ['a[href*="clienthub.getjobber.com"]'],
+  },
+
+  // CHAT
+  {
+    id: 'intercom', vendor: 'Intercom', category: 'chat',
+    scripts: ['widget\\.intercom\\.io', 'js\\.intercomcdn\\.com'],
+    globals: ['\\bIntercom\\(', 'intercomSettings'],
+    cookies: ['^intercom-'],
+  },
+  {
+    id: 'drift', vendor: 'Drift', category: 'chat',
+    scripts: ['js\\.driftt\\.com'],
+    globals: ['\\bdrift\\.load\\('],
+  },
+  {
+    id: 'livechat', vendor: 'LiveChat', category: 'chat',
+    scripts: ['cdn\\.livechatinc\\.com'],
+    globals: ['__lc\\.license'],
+  },
+  {
+    id: 'tidio', vendor: 'Tidio', category: 'chat',
+    scripts: ['code\\.tidio\\.co'],
+  },
+  {
+    id: 'tawk', vendor: 'tawk.to', category: 'chat',
+    scripts: ['embed\\.tawk\\.to'],
+    globals: ['Tawk_API'],
+  },
+  {
+    id: 'zendesk-chat', vendor: 'Zendesk Messaging', category: 'chat',
+    scripts: ['static\\.zdassets\\.com/ekr/snippet\\.js'],
+    globals: ['\\bzE\\('],
+  },
+  {
+    id: 'podium', vendor: 'Podium', category: 'chat',
+    scripts: ['connect\\.podium\\.com'],
+  },
+
+  // CRM
+  {
+    id: 'hubspot', vendor: 'HubSpot', category: 'crm',
+    scripts: ['js\\.hs-scripts\\.com', 'js\\.hsforms\\.net', 'js\\.hs-analytics\\.net'],
+    globals: ['\\b_hsq\\b', 'hbspt\\.forms'],
+    cookies: ['^(__hstc|__hssc|hubspotutk)$'],
+    meta: [{ name: 'generator', content: 'HubSpot' }],
+    dom: ['.hbspt-form'],
+  },
+  {
+    id: 'pardot', vendor: 'Salesforce Pardot', category: 'crm',
+    scripts: ['pi\\.pardot\\.com'],
+    globals: ['\\bpiAId\\b'],
+  },
+  {
+    id: 'leadconnector', vendor: 'GoHighLevel (LeadConnector)', category: 'crm',
+    scripts: ['widgets\\.leadconnectorhq\\.com', 'link\\.msgsndr\\.com'],
+  },
+
+  // EMAIL MARKETING
+  {
+    id: 'mailchimp', vendor: 'Mailchimp', category: 'email-marketing',
+    scripts: ['chimpstatic\\.com', 'list-manage\\.com'],
+    dom: ['form[action*="list-manage.com"]'],
+  },
+  {
+    id: 'klaviyo', vendor: 'Klaviyo', category: 'email-marketing',
+    scripts: ['static\\.klaviyo\\.com'],
+    globals: ['\\b_learnq\\b'],
+  },
+  {
+    id: 'constant-contact', vendor: 'Constant Contact', category: 'email-marketing',
+    scripts: ['ctctcdn\\.com'],
+    dom: ['form[action*="constantcontact.com"]'],
+  },
+
+  // PAYMENTS
+  {
+    id: 'stripe', vendor: 'Stripe', category: 'payments',
+    scripts: ['js\\.stripe\\.com'],
+    globals: ['Stripe\\([\'"]pk_'],
+    cookies: ['^__stripe_(mid|sid)$'],
+    dom: ['a[href*="buy.stripe.com"]'],
+  },
+  {
+    id: 'paypal', vendor: 'PayPal', category: 'payments',
+    scripts: ['paypal\\.com/sdk/js', 'paypalobjects\\.com'],
+    dom: ['form[action*="paypal.com"]'],
+  },
+  {
+    id: 'square-payments', vendor: 'Square Payments', category: 'payments',
+    scripts: ['web\\.squarecdn\\.com', 'js\\.squareup\\.com'],
+  },
+
+  // ANALYTICS
+  {
+    id: 'google-analytics-4', vendor: 'Google Analytics 4', category: 'analytics',
+    scripts: ['googletagmanager\\.com/gtag/js\\?id=G-'],
+    globals: ['gtag\\(\\s*[\'"]config[\'"]\\s*,\\s*[\'"]G-'],
+    idPattern: '[\'"=](G-[A-Z0-9]{6,12})\\b',
+  },
+  {
+    id: 'universal-analytics', vendor: 'Universal Analytics (legacy)', category: 'analytics',
+    scripts: ['google-analytics\\.com/(analytics|ga)\\.js', 'googletagmanager\\.com/gtag/js\\?id=UA-'],
+    globals: ['\\bga\\(\\s*[\'"]create[\'"]', '_gaq\\.push', 'gtag\\(\\s*[\'"]config[\'"]\\s*,\\s*[\'"]UA-'],
+    idPattern: '\\b(UA-\\d{4,10}-\\d{1,4})\\b',
+  },
+
+  // TAG MANAGER
+  {
+    id: 'google-tag-manager', vendor: 'Google Tag Manager', category: 'tag-manager',
+    scripts: ['googletagmanager\\.com/gtm\\.js'],
+    globals: ['googletagmanager\\.com/gtm\\.js'],
+    dom: ['iframe[src*="googletagmanager.com/ns.html"]'],
+    idPattern: '\\b(GTM-[A-Z0-9]{4,9})\\b',
+  },
+
+  // AD PIXELS
+  {
+    id: 'meta-pixel', vendor: 'Meta Pixel', category: 'ad-pixel',
+    scripts: ['connect\\.facebook\\.net/[^/]+/fbevents\\.js'],
+    globals: ['\\bfbq\\(\\s*[\'"]init', 'fbevents\\.js'],
+    dom: ['img[src*="facebook.com/tr?"]'],
+    idPattern: 'fbq\\(\\s*[\'"]init[\'"]\\s*,\\s*[\'"](\\d{6,20})',
+  },
+  {
+    id: 'google-ads', vendor: 'Google Ads', category: 'ad-pixel',
+    scripts: ['googleadservices\\.com/pagead/conversion', 'googletagmanager\\.com/gtag/js\\?id=AW-'],
+    globals: ['[\'"]AW-\\d{6,12}'],
+    idPattern: '\\b(AW-\\d{6,12})\\b',
+  },
+  {
+    id: 'linkedin-insight', vendor: 'LinkedIn Insight Tag', category: 'ad-pixel',
+    scripts: ['snap\\.licdn\\.com/li\\.lms-analytics'],
+    globals: ['_linkedin_partner_id'],
+  },
+  {
+    id: 'tiktok-pixel', vendor: 'TikTok Pixel', category: 'ad-pixel',
+    scripts: ['analytics\\.tiktok\\.com'],
+    globals: ['\\bttq\\.load\\('],
+  },
+
+  // HEATMAPS / SESSION RECORDING
+  {
+    id: 'hotjar', vendor: 'Hotjar', category: 'heatmap',
+    scripts: ['static\\.hotjar\\.com'],
+    globals: ['_hjSettings', '\\bhj\\(\\s*[\'"]'],
+    cookies: ['^_hj'],
+  },
+  {
+    id: 'microsoft-clarity', vendor: 'Microsoft Clarity', category: 'heatmap',
+    scripts: ['clarity\\.ms/tag'],
+    globals: ['clarity\\.ms/tag'],
+  },
+  {
+    id: 'crazy-egg', vendor: 'Crazy Egg', category: 'heatmap',
+    scripts: ['script\\.crazyegg\\.com'],
+  },
+  {
+    id: 'mouseflow', vendor: 'Mouseflow', category: 'heatmap',
+    scripts: ['cdn\\.mouseflow\\.com'],
+    globals: ['\\b_mfq\\b'],
+  },
+
+  // CALL TRACKING
+  {
+    id: 'callrail', vendor: 'CallRail', category: 'call-tracking',
+    scripts: ['cdn\\.callrail\\.com'],
+  },
+  {
+    id: 'calltrackingmetrics', vendor: 'CallTrackingMetrics', category: 'call-tracking',
+    scripts: ['tctm\\.co', 'calltrk\\.com'],
+  },
+
+  // REVIEWS
+  {
+    id: 'birdeye', vendor: 'Birdeye', category: 'reviews',
+    scripts: ['birdeye\\.com/embed'],
+  },
+  {
+    id: 'trustpilot', vendor: 'Trustpilot', category: 'reviews',
+    scripts: ['widget\\.trustpilot\\.com'],
+    dom: ['.trustpilot-widget'],
+  },
+];
+
+export interface TechDetectionPage {
+  url?: string;
+  html: string;
+  cookies?: string[];
+}
+
+/**
+ * Detects vendors across crawled pages. Confidence combines every distinct
+ * marker found for a vendor as independent evidence (1 - Π(1 - c)).
+ */
+export function detectTechnologies(pages: TechDetectionPage[]): DetectedTechnology[] {
+  const found = new Map<string, { fingerprint: TechFingerprint; markers: TechMarker[]; ids: Set<string> }>();
+
+  for (const page of pages) {
+    if (!page.html) continue;
+    const $ = cheerio.load(page.html);
+    const scriptSources = $('script[src]').map((_, element) => $(element).attr('src') || '').get();
+    const inlineCode = $('script:not([src])')
+      .filter((_, element) => !/ld\+json/i.test($(element).attr('type') || ''))
+      .map((_, element) => $(element).html() || '')
+      .get()
+      .join('\n');
+
+    for (const fingerprint of TECH_FINGERPRINTS) {
+      const markers: TechMarker[] = [];
+      const add = (kind: TechMarkerKind, match: string) => markers.push({ kind, match, pageUrl: page.url });
+
+      for (const pattern of fingerprint.scripts || []) {
+        const src = scriptSources.find(source => new RegExp(pattern, 'i').test(source));
+        if (src) add('script', src);
+      }
+      for (const pattern of fingerprint.globals || []) {
+        const match = inlineCode.match(new RegExp(pattern));
+        if (match) add('global', match[0]);
+      }
+      for (const pattern of fingerprint.cookies || []) {
+        const cookie = (page.cookies || []).find(name => new RegExp(pattern).test(name));
+        if (cookie) add('cookie', cookie);
+      }
+      for (const meta of fingerprint.meta || []) {
+        const content = $(`meta[name="${meta.name}"]`).attr('content');
+        if (content !== undefined && (!meta.content || content.toLowerCase().includes(meta.content.toLowerCase()))) {
+          add('meta', `${meta.name}: ${content}`);
+        }
+      }
+      for (const selector of fingerprint.dom || []) {
+        if ($(selector).length > 0) add('dom', selector);
+      }
+
+      if (markers.length === 0) continue;
+
+      const entry = found.get(fingerprint.id) ?? { fingerprint, markers: [], ids: new Set<string>() };
+      entry.markers.push(...markers);
+      if (fingerprint.idPattern) {
+        for (const match of Array.from(page.html.matchAll(new RegExp(fingerprint.idPattern, 'g')))) {
+          entry.ids.add(match[1] ?? match[0]);
+        }
+      }
+      found.set(fingerprint.id, entry);
+    }
+  }
+
+  return Array.from(found.values())
+    .map(({ fingerprint, markers, ids }) => {
+      const distinct = dedupeMarkers(markers);
+      const miss = distinct.reduce((product, marker) => product * (1 - MARKER_CONFIDENCE[marker.kind]), 1);
+      const technology: DetectedTechnology = {
+        id: fingerprint.id,
+        vendor: fingerprint.vendor,
+        category: fingerprint.category,
+        confidence: Math.round((1 - miss) * 100) / 100,
+        markers: distinct.slice(0, MAX_MARKERS_PER_VENDOR),
+      };
+      if (ids.size > 0) technology.ids = Array.from(ids);
+      return technology;
+    })
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+// The same marker on every crawled page is one piece of evidence, not five
+function dedupeMarkers(markers: TechMarker[]): TechMarker[] {
+  const seen = new Set<string>();
+  return markers.filter(marker => {
+    const key = `${marker.kind}|${marker.match}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,227 @@
+import * as cheerio from 'cheerio';
+import { BrokenLink, PageHealth, ScrapedContent, SiteProbe, TechnicalAudit } from '@/types';
+import { fetchResource } from '@/utils/scraper';
+
+// ============================================================================
+// TECHNICAL SEO AUDIT
+// Page checks read the HTML we already crawled. probeSite makes the few extra
+// same-origin requests (robots.txt, sitemap, http://, link checks) and is run
+// by the caller, so scoring itself stays synchronous.
+// ============================================================================
+
+// Link checks are HEAD requests, but a large site still has hundreds of links
+const MAX_LINK_CHECKS = 15;
+
+const SITEMAP_PATHS = ['/sitemap.xml', '/sitemap_index.xml'];
+const NON_PAGE_LINK = /^(mailto|tel|sms|javascript|data):/i;
+
+// Servers that refuse HEAD answer a GET normally
+const HEAD_NOT_SUPPORTED = new Set([405, 501]);
+
+export interface AuditPage {
+  url: string;
+  html: string;
+}
+
+/**
+ * Combines the HTML checks on every crawled page with the probe results, if
+ * the probe ran.
+ */
+export function auditTechnical(content: ScrapedContent, probe?: SiteProbe): TechnicalAudit {
+  const pages = content.fetch && content.fetch.status !== 'ok'
+    ? []
+    : content.pages ?? [{ url: content.url, html: content.html || '' }];
+  const audit: TechnicalAudit = { pages: pages.map(auditPage) };
+  if (probe) audit.probe = probe;
+  return audit;
+}
+
+export function auditPage(page: AuditPage): PageHealth {
+  const $ = cheerio.load(page.html);
+
+  const canonicalHref = $('link[rel~="canonical"][href]').first().attr('href');
+  const canonical = canonicalHref ? resolveUrl(canonicalHref, page.url) : undefined;
+  const robots = $('meta[name]')
+    .filter((_, element) => /^(robots|googlebot)$/i.test($(element).attr('name') || ''))
+    .map((_, element) => $(element).attr('content') || '')
+    .get()
+    .join(',');
+  const images = $('img');
+  const blockingScripts = $('head script[src]').filter((_, element) => {
+    const $script = $(element);
+    return $script.attr('async') === undefined && $script.attr('defer') === undefined && $script.attr('type') !== 'module';
+  });
+
+  const health: PageHealth = {
+    url: page.url,
+    canonicalSelf: Boolean(canonical && pageKey(canonical) === pageKey(page.url)),
+    noindex: /\b(noindex|none)\b/i.test(robots),
+    images: images.length,
+    imagesMissingAlt: images.filter((_, element) => $(element).attr('alt') === undefined).length,
+    htmlBytes: Buffer.byteLength(page.html, 'utf8'),
+    resources: $('script[src], link[rel~="stylesheet"][href], img[src]').length,
+    blockingScripts: blockingScripts.length,
+  };
+  if (canonical) health.canonical = canonical;
+  const lang = ($('html').attr('lang') || '').trim();
+  if (lang) health.lang = lang;
+  return health;
+}
+
+/**
+ * Requests robots.txt, the sitemap, the http:// version of the site and a
+ * sample of internal links that were not crawled. Never throws: anything that
+ * could not be fetched is reported as missing or broken.
+ */
+export async function probeSite(content: ScrapedContent): Promise<SiteProbe> {
+  const siteUrl = new URL(content.fetch?.finalUrl || content.url);
+  const pages = content.pages ?? [{ url: content.url, html: content.html || '' }];
+
+  const [robotsTxt, httpRedirectsToHttps, links] = await Promise.all([
+    fetchRobotsTxt(siteUrl.origin),
+    checkHttpsRedirect(siteUrl),
+    checkInternalLinks(siteUrl.origin, pages),
+  ]);
+  const sitemap = await findSitemap(siteUrl.origin, robotsTxt.sitemaps);
+
+  const probe: SiteProbe = {
+    robotsTxt,
+    sitemap,
+    https: siteUrl.protocol === 'https:',
+    linksChecked: links.checked,
+    brokenLinks: links.broken,
+  };
+  if (httpRedirectsToHttps !== undefined) probe.httpRedirectsToHttps = httpRedirectsToHttps;
+  return probe;
+}
+
+// ============================================================================
+// PROBES
+// ============================================================================
+
+async function fetchRobotsTxt(origin: string): Promise<SiteProbe['robotsTxt']> {
+  const { result, body } = await fetchResource(`${origin}/robots.txt`);
+  // Sites without one often answer with their 404 page and a 200 status
+  if (result.status !== 'ok' || !body || looksLikeHtml(body)) {
+    return { found: false, disallowsAll: false, sitemaps: [] };
+  }
+  return { found: true, ...parseRobotsTxt(body, origin) };
+}
+
+// Only the "User-agent: *" group matters here: it is what a search engine without its own group obeys
+function parseRobotsTxt(body: string, origin: string): { disallowsAll: boolean; sitemaps: string[] } {
+  const sitemaps: string[] = [];
+  let disallowsAll = false;
+  let inWildcardGroup = false;
+  let groupHasRules = false;
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*/, '').trim();
+    const match = line.match(/^([a-z-]+)\s*:\s*(.*)$/i);
+    if (!match) continue;
+    const [, field, value] = match;
+
+    switch (field.toLowerCase()) {
+      case 'user-agent':
+        // Consecutive User-agent lines share the rules that follow them
+        if (groupHasRules) inWildcardGroup = false;
+        groupHasRules = false;
+        if (value === '*') inWildcardGroup = true;
+        break;
+      case 'disallow':
+      case 'allow':
+        groupHasRules = true;
+        if (inWildcardGroup && field.toLowerCase() === 'disallow' && value === '/') disallowsAll = true;
+        break;
+      case 'sitemap': {
+        const url = resolveUrl(value, origin);
+        if (url) sitemaps.push(url);
+        break;
+      }
+    }
+  }
+  return { disallowsAll, sitemaps };
+}
+
+async function findSitemap(origin: string, declared: string[]): Promise<SiteProbe['sitemap']> {
+  // Sitemaps declared on another host (a CDN, a sitemap service) are out of scope
+  const sameOrigin = declared.filter(url => new URL(url).origin === origin);
+  const candidates = sameOrigin.length > 0 ? sameOrigin : SITEMAP_PATHS.map(path => `${origin}${path}`);
+
+  for (const url of candidates) {
+    const { result, body } = await fetchResource(url);
+    if (result.status === 'ok' && body && /<(urlset|sitemapindex)\b/i.test(body)) {
+      return { found: true, url: result.finalUrl, urlCount: (body.match(/<loc>/gi) || []).length };
+    }
+  }
+  return { found: false, urlCount: 0 };
+}
+
+async function checkHttpsRedirect(siteUrl: URL): Promise<boolean | undefined> {
+  // A site still served over http:// has nothing to redirect to
+  if (siteUrl.protocol !== 'https:') return false;
+
+  const { result } = await fetchResource(`http://${siteUrl.host}/`, 'HEAD');
+  if (result.finalUrl.startsWith('https:')) return true;
+  return result.httpStatus === undefined ? undefined : false;
+}
+
+async function checkInternalLinks(origin: string, pages: AuditPage[]): Promise<{ checked: number; broken: BrokenLink[] }> {
+  // Pages the crawler fetched are known to work
+  const crawled = new Set(pages.map(page => pageKey(page.url)));
+  const links = new Map<string, { url: string; foundOn: string }>();
+
+  for (const page of pages) {
+    const $ = cheerio.load(page.html);
+    $('a[href]').each((_, element) => {
+      const href = ($(element).attr('href') || '').trim();
+      if (!href || href.startsWith('#') || NON_PAGE_LINK.test(href)) return;
+      const url = resolveUrl(href, page.url);
+      if (!url || new URL(url).origin !== origin) return;
+      const key = pageKey(url);
+      if (!crawled.has(key) && !links.has(key)) links.set(key, { url, foundOn: page.url });
+    });
+  }
+
+  const sample = Array.from(links.values()).slice(0, MAX_LINK_CHECKS);
+  const results = await Promise.all(sample.map(async link => ({ link, httpStatus: await checkLink(link.url) })));
+  return {
+    checked: sample.length,
+    broken: results
+      .filter(({ httpStatus }) => httpStatus !== undefined && httpStatus >= 400)
+      .map(({ link, httpStatus }) => ({ url: link.url, httpStatus, foundOn: link.foundOn })),
+  };
+}
+
+// HTTP status of the link, or undefined when it could not be checked (blocked, timed out)
+async function checkLink(url: string): Promise<number | undefined> {
+  let { result } = await fetchResource(url, 'HEAD');
+  if (result.httpStatus !== undefined && HEAD_NOT_SUPPORTED.has(result.httpStatus)) {
+    ({ result } = await fetchResource(url, 'GET'));
+  }
+  return result.status === 'ok' || result.status === 'http-error' ? result.httpStatus : undefined;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function looksLikeHtml(body: string): boolean {
+  return /^\s*(<!doctype html|<html)/i.test(body);
+}
+
+function resolveUrl(href: string, base: string): string | undefined {
+  try {
+    const url = new URL(href, base);
+    url.hash = '';
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Treat trailing slashes and query strings as the same page
+function pageKey(url: string): string {
+  const parsed = new URL(url);
+  return `${parsed.origin}${parsed.pathname.replace(/\/+$/, '') || '/'}`.toLowerCase();
+}
@@ -0,0 +1,211 @@
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import { UrlValidationErrorCode } from '@/types';
+
+// Ports a public website is reasonably served from
+const ALLOWED_PORTS = new Set(['', '80', '443', '8080', '8443']);
+
+// Query parameters that only identify a campaign click, never page content
+const TRACKING_PARAMS = [/^utm_/i, /^(gclid|gbraid|wbraid|dclid|fbclid|msclkid|yclid|twclid|ttclid|igshid|mc_cid|mc_eid|_ga|_gl|_hsenc|_hsmi|mkt_tok)$/i];
+
+// Hostnames that only ever resolve to the local network
+const INTERNAL_HOSTNAMES = /(^localhost$|\.localhost$|\.local$|\.internal$|\.intranet$|\.lan$|\.home\.arpa$)/i;
+
+const ERROR_MESSAGES: Record<UrlValidationErrorCode, string> = {
+  INVALID_URL: 'That does not look like a valid website address.',
+  UNSUPPORTED_SCHEME: 'Only http:// and https:// websites can be analyzed.',
+  CREDENTIALS_NOT_ALLOWED: 'Website addresses containing a username or password are not allowed.',
+  BLOCKED_PORT: 'That port is not allowed. Use the standard website address.',
+  DNS_LOOKUP_FAILED: 'We could not find that domain. Check the spelling and try again.',
+  PRIVATE_ADDRESS: 'That address points to a private or internal network and cannot be analyzed.',
+};
+
+export class UrlValidationError extends Error {
+  constructor(public readonly code: UrlValidationErrorCode, public readonly detail?: string) {
+    super(ERROR_MESSAGES[code]);
+    this.name = 'UrlValidationError';
+  }
+}
+
+/**
+ * Validates and canonicalizes user input, then confirms the host resolves only
+ * to public addresses. Returns the canonical URL to fetch.
+ */
+export async function validateUrl(input: string): Promise<string> {
+  const normalized = normalizeUrl(input);
+  await assertPublicUrl(normalized);
+  return normalized;
+}
+
+/**
+ * Canonicalizes a URL without touching the network: adds a missing scheme,
+ * lowercases the host (IDNs become punycode), drops default ports, fragments
+ * and tracking parameters. Throws UrlValidationError for unusable input.
+ */
+export function normalizeUrl(input: string): string {
+  let candidate = input.trim();
+  if (!candidate) {
+    throw new UrlValidationError('INVALID_URL');
+  }
+
+  // Add https:// if the protocol is missing
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(candidate)) {
+    candidate = `https://${candidate}`;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(candidate);
+  } catch {
+    throw new UrlValidationError('INVALID_URL');
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UrlValidationError('UNSUPPORTED_SCHEME', url.protocol);
+  }
+  if (url.username || url.password) {
+    throw new UrlValidationError('CREDENTIALS_NOT_ALLOWED');
+  }
+  if (!isAllowedPort(url.port)) {
+    throw new UrlValidationError('BLOCKED_PORT', url.port);
+  }
+
+  // WHATWG URL already lowercases and punycodes the host; drop the trailing root dot
+  url.hostname = url.hostname.replace(/\.$/, '');
+  const isBareHostname = !url.hostname.includes('.') && !isIP(stripBrackets(url.hostname));
+  if (!url.hostname || (isBareHostname && !allowPrivateAddresses())) {
+    throw new UrlValidationError('INVALID_URL', url.hostname);
+  }
+
+  url.hash = '';
+  for (const key of Array.from(url.searchParams.keys())) {
+    if (TRACKING_PARAMS.some(pattern => pattern.test(key))) {
+      url.searchParams.delete(key);
+    }
+  }
+
+  return url.toString();
+}
+
+/**
+ * Resolves the URL's host and rejects loopback, private, link-local and other
+ * non-public ranges. Called for the submitted URL and again for every redirect hop.
+ *
+ * Note: the address is re-resolved by fetch itself, so this does not defend
+ * against DNS rebinding between the check and the request.
+ */
+export async function assertPublicUrl(target: string): Promise<void> {
+  if (allowPrivateAddresses()) return;
+
+  const url = new URL(target);
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UrlValidationError('UNSUPPORTED_SCHEME', url.protocol);
+  }
+  if (!isAllowedPort(url.port)) {
+    throw new UrlValidationError('BLOCKED_PORT', url.port);
+  }
+
+  const hostname = stripBrackets(url.hostname);
+  if (INTERNAL_HOSTNAMES.test(hostname)) {
+    throw new UrlValidationError('PRIVATE_ADDRESS', hostname);
+  }
+
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address);
+    } catch (error) {
+      throw new UrlValidationError('DNS_LOOKUP_FAILED', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  const blocked = addresses.find(isPrivateAddress);
+  if (blocked) {
+    throw new UrlValidationError('PRIVATE_ADDRESS', `${hostname} -> ${blocked}`);
+  }
+}
+
+/**
+ * True for any address that is not routable on the public internet.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return isPrivateIPv4(address);
+  if (version === 6) return isPrivateIPv6(address);
+  return true; // Not an IP at all: refuse rather than guess
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b, c] = address.split('.').map(Number);
+
+  return (
+    a === 0 ||                                   // "this" network
+    a === 10 ||                                  // RFC 1918
+    (a === 100 && b >= 64 && b <= 127) ||        // Carrier-grade NAT
+    a === 127 ||                                 // Loopback
+    (a === 169 && b === 254) ||                  // Link-local (incl. cloud metadata 169.254.169.254)
+    (a === 172 && b >= 16 && b <= 31) ||         // RFC 1918
+    (a === 192 && b === 0 && (c === 0 || c === 2)) || // IETF assignments, TEST-NET-1
+    (a === 192 && b === 168) ||                  // RFC 1918
+    (a === 198 && (b === 18 || b === 19)) ||     // Benchmarking
+    (a === 198 && b === 51 && c === 100) ||      // TEST-NET-2
+    (a === 203 && b === 0 && c === 113) ||       // TEST-NET-3
+    a >= 224                                     // Multicast, reserved, broadcast
+  );
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const normalized = address.toLowerCase();
+
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) embed an IPv4 address
+  const embedded = normalized.match(/^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) return isPrivateIPv4(embedded[1]);
+
+  const groups = expandIPv6(normalized);
+  if (!groups) return true;
+
+  // ::ffff:7f00:1 style mapped addresses written in hex
+  if (groups.slice(0, 5).every(g => g === 0) && groups[5] === 0xffff) {
+    return isPrivateIPv4(`${groups[6] >> 8}.${groups[6] & 0xff}.${groups[7] >> 8}.${groups[7] & 0xff}`);
+  }
+
+  const first = groups[0];
+  return (
+    groups.every(g => g === 0) ||                      // Unspecified ::
+    (groups.slice(0, 7).every(g => g === 0) && groups[7] === 1) || // Loopback ::1
+    (first & 0xfe00) === 0xfc00 ||                     // Unique local fc00::/7
+    (first & 0xffc0) === 0xfe80 ||                     // Link-local fe80::/10
+    (first & 0xffc0) === 0xfec0 ||                     // Site-local (deprecated) fec0::/10
+    (first & 0xff00) === 0xff00 ||                     // Multicast ff00::/8
+    (first === 0x2001 && groups[1] === 0x0db8) ||      // Documentation 2001:db8::/32
+    (first === 0x0064 && groups[1] === 0xff9b)         // NAT64 64:ff9b::/96
+  );
+}
+
+function expandIPv6(address: string): number[] | null {
+  const [head, tail = ''] = address.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+
+  if (!address.includes('::') && headGroups.length !== 8) return null;
+  const missing = 8 - headGroups.length - tailGroups.length;
+  if (missing < 0) return null;
+
+  const groups = [...headGroups, ...Array(missing).fill('0'), ...tailGroups].map(g => parseInt(g, 16));
+  return groups.some(Number.isNaN) ? null : groups;
+}
+
+function stripBrackets(hostname: string): string {
+  return hostname.replace(/^\[|\]$/g, '');
+}
+
+function isAllowedPort(port: string): boolean {
+  return ALLOWED_PORTS.has(port) || allowPrivateAddresses();
+}
+
+// Local development and fixture servers run on loopback, often on arbitrary ports
+function allowPrivateAddresses(): boolean {
+  return process.env.ALLOW_PRIVATE_URLS === 'true';
+}
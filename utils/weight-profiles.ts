@@ -0,0 +1,88 @@
+import { AppliedWeightProfile, WeightProfile } from '@/types';
+
+export const DEFAULT_WEIGHT_PROFILE_ID = 'default';
+
+// Category weights by vertical. Each profile's weights sum to 1.
+// authorityGmbShare is how much of Authority comes from the Google Business Profile
+// rather than on-page trust signals: restaurants live on Maps, law firms on their site.
+export const WEIGHT_PROFILES: Record<string, WeightProfile> = {
+  default: {
+    id: 'default',
+    label: 'Balanced (default)',
+    categoryWeights: { content: 0.25, authority: 0.25, systems: 0.25, hypergrowth: 0.25 },
+    authorityGmbShare: 0.5,
+  },
+  healthcare: {
+    id: 'healthcare',
+    label: 'Healthcare & Dental',
+    categoryWeights: { content: 0.2, authority: 0.35, systems: 0.3, hypergrowth: 0.15 },
+    authorityGmbShare: 0.5,
+  },
+  legal: {
+    id: 'legal',
+    label: 'Legal Services',
+    categoryWeights: { content: 0.3, authority: 0.35, systems: 0.2, hypergrowth: 0.15 },
+    authorityGmbShare: 0.4,
+  },
+  home_services: {
+    id: 'home_services',
+    label: 'Home & Auto Services',
+    categoryWeights: { content: 0.15, authority: 0.35, systems: 0.35, hypergrowth: 0.15 },
+    authorityGmbShare: 0.6,
+  },
+  hospitality: {
+    id: 'hospitality',
+    label: 'Restaurants & Cafes',
+    categoryWeights: { content: 0.2, authority: 0.45, systems: 0.2, hypergrowth: 0.15 },
+    authorityGmbShare: 0.7,
+  },
+  real_estate: {
+    id: 'real_estate',
+    label: 'Real Estate & Property Management',
+    categoryWeights: { content: 0.3, authority: 0.25, systems: 0.2, hypergrowth: 0.25 },
+    authorityGmbShare: 0.4,
+  },
+  retail: {
+    id: 'retail',
+    label: 'Retail',
+    categoryWeights: { content: 0.3, authority: 0.3, systems: 0.15, hypergrowth: 0.25 },
+    authorityGmbShare: 0.5,
+  },
+};
+
+// detectedBusinessType -> profile id
+const BUSINESS_TYPE_PROFILES: Record<string, string> = {
+  'Dentist': 'healthcare',
+  'Clinic': 'healthcare',
+  'Law Firm': 'legal',
+  'Auto Repair': 'home_services',
+  'Plumber': 'home_services',
+  'Electrician': 'home_services',
+  'HVAC': 'home_services',
+  'Restaurant': 'hospitality',
+  'Cafe': 'hospitality',
+  'Real Estate': 'real_estate',
+  'Property Management': 'real_estate',
+  'Retail': 'retail',
+};
+
+export function isWeightProfileId(id: string): boolean {
+  return Object.prototype.hasOwnProperty.call(WEIGHT_PROFILES, id);
+}
+
+/**
+ * Picks the weight profile: an explicit override wins, then the profile for
+ * the detected business type, then the default.
+ */
+export function resolveWeightProfile(businessType?: string | null, overrideId?: string): AppliedWeightProfile {
+  if (overrideId && isWeightProfileId(overrideId)) {
+    return { ...WEIGHT_PROFILES[overrideId], source: 'override' };
+  }
+
+  const profileId = businessType ? BUSINESS_TYPE_PROFILES[businessType] : undefined;
+  if (profileId) {
+    return { ...WEIGHT_PROFILES[profileId], source: 'business-type' };
+  }
+
+  return { ...WEIGHT_PROFILES[DEFAULT_WEIGHT_PROFILE_ID], source: 'default' };
+}